@@ -0,0 +1,276 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+/**
+ * Engine Client - the service worker's proxy to the offscreen engine
+ *
+ * MV3 evicts an idle service worker, and any model session it held goes
+ * with it. The sessions therefore live in an offscreen document
+ * (`tabs/offscreen`, see `~lib/engine-host`); this module exposes the same
+ * functions as `~lib/ai-engine` and forwards each call over its own
+ * `engine-port` connection, turning the streamed events back into the
+ * callbacks the caller passed.
+ *
+ * The document is created on the first call and closed by `closeEngine`
+ * (the idle shutdown), so it only exists while the engine is in use.
+ */
+
+import { DEFAULT_BACKEND_SETTINGS } from "~lib/model-backend";
+import { PORT_NAMES } from "~lib/constants";
+import {
+  type AIAvailability,
+  type AIOptimizeOptions,
+  type BackendSettings,
+  type EngineCall,
+  type EngineEvent,
+  type EnginePipeline,
+  type PipelineFallback,
+  type ProgressUpdate,
+  type PromptTemplateTexts,
+  PromptTunerError,
+} from "~types";
+import { type VariantCallbacks } from "~lib/ai-engine";
+
+const OFFSCREEN_URL = "tabs/offscreen.html";
+
+/** Backend settings sent with every call (see `selectBackend`) */
+let backendSettings: BackendSettings = DEFAULT_BACKEND_SETTINGS;
+
+/** In-flight document creation, shared by concurrent first calls */
+let creating: Promise<void> | null = null;
+
+interface CallHandlers {
+  onChunk?: (chunk: string) => void;
+  onCandidateChunk?: (index: number, chunk: string) => void;
+  onCandidateComplete?: (index: number, text: string) => void;
+  onTokenCount?: (count: number, limit: number) => void;
+  onStage?: (stage: string) => void;
+  onFallback?: (fallback: PipelineFallback) => void;
+  onProgress?: (progress: ProgressUpdate) => void;
+}
+
+// =============================================================================
+// Offscreen Document Lifecycle
+// =============================================================================
+
+async function ensureOffscreenDocument(): Promise<void> {
+  if (await chrome.offscreen.hasDocument()) return;
+  creating ??= chrome.offscreen
+    .createDocument({
+      url: OFFSCREEN_URL,
+      reasons: [chrome.offscreen.Reason.WORKERS],
+      justification:
+        "Keeps on-device model sessions alive across service worker restarts",
+    })
+    .finally(() => {
+      creating = null;
+    });
+  await creating;
+}
+
+/** Closes the offscreen document, releasing every session it holds */
+export async function closeEngine(): Promise<void> {
+  if (creating) await creating.catch(() => undefined);
+  if (await chrome.offscreen.hasDocument()) {
+    await chrome.offscreen.closeDocument();
+  }
+}
+
+// =============================================================================
+// Channel
+// =============================================================================
+
+function abortError(): DOMException {
+  return new DOMException("The engine call was aborted", "AbortError");
+}
+
+/**
+ * Sends one call to the offscreen engine and resolves with its RESULT.
+ * Rejects with the engine's PromptTunerError, or an AbortError once `signal`
+ * fires.
+ */
+async function callEngine<T>(
+  call: EngineCall,
+  handlers: CallHandlers = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  signal?.throwIfAborted();
+  await ensureOffscreenDocument();
+  signal?.throwIfAborted();
+
+  return new Promise<T>((resolve, reject) => {
+    const port = chrome.runtime.connect({ name: PORT_NAMES.ENGINE });
+    const state = { settled: false };
+
+    const settle = (finish: () => void): void => {
+      if (state.settled) return;
+      state.settled = true;
+      signal?.removeEventListener("abort", onAbort);
+      finish();
+    };
+
+    const onAbort = (): void => {
+      try {
+        port.postMessage({ type: "ABORT" });
+        port.disconnect();
+      } catch {
+        /* already disconnected */
+      }
+      settle(() => {
+        reject(abortError());
+      });
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    port.onMessage.addListener((event: EngineEvent) => {
+      switch (event.type) {
+        case "CHUNK":
+          handlers.onChunk?.(event.data);
+          break;
+        case "CANDIDATE_CHUNK":
+          handlers.onCandidateChunk?.(event.index, event.data);
+          break;
+        case "CANDIDATE_COMPLETE":
+          handlers.onCandidateComplete?.(event.index, event.text);
+          break;
+        case "TOKEN_INFO":
+          handlers.onTokenCount?.(event.count, event.limit);
+          break;
+        case "STAGE":
+          handlers.onStage?.(event.stage);
+          break;
+        case "FALLBACK":
+          handlers.onFallback?.(event.fallback);
+          break;
+        case "PROGRESS":
+          handlers.onProgress?.(event.progress);
+          break;
+        case "RESULT":
+          settle(() => {
+            resolve(event.value as T);
+          });
+          port.disconnect();
+          break;
+        case "ERROR":
+          settle(() => {
+            reject(
+              event.aborted
+                ? abortError()
+                : new PromptTunerError(event.message, event.code),
+            );
+          });
+          port.disconnect();
+          break;
+      }
+    });
+
+    port.onDisconnect.addListener(() => {
+      settle(() => {
+        reject(
+          new PromptTunerError(
+            "The AI engine stopped unexpectedly",
+            "AI_SESSION_FAILED",
+          ),
+        );
+      });
+    });
+
+    port.postMessage(call);
+  });
+}
+
+function runPipeline(
+  pipeline: EnginePipeline,
+  draft: string,
+  rules: string[],
+  onChunk: (chunk: string) => void,
+  options?: AIOptimizeOptions,
+): Promise<string> {
+  return callEngine<string>(
+    {
+      method: "optimize",
+      backend: backendSettings,
+      pipeline,
+      draft,
+      rules,
+      instruction: options?.instruction,
+      templates: options?.templates,
+    },
+    {
+      onChunk,
+      onTokenCount: options?.onTokenCount,
+      onStage: options?.onStage,
+      onFallback: options?.onFallback,
+      onProgress: options?.onProgress,
+    },
+    options?.signal,
+  );
+}
+
+// =============================================================================
+// Engine API (mirrors ~lib/ai-engine)
+// =============================================================================
+
+/** Chooses the backend later calls run on; takes effect with the next call */
+export function selectBackend(settings: BackendSettings): void {
+  backendSettings = settings;
+}
+
+export function checkBackendAvailability(): Promise<AIAvailability> {
+  return callEngine({ method: "availability", backend: backendSettings });
+}
+
+export function resolveContextLimit(): Promise<number> {
+  return callEngine({ method: "contextLimit", backend: backendSettings });
+}
+
+export function measureDraft(draft: string): Promise<number> {
+  return callEngine({ method: "measure", backend: backendSettings, draft });
+}
+
+export function warmup(
+  rules: string[],
+  templates?: PromptTemplateTexts,
+): Promise<void> {
+  return callEngine({
+    method: "warmup",
+    backend: backendSettings,
+    rules,
+    templates,
+  });
+}
+
+export function optimizeVariants(
+  draft: string,
+  rules: string[],
+  count: number,
+  callbacks: VariantCallbacks,
+  options?: AIOptimizeOptions,
+): Promise<string[]> {
+  return callEngine<string[]>(
+    {
+      method: "variants",
+      backend: backendSettings,
+      draft,
+      rules,
+      count,
+      instruction: options?.instruction,
+      templates: options?.templates,
+    },
+    {
+      onCandidateChunk: callbacks.onChunk,
+      onCandidateComplete: callbacks.onComplete,
+      onTokenCount: options?.onTokenCount,
+    },
+    options?.signal,
+  );
+}
+
+export const optimizePromptStreaming = runPipeline.bind(null, "single");
+export const optimizeWithRefineChain = runPipeline.bind(null, "refine");
+export const optimizeWithMapReduce = runPipeline.bind(null, "map-reduce");
+export const optimizeWithHierarchical = runPipeline.bind(null, "hierarchical");
+export const optimizeWithDecomposition = runPipeline.bind(
+  null,
+  "decomposition",
+);
+export const optimizeWithWriter = runPipeline.bind(null, "writer");
+export const optimizeWithRewriter = runPipeline.bind(null, "rewriter");
@@ -6,10 +6,14 @@
  * - Extension installation and updates
  * - Message routing (single-fire and long-lived ports)
  * - Keep-alive for MV3 service workers
+ * - Session warmup and idle shutdown
+ * - Background optimization jobs (re-attach lookup, completion badge)
  * - Port-based streaming for AI optimization
  */
 
 import { registerOptimizePortHandler } from "./messages/optimize-port";
+import { handleIdleShutdown, handleWarmup } from "./messages/warmup";
+import { jobForTab } from "./jobs";
 import { getRuleCount } from "~lib/platform-rules";
 import { logger } from "~lib/logger";
 import {
@@ -63,7 +67,7 @@ chrome.runtime.onInstalled.addListener((details) => {
 import type { ExtensionMessage } from "~types";
 
 chrome.runtime.onMessage.addListener(
-  (message: ExtensionMessage, _sender, sendResponse) => {
+  (message: ExtensionMessage, sender, sendResponse) => {
     if (typeof message !== "object") {
       return false;
     }
@@ -81,6 +85,14 @@ chrome.runtime.onMessage.addListener(
         });
         return true;
 
+      case MESSAGE_TYPES.GET_JOB:
+        sendResponse(jobForTab(sender.tab?.id));
+        return true;
+
+      case MESSAGE_TYPES.WARMUP:
+        void handleWarmup(message.platform);
+        return false;
+
       default:
         return false;
     }
@@ -112,6 +124,8 @@ try {
   chrome.alarms.onAlarm.addListener((alarm) => {
     if (alarm.name === ALARM_NAMES.KEEP_ALIVE) {
       // Keep service worker active
+    } else if (alarm.name === ALARM_NAMES.IDLE_SHUTDOWN) {
+      void handleIdleShutdown();
     }
   });
 } catch (error: unknown) {
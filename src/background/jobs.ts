@@ -0,0 +1,329 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+/**
+ * Job Manager - optimizations as background jobs
+ *
+ * Every START_OPTIMIZATION becomes a job with an ID, a state, and a log of
+ * the messages it has produced. The job, not the port, owns the work: when
+ * the overlay closes or the page navigates, the port drops but the job keeps
+ * running. A reopened overlay asks for its tab's job (GET_JOB) and attaches
+ * a new port, which is sent the log so far and then the live stream.
+ *
+ * Identical requests (same draft, action, platform, variants and rules
+ * version) share one job while it runs: the second tab subscribes to the
+ * first one's stream instead of generating the same text again. A "fresh"
+ * request (Regenerate) always gets a job of its own.
+ *
+ * A job that finishes while a subscribed tab has no overlay attached flags
+ * that tab's toolbar badge (✓ done, ! failed) until an overlay picks it up;
+ * completed results are in history either way.
+ *
+ * One job per tab: starting another unsubscribes the tab from its previous
+ * job, which is cancelled once no tab is left waiting for it.
+ */
+
+import { fnv1a64 } from "~lib/hash";
+import { logger } from "~lib/logger";
+import { getRulesVersion } from "~lib/platform-rules";
+import {
+  type JobState,
+  type JobSummary,
+  type OptimizePortMessage,
+  type OptimizePortRequest,
+} from "~types";
+import { setKeepAlive } from "./index";
+import { holdSessions, releaseSessions } from "./messages/warmup";
+
+/** Finished jobs are forgotten after this long, delivered or not */
+const JOB_RETENTION_MS = 30 * 60_000;
+
+const BADGE_COLORS: Record<"complete" | "error", string> = {
+  complete: "#2c35ea",
+  error: "#a8261f",
+};
+
+export interface Job {
+  readonly id: string;
+  /** Requests with the same key coalesce into this job (see `jobKey`) */
+  readonly key: string;
+  readonly request: OptimizePortRequest;
+  readonly startedAt: number;
+  readonly controller: AbortController;
+  state: JobState;
+  /** Messages posted so far, consecutive deltas merged - replayed on attach */
+  readonly log: OptimizePortMessage[];
+  /** Tabs waiting for the job's outcome */
+  readonly tabIds: Set<number>;
+  /** Overlays currently streaming the job */
+  readonly ports: Set<chrome.runtime.Port>;
+  /** Subscribed tabs that have been shown the outcome */
+  readonly deliveredTo: Set<number>;
+  finishedAt?: number;
+}
+
+const jobs = new Map<string, Job>();
+
+/** Identity of a request for coalescing: same key, same output */
+export function jobKey(request: OptimizePortRequest): string {
+  return fnv1a64(
+    JSON.stringify([
+      request.draft,
+      request.action,
+      request.platform,
+      request.variants ?? 1,
+      getRulesVersion(),
+    ]),
+  );
+}
+
+function tabOf(port: chrome.runtime.Port): number | undefined {
+  return port.sender?.tab?.id;
+}
+
+// =============================================================================
+// Badge
+// =============================================================================
+
+function setBadge(tabId: number, state: "complete" | "error"): void {
+  void Promise.all([
+    chrome.action.setBadgeText({
+      tabId,
+      text: state === "complete" ? "✓" : "!",
+    }),
+    chrome.action.setBadgeBackgroundColor({
+      tabId,
+      color: BADGE_COLORS[state],
+    }),
+  ]).catch((error: unknown) => {
+    // The tab may have closed in the meantime.
+    logger.warn("Failed to set badge:", error);
+  });
+}
+
+function clearBadge(tabId: number | undefined): void {
+  if (tabId === undefined) return;
+  chrome.action.setBadgeText({ tabId, text: "" }).catch(() => {
+    /* tab closed */
+  });
+}
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+function pruneJobs(now: number): void {
+  for (const [id, job] of jobs) {
+    if (
+      job.finishedAt !== undefined &&
+      now - job.finishedAt > JOB_RETENTION_MS
+    ) {
+      jobs.delete(id);
+    }
+  }
+}
+
+function finishJob(job: Job, state: Exclude<JobState, "running">): void {
+  if (job.state !== "running") return;
+  job.state = state;
+  job.finishedAt = Date.now();
+  for (const port of job.ports) {
+    const tabId = tabOf(port);
+    if (tabId !== undefined) job.deliveredTo.add(tabId);
+  }
+  if (state === "complete" || state === "error") {
+    for (const tabId of job.tabIds) {
+      if (!job.deliveredTo.has(tabId)) setBadge(tabId, state);
+    }
+  }
+  setKeepAlive(false);
+  releaseSessions();
+}
+
+/** Drops `tabId` from every other job, cancelling any left without a tab */
+function unsubscribeTab(tabId: number, except: Job): void {
+  for (const other of jobs.values()) {
+    if (other === except || !other.tabIds.has(tabId)) continue;
+    other.tabIds.delete(tabId);
+    if (other.tabIds.size === 0) {
+      cancelJob(other);
+      jobs.delete(other.id);
+    }
+  }
+}
+
+/**
+ * Registers a job for `request`. The worker and the model sessions are held
+ * until it finishes.
+ */
+export function createJob(
+  request: OptimizePortRequest,
+  tabId: number | undefined,
+): Job {
+  const now = Date.now();
+  pruneJobs(now);
+
+  const job: Job = {
+    id: crypto.randomUUID(),
+    key: jobKey(request),
+    request,
+    startedAt: now,
+    controller: new AbortController(),
+    state: "running",
+    log: [],
+    tabIds: new Set(tabId === undefined ? [] : [tabId]),
+    ports: new Set(),
+    deliveredTo: new Set(),
+  };
+  if (tabId !== undefined) {
+    unsubscribeTab(tabId, job);
+    clearBadge(tabId);
+  }
+  jobs.set(job.id, job);
+  setKeepAlive(true);
+  holdSessions();
+  return job;
+}
+
+/**
+ * The running job an identical request should share, if any, with `tabId`
+ * subscribed to it. A fresh request asks for new text, so it never shares.
+ */
+export function joinJob(
+  request: OptimizePortRequest,
+  tabId: number | undefined,
+): Job | undefined {
+  if (request.fresh) return undefined;
+  const key = jobKey(request);
+  for (const job of jobs.values()) {
+    if (job.state !== "running" || job.key !== key) continue;
+    if (tabId !== undefined) {
+      unsubscribeTab(tabId, job);
+      job.tabIds.add(tabId);
+      clearBadge(tabId);
+    }
+    return job;
+  }
+  return undefined;
+}
+
+/**
+ * Runs the job's work. Work that returns without posting COMPLETE or ERROR
+ * (an abort) leaves the job cancelled.
+ */
+export async function runJob(
+  job: Job,
+  work: (job: Job) => Promise<void>,
+): Promise<void> {
+  try {
+    await work(job);
+  } finally {
+    finishJob(job, "cancelled");
+  }
+}
+
+export function cancelJob(job: Job): void {
+  job.controller.abort();
+  finishJob(job, "cancelled");
+}
+
+/**
+ * CANCEL from `port`: its tab stops waiting, and the job stops once no
+ * other tab is.
+ */
+export function leaveJob(job: Job, port: chrome.runtime.Port): void {
+  job.ports.delete(port);
+  const tabId = tabOf(port);
+  if (tabId !== undefined) job.tabIds.delete(tabId);
+  if (job.tabIds.size === 0) cancelJob(job);
+}
+
+/**
+ * Records `message` in the job's log and forwards it to the attached ports.
+ * COMPLETE and ERROR finish the job; nothing is recorded after that.
+ */
+export function postToJob(job: Job, message: OptimizePortMessage): void {
+  if (job.state !== "running") return;
+
+  const last = job.log.at(-1);
+  if (message.type === "CHUNK" && last?.type === "CHUNK") {
+    job.log[job.log.length - 1] = { ...last, data: last.data + message.data };
+  } else if (
+    message.type === "CANDIDATE_CHUNK" &&
+    last?.type === "CANDIDATE_CHUNK" &&
+    last.index === message.index
+  ) {
+    job.log[job.log.length - 1] = { ...last, data: last.data + message.data };
+  } else if (
+    (message.type === "STAGE" &&
+      message.stage === "queued" &&
+      last?.type === "STAGE" &&
+      last.stage === "queued") ||
+    (message.type === "PROGRESS" && last?.type === "PROGRESS")
+  ) {
+    // Only the latest queue position or progress matters on replay.
+    job.log[job.log.length - 1] = message;
+  } else {
+    job.log.push(message);
+  }
+
+  for (const port of job.ports) {
+    try {
+      port.postMessage(message);
+    } catch (error) {
+      logger.warn("Failed to forward job message:", error);
+      job.ports.delete(port);
+    }
+  }
+
+  if (message.type === "COMPLETE") finishJob(job, "complete");
+  if (message.type === "ERROR") finishJob(job, "error");
+}
+
+// =============================================================================
+// Ports
+// =============================================================================
+
+/** Streams the job to `port`: the log so far, then live messages */
+export function attachPort(job: Job, port: chrome.runtime.Port): void {
+  job.ports.add(port);
+  for (const message of job.log) port.postMessage(message);
+  const tabId = tabOf(port);
+  if (job.state !== "running" && tabId !== undefined) {
+    job.deliveredTo.add(tabId);
+  }
+  clearBadge(tabId);
+}
+
+/** The overlay went away; the job carries on without it */
+export function detachPort(job: Job, port: chrome.runtime.Port): void {
+  job.ports.delete(port);
+}
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * The tab's job an overlay should re-attach to: one still running, or one
+ * whose outcome the tab has not been shown yet. Null otherwise.
+ */
+export function jobForTab(tabId: number | undefined): JobSummary | null {
+  if (tabId === undefined) return null;
+  pruneJobs(Date.now());
+  for (const job of jobs.values()) {
+    if (!job.tabIds.has(tabId)) continue;
+    if (job.state === "cancelled") return null;
+    if (job.state !== "running" && job.deliveredTo.has(tabId)) return null;
+    return {
+      id: job.id,
+      state: job.state,
+      actionId: job.request.action,
+      draft: job.request.draft,
+      startedAt: job.startedAt,
+    };
+  }
+  return null;
+}
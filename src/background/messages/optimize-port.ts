@@ -6,10 +6,15 @@
  *
  * Architecture:
  * 1. Content script opens port with chrome.runtime.connect()
- * 2. Background maintains port connection during optimization
+ * 2. Background maintains port connection during optimization, running the
+ *    engine in the offscreen document through `engine-client`
  * 3. Streams tokens incrementally via port.postMessage()
  * 4. Closes port on completion or error
  *
+ * Each request runs as a background job (see `../jobs`): a dropped port
+ * detaches from the job instead of aborting it, and ATTACH_JOB re-attaches a
+ * reopened overlay. Only CANCEL (or a newer request from the tab) stops it.
+ *
  * Benefits:
  * - Streaming UI updates (no waiting for full response)
  * - Lower perceived latency
@@ -20,7 +25,8 @@
 /* eslint-disable @typescript-eslint/no-deprecated */
 
 import {
-  checkAIAvailability,
+  checkBackendAvailability,
+  selectBackend,
   optimizePromptStreaming,
   optimizeWithRefineChain,
   optimizeWithMapReduce,
@@ -28,25 +34,68 @@ import {
   optimizeWithRewriter,
   optimizeWithDecomposition,
   optimizeWithHierarchical,
+  optimizeVariants,
   resolveContextLimit,
   measureDraft,
-} from "~lib/ai-engine";
+} from "../engine-client";
 import { logger } from "~lib/logger";
+import { loadBackendSettings } from "~lib/model-backend";
 import { getFullRulesForPlatform, getRulesVersion } from "~lib/platform-rules";
-import { getActionById } from "~lib/actions";
-import { fnv1a64 } from "~lib/hash";
+import { type Action, getActionById, loadUserActions } from "~lib/actions";
+import { refineChain } from "~lib/decompose";
+import { addHistoryEntry } from "~lib/history";
+import { checkPreservation } from "~lib/preservation";
+import {
+  loadPromptTemplateOverrides,
+  resolveTemplates,
+} from "~lib/prompt-templates";
+import {
+  type ProtectedSpan,
+  type SpanProtection,
+  createSpanRestorer,
+  placeholderRules,
+  protectSpans,
+  restoreSpans,
+} from "~lib/protected-spans";
+import {
+  engineOf,
+  getCachedResult,
+  putCachedResult,
+  resultCacheKey,
+} from "~lib/result-cache";
 import { setKeepAlive } from "../index";
 import {
+  type Job,
+  attachPort,
+  createJob,
+  detachPort,
+  getJob,
+  joinJob,
+  leaveJob,
+  postToJob,
+} from "../jobs";
+import { type RunTrace, createRunTrace } from "../run-trace";
+import { scheduleJob } from "../scheduler";
+import {
+  type AppliedRuleRef,
   type ErrorCode,
   type Platform,
   PromptTunerError,
   type OptimizePortRequest,
   type OptimizePortChunk,
+  type OptimizePortCandidateChunk,
+  type OptimizePortCandidateComplete,
   type OptimizePortComplete,
   type OptimizePortError,
   type OptimizePortTokenInfo,
   type OptimizePortStage,
+  type OptimizePortProgress,
+  type ProgressUpdate,
   type AIOptimizeOptions,
+  type OptimizationRule,
+  type PromptTemplateOverrides,
+  type RecipeStepInfo,
+  type ResultWarning,
 } from "~types";
 
 // =============================================================================
@@ -71,7 +120,13 @@ function validateRequest(data: unknown): data is OptimizePortRequest {
     request.type === MESSAGE_TYPES.START_OPTIMIZATION &&
     typeof request.draft === "string" &&
     request.draft.trim().length > 0 &&
-    VALID_PLATFORMS.includes(request.platform as Platform)
+    VALID_PLATFORMS.includes(request.platform as Platform) &&
+    (request.variants === undefined ||
+      (typeof request.variants === "number" &&
+        Number.isInteger(request.variants) &&
+        request.variants >= 1 &&
+        request.variants <= MAX_VARIANTS)) &&
+    (request.fresh === undefined || typeof request.fresh === "boolean")
   );
 }
 
@@ -79,62 +134,69 @@ function validateRequest(data: unknown): data is OptimizePortRequest {
 // Port Message Helpers
 // =============================================================================
 
-function sendChunk(port: chrome.runtime.Port, data: string): void {
+function sendChunk(job: Job, data: string): void {
   const message: OptimizePortChunk = {
     type: "CHUNK",
     data,
   };
-  try {
-    port.postMessage(message);
-  } catch (error) {
-    logger.warn("Failed to send chunk:", error);
-  }
+  postToJob(job, message);
 }
 
-function sendComplete(
-  port: chrome.runtime.Port,
-  optimizedPrompt: string,
-  rules: string[],
-): void {
-  const message: OptimizePortComplete = {
-    type: "COMPLETE",
-    optimizedPrompt,
-    appliedRules: rules,
+function sendCandidateChunk(job: Job, index: number, data: string): void {
+  const message: OptimizePortCandidateChunk = {
+    type: "CANDIDATE_CHUNK",
+    index,
+    data,
   };
-  try {
-    port.postMessage(message);
-  } catch (error) {
-    logger.warn("Failed to send completion:", error);
-  }
+  postToJob(job, message);
 }
 
-function sendTokenInfo(
-  port: chrome.runtime.Port,
-  count: number,
-  limit: number,
+function sendCandidateComplete(job: Job, index: number, text: string): void {
+  const message: OptimizePortCandidateComplete = {
+    type: "CANDIDATE_COMPLETE",
+    index,
+    text,
+  };
+  postToJob(job, message);
+}
+
+function sendComplete(
+  job: Job,
+  complete: Omit<OptimizePortComplete, "type">,
 ): void {
+  const message: OptimizePortComplete = { type: "COMPLETE", ...complete };
+  postToJob(job, message);
+}
+
+function sendTokenInfo(job: Job, count: number, limit: number): void {
   const message: OptimizePortTokenInfo = {
     type: "TOKEN_INFO",
     count,
     limit,
   };
-  try {
-    port.postMessage(message);
-  } catch (error) {
-    logger.warn("Failed to send token info:", error);
-  }
+  postToJob(job, message);
 }
 
-function sendStage(port: chrome.runtime.Port, stage: string): void {
-  const message: OptimizePortStage = { type: "STAGE", stage };
-  try {
-    port.postMessage(message);
-  } catch (error) {
-    logger.warn("Failed to send stage:", error);
-  }
+function sendProgress(
+  job: Job,
+  progress: ProgressUpdate,
+  step?: RecipeStepInfo,
+): void {
+  const message: OptimizePortProgress = step
+    ? { type: "PROGRESS", ...progress, step }
+    : { type: "PROGRESS", ...progress };
+  postToJob(job, message);
 }
 
-function sendError(
+function sendStage(job: Job, stage: string, step?: RecipeStepInfo): void {
+  const message: OptimizePortStage = step
+    ? { type: "STAGE", stage, step }
+    : { type: "STAGE", stage };
+  postToJob(job, message);
+}
+
+/** Errors before a job exists (bad requests) go straight to the port */
+function sendPortError(
   port: chrome.runtime.Port,
   code: ErrorCode,
   errorMessage: string,
@@ -151,238 +213,487 @@ function sendError(
   }
 }
 
+function sendError(job: Job, code: ErrorCode, errorMessage: string): void {
+  const message: OptimizePortError = {
+    type: "ERROR",
+    code,
+    message: errorMessage,
+  };
+  postToJob(job, message);
+}
+
 // =============================================================================
-// Result Cache (Phase 6)
+// Result Checks
 // =============================================================================
 
-const CACHE_STORAGE_KEY = "optimize-result-cache";
-const CACHE_MAX_ENTRIES = 20;
+const SPAN_KIND_LABELS: Record<ProtectedSpan["kind"], string> = {
+  marked: "marked passage",
+  code: "code",
+  "stack-trace": "stack trace",
+  json: "JSON sample",
+  url: "URL",
+  quote: "quotation",
+};
+
+/** One warning per protected span the output dropped */
+function spanWarnings(missing: ProtectedSpan[]): ResultWarning[] {
+  return missing.map((span) => ({
+    code: "PROTECTED_SPAN_MISSING",
+    message: `The rewrite dropped a protected ${SPAN_KIND_LABELS[span.kind]} - it is missing from the result.`,
+    detail: span.original,
+  }));
+}
 
-interface CacheEntry {
-  key: string;
-  result: string;
-  rules: string[];
-  ts: number;
+/**
+ * The final text of a (masked) engine result - protected spans restored -
+ * with warnings for the spans it lost and whatever else of `draft` the
+ * preservation check finds missing. `candidate` labels a variant's warnings.
+ */
+function finishResult(
+  draft: string,
+  output: string,
+  protection: SpanProtection,
+  candidate?: number,
+): { text: string; warnings: ResultWarning[] } {
+  const { text, missing } = restoreSpans(output, protection);
+  // What a dropped span contained is reported once, as the span.
+  const checked = missing.reduce(
+    (rest, span) => rest.split(span.original).join(" "),
+    draft,
+  );
+  const warnings = [
+    ...spanWarnings(missing),
+    ...checkPreservation(checked, text),
+  ];
+  if (candidate === undefined) return { text, warnings };
+  const label = `Variant ${String(candidate + 1)}: `;
+  return {
+    text,
+    warnings: warnings.map((w) => ({ ...w, message: label + w.message })),
+  };
 }
 
-function cacheKeyFor(draft: string, actionId: string): string {
-  return fnv1a64(`${actionId}::${getRulesVersion()}::${draft}`);
+// =============================================================================
+// History
+// =============================================================================
+
+/** Best-effort - a full storage quota must not fail the optimization */
+function recordHistory(
+  request: OptimizePortRequest,
+  action: Action | undefined,
+  result: string,
+): void {
+  addHistoryEntry({
+    original: request.draft,
+    result,
+    actionId: request.action,
+    actionLabel: action?.label ?? request.action,
+    platform: request.platform,
+    rulesVersion: getRulesVersion(),
+  }).catch((error: unknown) => {
+    logger.warn("Failed to record history:", error);
+  });
 }
 
-async function readCache(): Promise<CacheEntry[]> {
-  try {
-    const sessionStorage = (
-      chrome.storage as unknown as {
-        session?: chrome.storage.StorageArea;
-      }
-    ).session;
-    if (!sessionStorage) return [];
-    const raw = (await sessionStorage.get(CACHE_STORAGE_KEY)) as Record<
-      string,
-      unknown
-    >;
-    const entries = raw[CACHE_STORAGE_KEY];
-    if (!Array.isArray(entries)) return [];
-    return entries as CacheEntry[];
-  } catch (error) {
-    logger.warn("Failed to read result cache:", error);
-    return [];
-  }
+// =============================================================================
+// Action Dispatch
+// =============================================================================
+
+/**
+ * Dynamic Rule Routing: keeps the foundational structure/clarity rules plus
+ * those tagged for the action. Actions without tags get every rule; unknown
+ * actions keep only the foundational ones.
+ */
+export function rulesForAction(
+  allRules: OptimizationRule[],
+  action: Action | undefined,
+): string[] {
+  const relevantTags = action ? action.ruleTags : [];
+  const activeRules = relevantTags
+    ? allRules.filter((r) => {
+        const isFoundational =
+          (r.tags?.includes("structure") ?? false) ||
+          (r.tags?.includes("clarity") ?? false);
+        const isRelevant =
+          r.tags?.some((tag) => relevantTags.includes(tag)) ?? false;
+        return isFoundational || isRelevant;
+      })
+    : allRules;
+  return activeRules.map((r) => r.rule);
 }
 
-async function writeCache(entries: CacheEntry[]): Promise<void> {
-  try {
-    const sessionStorage = (
-      chrome.storage as unknown as {
-        session?: chrome.storage.StorageArea;
-      }
-    ).session;
-    if (!sessionStorage) return;
-    await sessionStorage.set({ [CACHE_STORAGE_KEY]: entries });
-  } catch (error) {
-    logger.warn("Failed to write result cache:", error);
-  }
+/** References to the rules whose text is in `ruleStrings` */
+function ruleRefsFor(
+  allRules: OptimizationRule[],
+  ruleStrings: string[],
+): AppliedRuleRef[] {
+  return ruleStrings.flatMap((text) => {
+    const rule = allRules.find((r) => r.rule === text);
+    if (!rule) return [];
+    const ref: AppliedRuleRef = { id: rule.id };
+    if (rule.title) ref.title = rule.title;
+    if (rule.source) ref.source = rule.source;
+    return [ref];
+  });
 }
 
-async function getCachedResult(key: string): Promise<CacheEntry | undefined> {
-  const entries = await readCache();
-  return entries.find((e) => e.key === key);
+/**
+ * Runs one (non-recipe) action over `draft` through its engine and pattern,
+ * recording the pattern it dispatched to in `trace`
+ */
+async function runAction(
+  trace: RunTrace,
+  draft: string,
+  action: Action | undefined,
+  ruleStrings: string[],
+  onChunk: (chunk: string) => void,
+  options: AIOptimizeOptions,
+): Promise<string> {
+  // Token-size based dispatch for the generic prompt-engine path.
+  // The specialised actions (pattern / engine overrides) run their own paths.
+  const pattern = action?.pattern ?? "single";
+  const engine = action?.engine ?? "prompt";
+
+  if (pattern === "recursive") {
+    trace.pattern("decomposition");
+    return optimizeWithDecomposition(draft, ruleStrings, onChunk, options);
+  }
+  if (engine === "writer") {
+    trace.pattern("writer");
+    return optimizeWithWriter(draft, ruleStrings, onChunk, options);
+  }
+  if (engine === "rewriter") {
+    trace.pattern("rewriter");
+    return optimizeWithRewriter(draft, ruleStrings, onChunk, options);
+  }
+
+  // Prompt-engine path - decide by token size using the backend's tokenizer.
+  const limit = await resolveContextLimit();
+  const tokens = await measureDraft(draft);
+  options.onTokenCount?.(tokens, limit);
+
+  if (tokens > 2.0 * limit) {
+    trace.pattern("hierarchical");
+    return optimizeWithHierarchical(draft, ruleStrings, onChunk, options);
+  }
+  if (tokens > 0.85 * limit) {
+    trace.pattern("map-reduce");
+    return optimizeWithMapReduce(draft, ruleStrings, onChunk, options);
+  }
+  if (pattern === "refine") {
+    trace.pattern("refine");
+    return optimizeWithRefineChain(draft, ruleStrings, onChunk, options);
+  }
+  trace.pattern("single");
+  return optimizePromptStreaming(draft, ruleStrings, onChunk, options);
 }
 
-async function putCachedResult(entry: CacheEntry): Promise<void> {
-  const entries = await readCache();
-  const filtered = entries.filter((e) => e.key !== entry.key);
-  filtered.unshift(entry);
-  while (filtered.length > CACHE_MAX_ENTRIES) filtered.pop();
-  await writeCache(filtered);
+/**
+ * Pipes the draft through each of the recipe's actions in order. Every step
+ * announces itself with a STAGE carrying its position; only the last step
+ * streams chunks, since intermediate output is replaced by the next step.
+ */
+async function runRecipe(
+  job: Job,
+  trace: RunTrace,
+  draft: string,
+  recipe: Action,
+  allRules: OptimizationRule[],
+  keepRules: string[],
+  templateOverrides: PromptTemplateOverrides,
+  onChunk: (chunk: string) => void,
+  options: AIOptimizeOptions,
+): Promise<{ optimizedPrompt: string; ruleStrings: string[] }> {
+  const steps = (recipe.steps ?? []).map((id) => {
+    const step = getActionById(id);
+    if (!step || step.steps) {
+      throw new PromptTunerError(
+        `Recipe "${recipe.label}" refers to a missing action: ${id}`,
+        "INVALID_REQUEST",
+      );
+    }
+    return step;
+  });
+
+  const applied = new Set<string>();
+  const optimizedPrompt = await refineChain(
+    draft,
+    steps.map((step, index) => async (input: string) => {
+      const info: RecipeStepInfo = {
+        index,
+        total: steps.length,
+        label: step.label,
+      };
+      trace.stage("step", step.label);
+      sendStage(job, "step", info);
+
+      const ruleStrings = rulesForAction(allRules, step);
+      for (const rule of ruleStrings) applied.add(rule);
+
+      const isLast = index === steps.length - 1;
+      return runAction(
+        trace,
+        input,
+        step,
+        [...ruleStrings, ...keepRules],
+        isLast ? onChunk : () => undefined,
+        {
+          ...options,
+          instruction: step.instruction,
+          templates: resolveTemplates(templateOverrides, step.id),
+          onStage: (stage: string) => {
+            trace.stage(stage, step.label);
+            sendStage(job, stage, info);
+          },
+          onProgress: (progress) => {
+            sendProgress(job, progress, info);
+          },
+        },
+      );
+    }),
+    options.signal,
+  );
+
+  return { optimizedPrompt, ruleStrings: [...applied] };
 }
 
 // =============================================================================
 // Port Handler
 // =============================================================================
 
+/** Token count for the run report - best-effort, undefined if unmeasurable */
+async function countTokens(text: string): Promise<number | undefined> {
+  try {
+    const count = await measureDraft(text);
+    return count > 0 ? count : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
- * Port handler for streaming AI optimization results
+ * Runs a job's optimization, posting its progress and result to the job
  */
-async function handleOptimizationRequest(
-  port: chrome.runtime.Port,
-  request: OptimizePortRequest,
-  signal: AbortSignal,
-): Promise<void> {
+async function handleOptimizationRequest(job: Job): Promise<void> {
+  const { request } = job;
+  const { signal } = job.controller;
+  // Variant candidates generate one after another - give each its own budget.
+  const timeoutMs = STREAM_TIMEOUT_MS * (request.variants ?? 1);
   const timeout = setTimeout(() => {
-    sendError(port, "UNKNOWN_ERROR", "Optimization timed out after 60 seconds");
-    try {
-      port.disconnect();
-    } catch {
-      /* already disconnected */
-    }
-  }, STREAM_TIMEOUT_MS);
+    sendError(
+      job,
+      "UNKNOWN_ERROR",
+      `Optimization timed out after ${String(timeoutMs / 1000)} seconds`,
+    );
+    job.controller.abort();
+  }, timeoutMs);
 
   const { draft, platform } = request;
+  const trace = createRunTrace();
 
   try {
     const allRules = getFullRulesForPlatform(platform);
 
-    // Dynamic Rule Routing: Filter rules based on the specific action selected
-    let activeRules = allRules;
-    if (request.action !== "optimize") {
-      const actionToTags: Record<string, string[]> = {
-        "few-shot": ["examples", "few-shot", "demonstration"],
-        "chain-of-thought": ["reasoning", "chain-of-thought", "steps"],
-        "assign-role": ["persona", "role", "context"],
-        "define-output": ["format", "output", "structure"],
-        "add-constraints": ["length", "detail", "constraints", "instructions"],
-        "break-down": ["decomposition", "steps", "structure", "complex-tasks"],
-      };
-
-      const relevantTags = actionToTags[request.action] ?? [];
-
-      activeRules = allRules.filter((r) => {
-        const isFoundational =
-          (r.tags?.includes("structure") ?? false) ||
-          (r.tags?.includes("clarity") ?? false);
-        const isRelevant =
-          r.tags?.some((tag) => relevantTags.includes(tag)) ?? false;
-        return isFoundational || isRelevant;
-      });
-    }
-
-    const ruleStrings = activeRules.map((r) => r.rule);
-
-    // Cache check
-    const cacheKey = cacheKeyFor(draft, request.action);
-    const cached = await getCachedResult(cacheKey);
+    // Custom actions and recipes live in storage - the service worker may
+    // have restarted since they were last edited, so re-read before resolving
+    // the ID.
+    await loadUserActions();
+    const action = getActionById(request.action);
+    const variantCount = action?.steps ? 1 : (request.variants ?? 1);
+
+    // Template overrides are edited on the options page - re-read them too.
+    // A recipe's steps each run with their own.
+    const templateOverrides = await loadPromptTemplateOverrides();
+    const templates = resolveTemplates(templateOverrides, action?.id);
+    const templateSets = action?.steps
+      ? action.steps.map((id) => resolveTemplates(templateOverrides, id))
+      : [templates];
+
+    // Backend choice can change in the popup at any time - re-read it. It
+    // is part of the cache key, too.
+    const backend = await loadBackendSettings();
+    selectBackend(backend);
+
+    // Cache check - variants always generate fresh candidates, and a
+    // regenerate asks for a fresh result
+    const cacheKey = resultCacheKey(request, action, backend, templateSets);
+    const cached =
+      variantCount === 1 && !request.fresh
+        ? await getCachedResult(cacheKey)
+        : undefined;
     if (cached) {
-      sendStage(port, "cached");
-      sendChunk(port, cached.result);
-      clearTimeout(timeout);
-      sendComplete(port, cached.result, cached.rules);
+      trace.stage("cached");
+      sendStage(job, "cached");
+      sendChunk(job, cached.result);
+      const warnings = checkPreservation(draft, cached.result);
+      sendComplete(job, {
+        optimizedPrompt: cached.result,
+        appliedRules: cached.rules,
+        rules: ruleRefsFor(allRules, cached.rules),
+        report: trace.finish({ engine: cached.engine, cached: true }),
+        ...(warnings.length > 0 && { warnings }),
+      });
+      recordHistory(request, action, cached.result);
       return;
     }
 
-    // AI availability
-    const aiStatus = await checkAIAvailability();
+    const aiStatus = await checkBackendAvailability();
     if (!aiStatus.available) {
       sendError(
-        port,
+        job,
         "AI_UNAVAILABLE",
-        aiStatus.reason ??
-          "Gemini Nano is not available. Requires Chrome 138+.",
+        aiStatus.reason ?? "The selected model is not available.",
       );
       return;
     }
 
+    // Code, URLs, quotes and the like go to the model as placeholders and
+    // come back verbatim - in the stream as well as in the result.
+    const protection = protectSpans(draft);
+    const keepRules = placeholderRules(protection);
+    const restorer = createSpanRestorer(protection);
     const onChunk = (chunk: string): void => {
-      sendChunk(port, chunk);
+      const text = restorer.push(chunk);
+      if (text) sendChunk(job, text);
     };
 
     const baseOptions: AIOptimizeOptions = {
       signal,
+      templates,
       onTokenCount: (count, limit) => {
-        sendTokenInfo(port, count, limit);
+        trace.tokensIn(count);
+        sendTokenInfo(job, count, limit);
       },
       onStage: (stage: string) => {
-        sendStage(port, stage);
+        trace.stage(stage);
+        sendStage(job, stage);
+      },
+      onFallback: (fallback) => {
+        trace.fallback(fallback);
+      },
+      onProgress: (progress) => {
+        sendProgress(job, progress);
       },
     };
 
-    // Token-size based dispatch for the generic prompt-engine path.
-    // The specialised actions (pattern / engine overrides) run their own paths.
-    const action = getActionById(request.action);
-    const pattern = action?.pattern ?? "single";
-    const engine = action?.engine ?? "prompt";
-
-    let optimizedPrompt: string;
-
-    if (pattern === "recursive") {
-      optimizedPrompt = await optimizeWithDecomposition(
-        draft,
-        ruleStrings,
-        onChunk,
-        baseOptions,
+    if (variantCount > 1) {
+      trace.pattern("variants");
+      const ruleStrings = rulesForAction(allRules, action);
+      const restorers = new Map<
+        number,
+        ReturnType<typeof createSpanRestorer>
+      >();
+      const restorerFor = (index: number) => {
+        let candidateRestorer = restorers.get(index);
+        if (!candidateRestorer) {
+          candidateRestorer = createSpanRestorer(protection);
+          restorers.set(index, candidateRestorer);
+        }
+        return candidateRestorer;
+      };
+      const masked = await optimizeVariants(
+        protection.masked,
+        [...ruleStrings, ...keepRules],
+        variantCount,
+        {
+          onChunk: (index, chunk) => {
+            const text = restorerFor(index).push(chunk);
+            if (text) sendCandidateChunk(job, index, text);
+          },
+          onComplete: (index, text) => {
+            const tail = restorerFor(index).flush();
+            if (tail) sendCandidateChunk(job, index, tail);
+            sendCandidateComplete(
+              job,
+              index,
+              restoreSpans(text, protection).text,
+            );
+          },
+        },
+        { ...baseOptions, instruction: action?.instruction },
       );
-    } else if (engine === "writer") {
-      optimizedPrompt = await optimizeWithWriter(
-        draft,
-        ruleStrings,
-        onChunk,
-        baseOptions,
+      const restored = masked.map((text, index) =>
+        finishResult(draft, text, protection, index),
       );
-    } else if (engine === "rewriter") {
-      optimizedPrompt = await optimizeWithRewriter(
-        draft,
-        ruleStrings,
+      const candidates = restored.map((r) => r.text);
+      const warnings = restored.flatMap((r) => r.warnings);
+      // The user picks a candidate in the overlay, so there is no single
+      // result to cache or record in history here.
+      sendComplete(job, {
+        optimizedPrompt: candidates[0] ?? draft,
+        appliedRules: ruleStrings,
+        rules: ruleRefsFor(allRules, ruleStrings),
+        report: trace.finish({ engine: engineOf(backend), cached: false }),
+        candidates,
+        ...(warnings.length > 0 && { warnings }),
+      });
+      return;
+    }
+
+    let maskedResult: string;
+    let ruleStrings: string[];
+
+    if (action?.steps) {
+      ({ optimizedPrompt: maskedResult, ruleStrings } = await runRecipe(
+        job,
+        trace,
+        protection.masked,
+        action,
+        allRules,
+        keepRules,
+        templateOverrides,
         onChunk,
         baseOptions,
-      );
+      ));
     } else {
-      // Prompt-engine path - decide by token size using Nano's native tokenizer.
-      const limit = await resolveContextLimit();
-      const tokens = await measureDraft(draft);
-      sendTokenInfo(port, tokens, limit);
-
-      if (tokens > 2.0 * limit) {
-        optimizedPrompt = await optimizeWithHierarchical(
-          draft,
-          ruleStrings,
-          onChunk,
-          baseOptions,
-        );
-      } else if (tokens > 0.85 * limit) {
-        optimizedPrompt = await optimizeWithMapReduce(
-          draft,
-          ruleStrings,
-          onChunk,
-          baseOptions,
-        );
-      } else if (request.action === "optimize") {
-        optimizedPrompt = await optimizeWithRefineChain(
-          draft,
-          ruleStrings,
-          onChunk,
-          baseOptions,
-        );
-      } else {
-        optimizedPrompt = await optimizePromptStreaming(
-          draft,
-          ruleStrings,
-          onChunk,
-          baseOptions,
-        );
-      }
+      ruleStrings = rulesForAction(allRules, action);
+      maskedResult = await runAction(
+        trace,
+        protection.masked,
+        action,
+        [...ruleStrings, ...keepRules],
+        onChunk,
+        { ...baseOptions, instruction: action?.instruction },
+      );
     }
+    const tail = restorer.flush();
+    if (tail) sendChunk(job, tail);
+    const { text: optimizedPrompt, warnings } = finishResult(
+      draft,
+      maskedResult,
+      protection,
+    );
+
+    const [tokensIn, tokensOut] = await Promise.all([
+      trace.hasTokensIn() ? undefined : countTokens(draft),
+      countTokens(optimizedPrompt),
+    ]);
+    sendComplete(job, {
+      optimizedPrompt,
+      appliedRules: ruleStrings,
+      rules: ruleRefsFor(allRules, ruleStrings),
+      report: trace.finish({
+        engine: engineOf(backend),
+        cached: false,
+        tokensIn,
+        tokensOut,
+      }),
+      ...(warnings.length > 0 && { warnings }),
+    });
+    recordHistory(request, action, optimizedPrompt);
 
-    clearTimeout(timeout);
-    sendComplete(port, optimizedPrompt, ruleStrings);
-
+    // A result that lost protected content is not worth serving again.
+    if (warnings.some((w) => w.code === "PROTECTED_SPAN_MISSING")) return;
     void putCachedResult({
       key: cacheKey,
       result: optimizedPrompt,
       rules: ruleStrings,
+      actionId: request.action,
+      platform,
+      engine: engineOf(backend),
       ts: Date.now(),
     });
   } catch (error) {
-    clearTimeout(timeout);
     logger.error("Error during optimization:", error);
 
     if (error instanceof Error && error.name === "AbortError") {
@@ -390,7 +701,7 @@ async function handleOptimizationRequest(
     }
 
     if (error instanceof PromptTunerError) {
-      sendError(port, error.code, error.message);
+      sendError(job, error.code, error.message);
       return;
     }
 
@@ -398,7 +709,11 @@ async function handleOptimizationRequest(
       error instanceof Error
         ? error.message
         : "Unknown error during optimization";
-    sendError(port, "UNKNOWN_ERROR", message);
+    sendError(job, "UNKNOWN_ERROR", message);
+  } finally {
+    // Every exit, early returns included - a stale timer would abort the
+    // finished job's controller.
+    clearTimeout(timeout);
   }
 }
 
@@ -406,7 +721,7 @@ async function handleOptimizationRequest(
 // Port Connection Listener
 // =============================================================================
 
-import { PORT_NAMES, MESSAGE_TYPES } from "~lib/constants";
+import { PORT_NAMES, MESSAGE_TYPES, MAX_VARIANTS } from "~lib/constants";
 
 export function registerOptimizePortHandler(): void {
   chrome.runtime.onConnect.addListener((port) => {
@@ -414,12 +729,13 @@ export function registerOptimizePortHandler(): void {
       return;
     }
 
-    let controller: AbortController | null = null;
+    /** The job this port is streaming (started here or attached to) */
+    let job: Job | null = null;
 
     port.onMessage.addListener((message: unknown) => {
       if (typeof message !== "object" || message === null) {
         logger.error("Received invalid message from optimize port.");
-        sendError(
+        sendPortError(
           port,
           "INVALID_REQUEST",
           "Invalid optimization request format",
@@ -429,13 +745,30 @@ export function registerOptimizePortHandler(): void {
 
       const typed = message as Record<string, unknown>;
       if (typed.type === MESSAGE_TYPES.CANCEL_OPTIMIZATION) {
-        controller?.abort();
+        if (job) leaveJob(job, port);
+        return;
+      }
+
+      if (typed.type === MESSAGE_TYPES.ATTACH_JOB) {
+        const target =
+          typeof typed.jobId === "string" ? getJob(typed.jobId) : undefined;
+        if (!target) {
+          sendPortError(
+            port,
+            "INVALID_REQUEST",
+            "That optimization is no longer available",
+          );
+          return;
+        }
+        if (job) detachPort(job, port);
+        job = target;
+        attachPort(job, port);
         return;
       }
 
       if (!validateRequest(message)) {
         logger.error("Invalid request:", message);
-        sendError(
+        sendPortError(
           port,
           "INVALID_REQUEST",
           "Invalid optimization request format",
@@ -443,15 +776,25 @@ export function registerOptimizePortHandler(): void {
         return;
       }
 
-      // Fresh controller per request; previous (if any) is replaced.
-      controller?.abort();
-      controller = new AbortController();
-      void handleOptimizationRequest(port, message, controller.signal);
+      // A new request from the tab supersedes its running job. An identical
+      // one already running elsewhere is shared rather than generated twice.
+      if (job) detachPort(job, port);
+      const tabId = port.sender?.tab?.id;
+      const shared = joinJob(message, tabId);
+      if (shared) {
+        job = shared;
+        attachPort(job, port);
+        return;
+      }
+      job = createJob(message, tabId);
+      attachPort(job, port);
+      scheduleJob(job, handleOptimizationRequest);
     });
 
     port.onDisconnect.addListener(() => {
-      // A disconnect mid-stream is a cancel signal - abort any in-flight work.
-      controller?.abort();
+      // The overlay closed or the page navigated - the job keeps running and
+      // can be re-attached from the next overlay on this tab.
+      if (job) detachPort(job, port);
       setKeepAlive(false);
     });
 
@@ -0,0 +1,94 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+/**
+ * Warmup Handler - background-owned session lifecycle
+ *
+ * Optimizations run in the service worker, so that is where sessions have to
+ * be warm. Content scripts send WARMUP when the host's prompt box appears,
+ * when the palette shortcut is pressed, and when their tab becomes visible;
+ * the background pre-creates the pooled template for the platform's rules
+ * under the user's default action, so the first request only pays for a
+ * clone.
+ *
+ * Idle shutdown is global rather than per tab: every WARMUP and every open
+ * optimize port counts as activity, and once none has been seen for
+ * `settings.idleShutdownMinutes` an alarm closes the offscreen document that
+ * holds the sessions.
+ */
+
+import { closeEngine, selectBackend, warmup } from "../engine-client";
+import { getActionById, loadUserActions } from "~lib/actions";
+import { ALARM_NAMES, STORAGE_KEYS } from "~lib/constants";
+import { getIdleShutdownMinutes } from "~lib/idle-shutdown";
+import { logger } from "~lib/logger";
+import { loadBackendSettings } from "~lib/model-backend";
+import { getFullRulesForPlatform } from "~lib/platform-rules";
+import {
+  loadPromptTemplateOverrides,
+  resolveTemplates,
+} from "~lib/prompt-templates";
+import { storage } from "~lib/storage";
+import { type Platform } from "~types";
+import { rulesForAction } from "./optimize-port";
+
+/** Open optimize ports; sessions are never released while one is active */
+let activeRequests = 0;
+
+async function armIdleShutdown(): Promise<void> {
+  await chrome.alarms.create(ALARM_NAMES.IDLE_SHUTDOWN, {
+    delayInMinutes: await getIdleShutdownMinutes(),
+  });
+}
+
+/** Marks the sessions as in use until the matching `releaseSessions` */
+export function holdSessions(): void {
+  activeRequests++;
+  void chrome.alarms.clear(ALARM_NAMES.IDLE_SHUTDOWN);
+}
+
+/** Ends a `holdSessions`; the idle countdown restarts with the last one */
+export function releaseSessions(): void {
+  activeRequests = Math.max(0, activeRequests - 1);
+  if (activeRequests === 0) void armIdleShutdown();
+}
+
+/**
+ * Warms the template the next request from `platform` is most likely to
+ * use: the platform's rules as routed for the stored default action.
+ */
+export async function handleWarmup(platform: Platform): Promise<void> {
+  try {
+    selectBackend(await loadBackendSettings());
+    await loadUserActions();
+
+    const result = await storage.get(STORAGE_KEYS.DEFAULT_ACTION);
+    const defaultId = result[STORAGE_KEYS.DEFAULT_ACTION];
+    const action = getActionById(
+      typeof defaultId === "string" && defaultId ? defaultId : "optimize",
+    );
+
+    // A system prompt override changes the template to warm, too.
+    const templates = resolveTemplates(
+      await loadPromptTemplateOverrides(),
+      action?.id,
+    );
+    await warmup(
+      rulesForAction(getFullRulesForPlatform(platform), action),
+      templates,
+    );
+  } catch (error) {
+    logger.warn("Warmup failed:", error);
+  } finally {
+    if (activeRequests === 0) await armIdleShutdown();
+  }
+}
+
+/** IDLE_SHUTDOWN alarm: releases every session unless a request is running */
+export async function handleIdleShutdown(): Promise<void> {
+  if (activeRequests > 0) return;
+  try {
+    await closeEngine();
+    logger.info("Released model sessions after idle period");
+  } catch (error) {
+    logger.warn("Idle shutdown failed:", error);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Run Trace - what an optimization did, for the COMPLETE report
+ *
+ * The port handler feeds the trace as the run goes: the stages it passes
+ * through, the patterns it dispatches to, fallbacks the engine reports and the
+ * first token count. `finish` turns that into the `RunReport` the overlay
+ * shows under "How this was made".
+ *
+ * Stage timings run from one STAGE to the next; the time before the first
+ * STAGE is reported as "preparing".
+ */
+
+import {
+  type PipelineFallback,
+  type RunPattern,
+  type RunReport,
+  type StageTiming,
+} from "~types";
+
+export interface RunTrace {
+  /** A STAGE began; `step` is the recipe step label, if any */
+  stage: (stage: string, step?: string) => void;
+  pattern: (pattern: RunPattern) => void;
+  fallback: (fallback: PipelineFallback) => void;
+  /** Input tokens - only the first count (the original draft) is kept */
+  tokensIn: (count: number) => void;
+  /** Whether an input token count has been recorded */
+  hasTokensIn: () => boolean;
+  finish: (extra: {
+    engine: string;
+    cached: boolean;
+    tokensIn?: number;
+    tokensOut?: number;
+  }) => RunReport;
+}
+
+export function createRunTrace(now = Date.now): RunTrace {
+  const startedAt = now();
+  const timings: StageTiming[] = [];
+  const patterns: RunPattern[] = [];
+  const fallbacks: PipelineFallback[] = [];
+  let current: { stage: string; step?: string; at: number } = {
+    stage: "preparing",
+    at: startedAt,
+  };
+  let tokensIn: number | undefined;
+
+  const close = (at: number): void => {
+    const timing: StageTiming = { stage: current.stage, ms: at - current.at };
+    if (current.step !== undefined) timing.step = current.step;
+    timings.push(timing);
+  };
+
+  return {
+    stage: (stage, step) => {
+      const at = now();
+      close(at);
+      current = step === undefined ? { stage, at } : { stage, step, at };
+    },
+    pattern: (pattern) => {
+      patterns.push(pattern);
+    },
+    fallback: (fallback) => {
+      fallbacks.push(fallback);
+    },
+    tokensIn: (count) => {
+      if (count > 0) tokensIn ??= count;
+    },
+    hasTokensIn: () => tokensIn !== undefined,
+    finish: (extra) => {
+      const at = now();
+      close(at);
+      const report: RunReport = {
+        engine: extra.engine,
+        patterns,
+        fallbacks,
+        timings,
+        totalMs: at - startedAt,
+        cached: extra.cached,
+      };
+      const inCount = tokensIn ?? extra.tokensIn;
+      if (inCount !== undefined) report.tokensIn = inCount;
+      if (extra.tokensOut !== undefined) report.tokensOut = extra.tokensOut;
+      return report;
+    },
+  };
+}
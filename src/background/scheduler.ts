@@ -0,0 +1,101 @@
+/**
+ * Job Scheduler - admission control for background jobs
+ *
+ * Without it every port started its optimization at once, so two tabs
+ * prompted the model concurrently. Nano serialises generation anyway; running
+ * jobs side by side only multiplies session memory and makes both slower.
+ *
+ * Jobs run at most MAX_CONCURRENT_JOBS at a time. The rest wait in a queue
+ * and are told their place in it with a `queued` STAGE (`position` 1 = next)
+ * whenever it changes. The next job comes from the tab that was served
+ * longest ago, FIFO within a tab, so one busy tab cannot starve the others.
+ * A job cancelled while queued just leaves the queue.
+ */
+
+import { type Job, postToJob, runJob } from "./jobs";
+
+/** Jobs allowed to prompt the model at the same time */
+export const MAX_CONCURRENT_JOBS = 1;
+
+type Work = (job: Job) => Promise<void>;
+
+interface QueuedJob {
+  job: Job;
+  work: Work;
+  /** Fairness bucket - the tab that started the job */
+  tab: string;
+}
+
+const queue: QueuedJob[] = [];
+let running = 0;
+
+/** Admission counter per tab; the lowest goes next */
+const lastServed = new Map<string, number>();
+let served = 0;
+
+function bucketOf(job: Job): string {
+  const [tabId] = job.tabIds;
+  return tabId === undefined ? "extension" : String(tabId);
+}
+
+/** Removes jobs that were cancelled while they waited */
+function dropCancelled(): void {
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i]?.job.state !== "running") queue.splice(i, 1);
+  }
+}
+
+/**
+ * Order the queue will run in: repeatedly the entry whose tab was served
+ * longest ago (never-served tabs first), earliest-queued on ties.
+ */
+function runOrder(): QueuedJob[] {
+  const pending = [...queue];
+  const order: QueuedJob[] = [];
+  const servedAt = new Map(lastServed);
+  let tick = served;
+  while (pending.length > 0) {
+    let best = 0;
+    let bestServed = Infinity;
+    pending.forEach((entry, index) => {
+      const at = servedAt.get(entry.tab) ?? -1;
+      if (at < bestServed) {
+        best = index;
+        bestServed = at;
+      }
+    });
+    const [entry] = pending.splice(best, 1);
+    if (!entry) break;
+    servedAt.set(entry.tab, tick++);
+    order.push(entry);
+  }
+  return order;
+}
+
+function reportPositions(): void {
+  runOrder().forEach(({ job }, index) => {
+    postToJob(job, { type: "STAGE", stage: "queued", position: index + 1 });
+  });
+}
+
+function pump(): void {
+  dropCancelled();
+  while (running < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const next = runOrder()[0];
+    if (!next) break;
+    queue.splice(queue.indexOf(next), 1);
+    lastServed.set(next.tab, served++);
+    running++;
+    void runJob(next.job, next.work).finally(() => {
+      running--;
+      pump();
+    });
+  }
+  reportPositions();
+}
+
+/** Runs `work` for `job` now, or once a slot frees up */
+export function scheduleJob(job: Job, work: Work): void {
+  queue.push({ job, work, tab: bucketOf(job) });
+  pump();
+}
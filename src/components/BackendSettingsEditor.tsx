@@ -0,0 +1,143 @@
+/**
+ * Model backend picker (popup)
+ *
+ * Chooses between Gemini Nano and an OpenAI-compatible server on localhost,
+ * with the server's URL and model name when the latter is selected. Text
+ * fields commit on blur or Enter. Persistence is the caller's job - this
+ * component only reports the next settings through `onChange`.
+ */
+
+import { useEffect, useState } from "react";
+import { type BackendSettings, type ModelBackendId } from "~types";
+import { isLocalUrl } from "~lib/model-backend";
+import { Label } from "~components/ui/Label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~components/ui/Select";
+
+const BACKEND_LABELS: Record<ModelBackendId, string> = {
+  nano: "Gemini Nano",
+  local: "Local server",
+};
+
+const INPUT_CLASS =
+  "w-full rounded-[var(--pt-radius-sm)] border border-[var(--pt-surface-border)] bg-transparent px-2.5 py-1.5 text-sm text-[var(--pt-text-primary)] outline-none placeholder:text-[var(--pt-text-tertiary)] focus:border-[var(--pt-accent)]";
+
+export interface BackendSettingsEditorProps {
+  settings: BackendSettings;
+  onChange: (settings: BackendSettings) => void;
+}
+
+export function BackendSettingsEditor({
+  settings,
+  onChange,
+}: BackendSettingsEditorProps): React.JSX.Element {
+  const [baseUrl, setBaseUrl] = useState(settings.local.baseUrl);
+  const [model, setModel] = useState(settings.local.model);
+
+  useEffect(() => {
+    setBaseUrl(settings.local.baseUrl);
+    setModel(settings.local.model);
+  }, [settings.local.baseUrl, settings.local.model]);
+
+  const urlValid = isLocalUrl(baseUrl);
+
+  const commit = (): void => {
+    const next = {
+      baseUrl: baseUrl.trim().replace(/\/+$/, ""),
+      model: model.trim(),
+    };
+    if (!isLocalUrl(next.baseUrl)) return;
+    if (
+      next.baseUrl === settings.local.baseUrl &&
+      next.model === settings.local.model
+    ) {
+      return;
+    }
+    onChange({ ...settings, local: { ...settings.local, ...next } });
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === "Enter") commit();
+  };
+
+  return (
+    <div className="flex flex-col gap-2 px-3 py-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="model-backend" className="text-sm font-medium">
+          Model
+        </Label>
+        <Select
+          value={settings.id}
+          onValueChange={(id) => {
+            onChange({ ...settings, id: id as ModelBackendId });
+          }}
+        >
+          <SelectTrigger id="model-backend" aria-label="Model backend">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(BACKEND_LABELS) as ModelBackendId[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {BACKEND_LABELS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {settings.id === "local" && (
+        <>
+          <Label htmlFor="local-backend-url" className="text-xs">
+            Server URL
+          </Label>
+          <input
+            id="local-backend-url"
+            className={INPUT_CLASS}
+            value={baseUrl}
+            placeholder="http://localhost:11434/v1"
+            aria-invalid={!urlValid}
+            aria-describedby="local-backend-hint"
+            onChange={(e) => {
+              setBaseUrl(e.target.value);
+            }}
+            onBlur={commit}
+            onKeyDown={onKeyDown}
+          />
+
+          <Label htmlFor="local-backend-model" className="text-xs">
+            Model name
+          </Label>
+          <input
+            id="local-backend-model"
+            className={INPUT_CLASS}
+            value={model}
+            placeholder="Server default"
+            onChange={(e) => {
+              setModel(e.target.value);
+            }}
+            onBlur={commit}
+            onKeyDown={onKeyDown}
+          />
+
+          <span
+            id="local-backend-hint"
+            className={
+              urlValid
+                ? "text-xs text-[var(--pt-text-secondary)] leading-snug"
+                : "text-xs text-[var(--pt-status-error)] leading-snug"
+            }
+          >
+            {urlValid
+              ? "Any OpenAI-compatible server, such as llama.cpp or Ollama. Prompts never leave this machine."
+              : "Use an http://localhost or http://127.0.0.1 address."}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
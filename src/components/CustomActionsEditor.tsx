@@ -0,0 +1,294 @@
+/**
+ * Custom Actions editor (popup)
+ *
+ * Lists the user's own palette actions and a compact form for adding one.
+ * Persistence is the caller's job - this component only reports the next
+ * list through `onChange`.
+ */
+
+import { useState } from "react";
+import {
+  type ActionEngine,
+  type ActionPattern,
+  type CustomActionDefinition,
+} from "~types";
+import { CUSTOM_ACTION_PREFIX } from "~lib/actions";
+import { Trash } from "~lib/icons";
+import { Button } from "~components/ui/Button";
+import { Label } from "~components/ui/Label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~components/ui/Select";
+import { Tooltip } from "~components/ui/Tooltip";
+
+const ENGINE_LABELS: Record<ActionEngine, string> = {
+  prompt: "Prompt",
+  writer: "Writer",
+  rewriter: "Rewriter",
+};
+
+const PATTERN_LABELS: Record<ActionPattern, string> = {
+  single: "Single pass",
+  refine: "Refine",
+  recursive: "Step plan",
+};
+
+const INPUT_CLASS =
+  "w-full rounded-[var(--pt-radius-sm)] border border-[var(--pt-surface-border)] bg-transparent px-2.5 py-1.5 text-sm text-[var(--pt-text-primary)] outline-none placeholder:text-[var(--pt-text-tertiary)] focus:border-[var(--pt-accent)]";
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+interface Draft {
+  label: string;
+  keywords: string;
+  instruction: string;
+  engine: ActionEngine;
+  pattern: ActionPattern;
+  ruleTags: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  label: "",
+  keywords: "",
+  instruction: "",
+  engine: "prompt",
+  pattern: "single",
+  ruleTags: "",
+};
+
+export interface CustomActionsEditorProps {
+  actions: CustomActionDefinition[];
+  onChange: (actions: CustomActionDefinition[]) => void;
+}
+
+export function CustomActionsEditor({
+  actions,
+  onChange,
+}: CustomActionsEditorProps): React.JSX.Element {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const update = (patch: Partial<Draft>): void => {
+    setDraft((d) => (d ? { ...d, ...patch } : d));
+  };
+
+  const canSave =
+    draft !== null &&
+    draft.label.trim().length > 0 &&
+    draft.instruction.trim().length > 0;
+
+  const save = (): void => {
+    if (!draft || !canSave) return;
+    onChange([
+      ...actions,
+      {
+        id: `${CUSTOM_ACTION_PREFIX}${Date.now().toString(36)}`,
+        label: draft.label.trim(),
+        keywords: splitList(draft.keywords),
+        instruction: draft.instruction.trim(),
+        engine: draft.engine,
+        pattern: draft.pattern,
+        ruleTags: splitList(draft.ruleTags),
+      },
+    ]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-1 px-3 py-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium tracking-tight">
+          Custom Actions
+        </span>
+        {!draft && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              setDraft(EMPTY_DRAFT);
+            }}
+          >
+            New action
+          </Button>
+        )}
+      </div>
+
+      {actions.length === 0 && !draft && (
+        <span className="text-xs text-[var(--pt-text-secondary)] leading-snug">
+          Add your own palette entries, like &ldquo;Make it a code review
+          request&rdquo;.
+        </span>
+      )}
+
+      {actions.length > 0 && (
+        <ul className="flex flex-col" aria-label="Custom actions">
+          {actions.map((action) => (
+            <li
+              key={action.id}
+              className="flex items-center gap-2 rounded-[var(--pt-radius-sm)] py-1 text-sm"
+            >
+              <span className="min-w-0 flex-1 truncate">{action.label}</span>
+              <span className="shrink-0 text-xs text-[var(--pt-text-tertiary)]">
+                {ENGINE_LABELS[action.engine]} ·{" "}
+                {PATTERN_LABELS[action.pattern]}
+              </span>
+              <Tooltip content="Delete action" side="left">
+                <button
+                  type="button"
+                  aria-label={`Delete ${action.label}`}
+                  onClick={() => {
+                    onChange(actions.filter((a) => a.id !== action.id));
+                  }}
+                  className="inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-[var(--pt-radius-sm)] text-[var(--pt-text-tertiary)] outline-none transition-colors hover:bg-[var(--pt-hover-bg)] hover:text-[var(--pt-status-error)]"
+                >
+                  <Trash size={14} weight="regular" aria-hidden="true" />
+                </button>
+              </Tooltip>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <form
+          className="mt-1 flex flex-col gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+        >
+          <Label htmlFor="custom-action-label" className="text-xs">
+            Label
+          </Label>
+          <input
+            id="custom-action-label"
+            className={INPUT_CLASS}
+            value={draft.label}
+            placeholder="Convert to SQL question"
+            onChange={(e) => {
+              update({ label: e.target.value });
+            }}
+          />
+
+          <Label htmlFor="custom-action-instruction" className="text-xs">
+            Instruction
+          </Label>
+          <textarea
+            id="custom-action-instruction"
+            className={`${INPUT_CLASS} min-h-[72px] resize-y`}
+            value={draft.instruction}
+            placeholder="Rewrite {{prompt}} as a precise question about a SQL database."
+            aria-describedby="custom-action-instruction-hint"
+            onChange={(e) => {
+              update({ instruction: e.target.value });
+            }}
+          />
+          <span
+            id="custom-action-instruction-hint"
+            className="text-xs text-[var(--pt-text-secondary)] leading-snug"
+          >
+            {"{{prompt}}"} marks where your text goes; otherwise it&apos;s
+            appended.
+          </span>
+
+          <div className="flex gap-2">
+            <div className="flex flex-1 flex-col gap-2">
+              <Label htmlFor="custom-action-engine" className="text-xs">
+                Engine
+              </Label>
+              <Select
+                value={draft.engine}
+                onValueChange={(v) => {
+                  update({ engine: v as ActionEngine });
+                }}
+              >
+                <SelectTrigger id="custom-action-engine" aria-label="Engine">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ENGINE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-1 flex-col gap-2">
+              <Label htmlFor="custom-action-pattern" className="text-xs">
+                Pattern
+              </Label>
+              <Select
+                value={draft.pattern}
+                onValueChange={(v) => {
+                  update({ pattern: v as ActionPattern });
+                }}
+              >
+                <SelectTrigger id="custom-action-pattern" aria-label="Pattern">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PATTERN_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Label htmlFor="custom-action-keywords" className="text-xs">
+            Keywords
+          </Label>
+          <input
+            id="custom-action-keywords"
+            className={INPUT_CLASS}
+            value={draft.keywords}
+            placeholder="sql, database, query"
+            onChange={(e) => {
+              update({ keywords: e.target.value });
+            }}
+          />
+
+          <Label htmlFor="custom-action-tags" className="text-xs">
+            Rule tags
+          </Label>
+          <input
+            id="custom-action-tags"
+            className={INPUT_CLASS}
+            value={draft.ruleTags}
+            placeholder="All rules"
+            onChange={(e) => {
+              update({ ruleTags: e.target.value });
+            }}
+          />
+
+          <div className="flex justify-end gap-2 pt-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(null);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={!canSave}>
+              Save
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Diff review - word-level changes between the draft and the result
+ *
+ * Renders `diffWords` segments inline (deletions and additions interleaved)
+ * or split (original left, revised right). Every hunk is a toggle: pressed
+ * means the change is accepted, unpressed keeps the original wording. The
+ * caller owns the rejected set and feeds it to `applyHunks` on insert.
+ */
+
+import { type DiffSegment } from "~lib/word-diff";
+import { cn } from "~lib/utils";
+
+export type DiffMode = "inline" | "split";
+
+const HUNK_CLASS =
+  "rounded-[2px] outline-none transition-opacity focus-visible:ring-1 focus-visible:ring-[var(--pt-accent)]";
+const REMOVED_CLASS =
+  "bg-[var(--pt-status-error-bg)] text-[var(--pt-status-error)] no-underline";
+const ADDED_CLASS =
+  "bg-[var(--pt-status-success-bg)] text-[var(--pt-status-success)] no-underline";
+
+export interface DiffViewProps {
+  segments: DiffSegment[];
+  mode: DiffMode;
+  rejected: ReadonlySet<number>;
+  onToggle: (hunk: number) => void;
+}
+
+interface HunkProps {
+  segment: Extract<DiffSegment, { kind: "change" }>;
+  rejected: boolean;
+  onToggle: (hunk: number) => void;
+  /** Which side(s) to show: both for inline, one per column for split */
+  side: "both" | "removed" | "added";
+}
+
+function Hunk({
+  segment,
+  rejected,
+  onToggle,
+  side,
+}: HunkProps): React.JSX.Element | null {
+  const showRemoved = side !== "added" && segment.removed.length > 0;
+  const showAdded = side !== "removed" && segment.added.length > 0;
+  if (!showRemoved && !showAdded) return null;
+
+  return (
+    <button
+      type="button"
+      data-pt-hunk=""
+      aria-pressed={!rejected}
+      aria-label={`Change ${String(segment.hunk + 1)}: ${rejected ? "rejected" : "accepted"}`}
+      title={rejected ? "Keep change" : "Reject change"}
+      onClick={() => {
+        onToggle(segment.hunk);
+      }}
+      className={HUNK_CLASS}
+    >
+      {showRemoved && (
+        <del
+          className={cn(
+            REMOVED_CLASS,
+            !rejected && "line-through",
+            !rejected && side === "both" && "opacity-70",
+          )}
+        >
+          {segment.removed}
+        </del>
+      )}
+      {showAdded && (
+        <ins className={cn(ADDED_CLASS, rejected && "line-through opacity-50")}>
+          {segment.added}
+        </ins>
+      )}
+    </button>
+  );
+}
+
+function renderSide(
+  segments: DiffSegment[],
+  side: HunkProps["side"],
+  rejected: ReadonlySet<number>,
+  onToggle: (hunk: number) => void,
+): React.ReactNode[] {
+  return segments.map((segment, idx) =>
+    segment.kind === "equal" ? (
+      <span key={idx}>{segment.text}</span>
+    ) : (
+      <Hunk
+        key={idx}
+        segment={segment}
+        side={side}
+        rejected={rejected.has(segment.hunk)}
+        onToggle={onToggle}
+      />
+    ),
+  );
+}
+
+export function DiffView({
+  segments,
+  mode,
+  rejected,
+  onToggle,
+}: DiffViewProps): React.JSX.Element {
+  const textClass =
+    "whitespace-pre-wrap text-sm leading-normal text-[var(--pt-text-primary)] font-normal";
+
+  if (mode === "inline") {
+    return (
+      <p className={textClass}>
+        {renderSide(segments, "both", rejected, onToggle)}
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {(["removed", "added"] as const).map((side) => (
+        <div key={side} className="min-w-0 flex flex-col gap-1">
+          <span className="font-sans text-[10px] font-semibold tracking-[0.18em] uppercase text-[var(--pt-text-tertiary)]">
+            {side === "removed" ? "Original" : "Optimized"}
+          </span>
+          <p className={textClass}>
+            {renderSide(segments, side, rejected, onToggle)}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * History list - searchable past optimizations
+ *
+ * Shared by the popup and the overlay's history view. Arrow keys move through
+ * matches from the search box; Enter inserts the active entry. Loading and
+ * persistence belong to the caller.
+ */
+
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { type HistoryEntry } from "~types";
+import { useKeyboardList } from "~hooks/use-keyboard-list";
+import { searchHistory } from "~lib/history";
+import { Copy, MagnifyingGlass, Trash } from "~lib/icons";
+import { PLATFORM_DISPLAY_NAMES } from "~lib/platforms";
+import { cn, formatAge } from "~lib/utils";
+import { Tooltip } from "~components/ui/Tooltip";
+
+async function copyResult(entry: HistoryEntry): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(entry.result);
+    toast.success("Copied to clipboard");
+  } catch {
+    toast.error("Couldn't copy - clipboard access was denied.");
+  }
+}
+
+export interface HistoryListProps {
+  entries: HistoryEntry[];
+  onInsert: (entry: HistoryEntry) => void;
+  onDelete?: (entry: HistoryEntry) => void;
+  /** Focus the search box on mount (overlay view) */
+  autoFocus?: boolean;
+  className?: string;
+}
+
+export function HistoryList({
+  entries,
+  onInsert,
+  onDelete,
+  autoFocus = false,
+  className,
+}: HistoryListProps): React.JSX.Element {
+  const [query, setQuery] = useState("");
+  const matches = useMemo(
+    () => searchHistory(entries, query),
+    [entries, query],
+  );
+  const now = Date.now();
+
+  const { activeIndex, setActiveIndex, handleKeyDown } = useKeyboardList({
+    count: matches.length,
+    onSelect: (idx) => {
+      const entry = matches[idx];
+      if (entry) onInsert(entry);
+    },
+  });
+
+  return (
+    <div className={cn("flex min-h-0 flex-col", className)}>
+      <label className="flex items-center gap-2 border-b border-[var(--pt-surface-border)] px-4 py-2">
+        <MagnifyingGlass
+          size={14}
+          weight="regular"
+          aria-hidden="true"
+          className="shrink-0 text-[var(--pt-text-tertiary)]"
+        />
+        <input
+          type="search"
+          value={query}
+          autoFocus={autoFocus}
+          placeholder="Search history"
+          aria-label="Search history"
+          aria-controls="pt-history-list"
+          aria-activedescendant={
+            matches.length > 0 ? `pt-history-${String(activeIndex)}` : undefined
+          }
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={(e) => {
+            if (matches.length > 0) handleKeyDown(e);
+          }}
+          className="min-w-0 flex-1 bg-transparent text-sm text-[var(--pt-text-primary)] outline-none placeholder:text-[var(--pt-text-tertiary)]"
+        />
+      </label>
+
+      {matches.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-[var(--pt-text-secondary)] leading-snug">
+          {entries.length === 0
+            ? "No optimizations yet - results appear here once a run completes."
+            : "No matches."}
+        </p>
+      ) : (
+        <ul
+          id="pt-history-list"
+          role="listbox"
+          aria-label="History"
+          className="max-h-[var(--pt-list-max-h)] overflow-y-auto py-1"
+        >
+          {matches.map((entry, idx) => {
+            const selected = idx === activeIndex;
+            return (
+              <li
+                key={entry.id}
+                id={`pt-history-${String(idx)}`}
+                role="option"
+                aria-selected={selected}
+                onMouseEnter={() => {
+                  setActiveIndex(idx);
+                }}
+                className={cn(
+                  "group mx-2 flex items-start gap-2 rounded-[var(--pt-radius-sm)] px-2 py-2 transition-colors",
+                  selected && "bg-[var(--pt-hover-bg)]",
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    onInsert(entry);
+                  }}
+                  className="min-w-0 flex-1 text-left outline-none"
+                >
+                  <div className="flex items-baseline gap-2">
+                    <span className="truncate text-sm font-semibold tracking-tight text-[var(--pt-text-primary)]">
+                      {entry.actionLabel}
+                    </span>
+                    <span className="ml-auto shrink-0 font-sans text-[10px] font-semibold tracking-[0.18em] uppercase text-[var(--pt-text-tertiary)]">
+                      {PLATFORM_DISPLAY_NAMES[entry.platform]} ·{" "}
+                      {formatAge(entry.ts, now)}
+                    </span>
+                  </div>
+                  <div className="truncate text-xs leading-snug text-[var(--pt-text-secondary)]">
+                    {entry.result}
+                  </div>
+                </button>
+                <Tooltip content="Copy result" side="left">
+                  <button
+                    type="button"
+                    aria-label="Copy result"
+                    onClick={() => void copyResult(entry)}
+                    className="inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-[var(--pt-radius-sm)] text-[var(--pt-text-tertiary)] outline-none transition-colors hover:bg-[var(--pt-active-bg)] hover:text-[var(--pt-text-primary)]"
+                  >
+                    <Copy size={14} weight="regular" aria-hidden="true" />
+                  </button>
+                </Tooltip>
+                {onDelete && (
+                  <Tooltip content="Delete" side="left">
+                    <button
+                      type="button"
+                      aria-label="Delete entry"
+                      onClick={() => {
+                        onDelete(entry);
+                      }}
+                      className="inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-[var(--pt-radius-sm)] text-[var(--pt-text-tertiary)] outline-none transition-colors hover:bg-[var(--pt-active-bg)] hover:text-[var(--pt-status-error)]"
+                    >
+                      <Trash size={14} weight="regular" aria-hidden="true" />
+                    </button>
+                  </Tooltip>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * Prompt Templates editor (options page)
+ *
+ * One card per engine prompt for the chosen scope - every action, or one
+ * action - showing the text that scope runs with, its variables, and whether
+ * it is overridden. Persistence is the caller's job - this component only
+ * reports the next overrides through `onChange`.
+ */
+
+import { useEffect, useState } from "react";
+import { type PromptTemplateId, type PromptTemplateOverrides } from "~types";
+import {
+  ALL_ACTIONS_SCOPE,
+  PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_IDS,
+  isOutdated,
+  missingVariables,
+  withOverride,
+} from "~lib/prompt-templates";
+import { Button } from "~components/ui/Button";
+import { Label } from "~components/ui/Label";
+
+const TEXTAREA_CLASS =
+  "w-full resize-y rounded-[var(--pt-radius-sm)] border border-[var(--pt-surface-border)] bg-transparent px-2.5 py-1.5 font-mono text-xs leading-relaxed text-[var(--pt-text-primary)] outline-none focus:border-[var(--pt-accent)]";
+
+export interface PromptTemplatesEditorProps {
+  overrides: PromptTemplateOverrides;
+  /** `ALL_ACTIONS_SCOPE` or an action ID */
+  scope: string;
+  onChange: (overrides: PromptTemplateOverrides) => void;
+}
+
+interface TemplateCardProps extends PromptTemplatesEditorProps {
+  id: PromptTemplateId;
+}
+
+function TemplateCard({
+  id,
+  overrides,
+  scope,
+  onChange,
+}: TemplateCardProps): React.JSX.Element {
+  const definition = PROMPT_TEMPLATES[id];
+  const own = overrides[scope]?.[id];
+  const inherited =
+    scope === ALL_ACTIONS_SCOPE
+      ? undefined
+      : overrides[ALL_ACTIONS_SCOPE]?.[id];
+  const fallback = inherited?.text ?? definition.text;
+  const effective = own?.text ?? fallback;
+
+  const [text, setText] = useState(effective);
+  useEffect(() => {
+    setText(effective);
+  }, [effective]);
+
+  const edited = text !== effective;
+  const missing = missingVariables(id, text);
+  const fieldId = `template-${id}`;
+
+  let status = "Default";
+  if (own) status = "Overridden";
+  else if (inherited) status = "From all actions";
+
+  return (
+    <section
+      aria-labelledby={`${fieldId}-label`}
+      className="flex flex-col gap-2 rounded-[var(--pt-radius-md)] border border-[var(--pt-surface-border)] bg-[var(--pt-surface-elevated)] p-4"
+    >
+      <div className="flex items-baseline justify-between gap-3">
+        <Label
+          id={`${fieldId}-label`}
+          htmlFor={fieldId}
+          className="text-sm font-medium tracking-tight"
+        >
+          {definition.label}
+        </Label>
+        <span className="text-xs text-[var(--pt-text-tertiary)]">
+          {status} · v{definition.version}
+        </span>
+      </div>
+      <span className="text-xs leading-snug text-[var(--pt-text-secondary)]">
+        {definition.description}
+      </span>
+
+      <textarea
+        id={fieldId}
+        className={TEXTAREA_CLASS}
+        rows={id === "system" ? 12 : 4}
+        value={text}
+        spellCheck={false}
+        aria-describedby={`${fieldId}-variables`}
+        onChange={(e) => {
+          setText(e.target.value);
+        }}
+      />
+
+      <dl
+        id={`${fieldId}-variables`}
+        className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs"
+      >
+        {Object.entries(definition.variables).map(([name, meaning]) => (
+          <div key={name} className="contents">
+            <dt>
+              <code className="font-mono text-[var(--pt-text-primary)]">
+                {`{{${name}}}`}
+              </code>
+            </dt>
+            <dd className="text-[var(--pt-text-secondary)]">{meaning}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {own && isOutdated(id, own) && (
+        <span className="text-xs leading-snug text-[var(--pt-status-warning)]">
+          The default has changed since you overrode it. Reset to see the new
+          one.
+        </span>
+      )}
+      {missing.length > 0 && (
+        <span
+          role="status"
+          className="text-xs leading-snug text-[var(--pt-status-warning)]"
+        >
+          Not used: {missing.map((name) => `{{${name}}}`).join(", ")}
+        </span>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!own}
+          onClick={() => {
+            onChange(withOverride(overrides, scope, id, null));
+          }}
+        >
+          Reset to default
+        </Button>
+        <Button
+          size="sm"
+          disabled={!edited || !text.trim()}
+          onClick={() => {
+            // Saving what the scope would run anyway needs no override.
+            onChange(
+              withOverride(
+                overrides,
+                scope,
+                id,
+                text === fallback ? null : text,
+              ),
+            );
+          }}
+        >
+          Save
+        </Button>
+      </div>
+    </section>
+  );
+}
+
+export function PromptTemplatesEditor(
+  props: PromptTemplatesEditorProps,
+): React.JSX.Element {
+  return (
+    <div className="flex flex-col gap-4">
+      {PROMPT_TEMPLATE_IDS.map((id) => (
+        <TemplateCard key={`${props.scope}:${id}`} id={id} {...props} />
+      ))}
+    </div>
+  );
+}
@@ -3,17 +3,64 @@ import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { useKeyboardList } from "~hooks/use-keyboard-list";
 import { Tooltip } from "~components/ui/Tooltip";
 import { toast } from "sonner";
-import { getSelectedText, replaceSelectedText } from "~lib/text-replacer";
+import {
+  type SelectionSnapshot,
+  captureComposer,
+  captureSelection,
+  getSelectedText,
+  insertIntoComposer,
+  replaceSelection,
+} from "~lib/text-replacer";
+import { getActiveTextInput } from "~lib/dom-injector";
+import { PLATFORM_INPUT_SELECTORS } from "~lib/platforms";
+import {
+  canRedoTuning,
+  canUndoTuning,
+  findTunedComposer,
+  recordTuning,
+  redoTuning,
+  undoTuning,
+} from "~lib/undo-stack";
 import { detectPlatform } from "~lib/platform-detector";
 import { cn } from "~lib/utils";
+import { getHistory } from "~lib/history";
+import { HistoryList } from "~components/HistoryList";
+import { type DiffMode, DiffView } from "~components/DiffView";
+import { VariantCards } from "~components/VariantCards";
+import { RunReportDetails } from "~components/RunReportDetails";
+import { ResultWarnings } from "~components/ResultWarnings";
+import { StageProgress, type TimelineEntry } from "~components/StageProgress";
+import { applyHunks, countHunks, diffWords } from "~lib/word-diff";
 
-import { ACTIONS } from "~lib/actions";
-import { PORT_NAMES, MESSAGE_TYPES, ERROR_MESSAGES } from "~lib/constants";
+import { getActionById, getAllActions, loadUserActions } from "~lib/actions";
+import {
+  PORT_NAMES,
+  MESSAGE_TYPES,
+  ERROR_MESSAGES,
+  KEYBOARD_SHORTCUTS,
+  STORAGE_KEYS,
+  MAX_VARIANTS,
+} from "~lib/constants";
+import { storage } from "~lib/storage";
+import { formatShortcut } from "~lib/platform-shortcut";
 
-import { type OptimizePortMessage, type OptimizePortRequest } from "~types";
+import {
+  type AppliedRuleRef,
+  type GetJobMessage,
+  type HistoryEntry,
+  type JobSummary,
+  type OptimizePortAttach,
+  type OptimizePortCancel,
+  type OptimizePortMessage,
+  type OptimizePortRequest,
+  type ProgressUpdate,
+  type RecipeStepInfo,
+  type ResultWarning,
+  type RunReport,
+} from "~types";
 
 import { logger } from "~lib/logger";
-import { WarningCircle, CheckCircle } from "~lib/icons";
+import { WarningCircle, CheckCircle, ClockCounterClockwise } from "~lib/icons";
 
 // =============================================================================
 // Constants
@@ -21,6 +68,12 @@ import { WarningCircle, CheckCircle } from "~lib/icons";
 
 const MAX_PREVIEW_CHARS = 60;
 
+/**
+ * What an action reads and Insert replaces: the highlighted span, or the
+ * platform's whole prompt box ("whole input" mode).
+ */
+type TargetScope = "selection" | "input";
+
 function TokenBadge({ count, limit }: { count: number; limit: number }) {
   const [display, setDisplay] = useState(0);
   useEffect(() => {
@@ -65,6 +118,8 @@ const STAGE_LABELS: Record<string, string> = {
   writing: "Writing",
   rewriting: "Rewriting",
   cached: "Cached",
+  step: "Starting",
+  queued: "Queued",
 };
 
 function humanizeStage(stage: string | null): string {
@@ -72,32 +127,63 @@ function humanizeStage(stage: string | null): string {
   return STAGE_LABELS[stage] ?? "Streaming";
 }
 
+/** N-variants setting from the popup; 1 means a single result */
+async function loadVariantCount(): Promise<number> {
+  try {
+    const result = await storage.get(STORAGE_KEYS.VARIANT_COUNT);
+    const value = result[STORAGE_KEYS.VARIANT_COUNT];
+    return typeof value === "number"
+      ? Math.min(Math.max(1, Math.floor(value)), MAX_VARIANTS)
+      : 1;
+  } catch {
+    return 1;
+  }
+}
+
 // =============================================================================
-// Module-level undo state (not persisted - cleared on navigation/reload)
+// Tuning undo/redo (stacks live in ~lib/undo-stack and outlast the overlay)
 // =============================================================================
 
-interface LastApply {
-  originalText: string;
-  replacedAt: number;
-}
+/**
+ * Steps the tuning history of `preferred` (or the most recently tuned
+ * composer) and reports the outcome as a toast. Returns whether the composer
+ * changed. Shared by the Insert toast, the palette, and the shortcuts; the
+ * shortcuts pass `fromShortcut`, since the key press goes back to the page
+ * when there is nothing to step and needs no "Nothing to undo".
+ */
+export function stepTuning(
+  direction: "undo" | "redo",
+  preferred: HTMLElement | null = getActiveTextInput(
+    PLATFORM_INPUT_SELECTORS[detectPlatform()],
+  ),
+  { fromShortcut = false }: { fromShortcut?: boolean } = {},
+): boolean {
+  const composer = findTunedComposer(preferred);
+  const result = composer
+    ? direction === "undo"
+      ? undoTuning(composer)
+      : redoTuning(composer)
+    : "empty";
 
-let lastApply: LastApply | null = null;
-
-function restoreOriginal(): void {
-  if (!lastApply) return;
-  const success = replaceSelectedText(lastApply.originalText);
-  if (success) {
-    toast.success("Original restored", {
-      icon: (
-        <span className="pt-check-pop inline-flex text-[var(--pt-status-success)]">
-          ↶
-        </span>
-      ),
-    });
-  } else {
-    toast.error("Couldn't restore - the input is no longer active.");
+  if (result === "applied") {
+    toast.success(
+      direction === "undo" ? "Previous version restored" : "Tuning reapplied",
+      {
+        icon: (
+          <span className="pt-check-pop inline-flex text-[var(--pt-status-success)]">
+            {direction === "undo" ? "↶" : "↷"}
+          </span>
+        ),
+      },
+    );
+  } else if (result === "stale") {
+    toast.error(
+      `Couldn't ${direction} - the prompt box was edited since the last tuning.`,
+    );
+  } else if (!fromShortcut) {
+    toast(direction === "undo" ? "Nothing to undo" : "Nothing to redo");
   }
-  lastApply = null;
+  return result === "applied";
 }
 
 // =============================================================================
@@ -106,13 +192,28 @@ function restoreOriginal(): void {
 
 export interface CommandPaletteContentProps {
   onClose: () => void;
+  /**
+   * Host selection captured before the overlay took focus. Insert and undo
+   * target this span; when absent the palette starts in whole-input mode and
+   * reads the platform's prompt box at action time.
+   */
+  selection?: SelectionSnapshot | null;
+  /**
+   * Action to start immediately on mount ("Run on Open"). Skips the palette;
+   * an unknown ID leaves the palette showing.
+   */
+  initialActionId?: string | null;
 }
 
 // =============================================================================
 // Main Component
 // =============================================================================
 
-export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
+export function CommandPaletteContent({
+  onClose,
+  selection = null,
+  initialActionId = null,
+}: CommandPaletteContentProps) {
   const [status, setStatus] = useState<
     "selection" | "streaming" | "complete" | "error"
   >("selection");
@@ -122,17 +223,49 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
   const [originalText, setOriginalText] = useState<string | null>(null);
   const [errorCode, setErrorCode] = useState<string | null>(null);
   const [selectionError, setSelectionError] = useState<string | null>(null);
+  const [scope, setScope] = useState<TargetScope>(
+    selection ? "selection" : "input",
+  );
+  const [view, setView] = useState<"actions" | "history">("actions");
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [allActions, setAllActions] = useState(getAllActions);
+  const [actionsLoaded, setActionsLoaded] = useState(false);
   const [applySuccess, setApplySuccess] = useState(false);
+  const [diffMode, setDiffMode] = useState<DiffMode | null>(null);
+  const [rejectedHunks, setRejectedHunks] = useState<ReadonlySet<number>>(
+    () => new Set(),
+  );
   const [tokenInfo, setTokenInfo] = useState<{
     count: number;
     limit: number;
   } | null>(null);
   const [stage, setStage] = useState<string | null>(null);
+  const [recipeStep, setRecipeStep] = useState<RecipeStepInfo | null>(null);
+  /** Place in the background job queue while stage is "queued" */
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  /** Latest PROGRESS of the current stage, cleared when the stage moves on */
+  const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  /** COMPLETE's account of how the result was made */
+  const [runDetails, setRunDetails] = useState<{
+    report: RunReport;
+    rules: AppliedRuleRef[];
+  } | null>(null);
+  const [warnings, setWarnings] = useState<ResultWarning[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = useState(0);
 
   const portRef = useRef<chrome.runtime.Port | null>(null);
+  const targetRef = useRef<SelectionSnapshot | null>(null);
   const streamRef = useRef<HTMLDivElement>(null);
+  const warningsRef = useRef<HTMLDivElement>(null);
   const chunkBufferRef = useRef<string>("");
+  /** Pending deltas per candidate index (variants mode), flushed with chunks */
+  const candidateChunksRef = useRef<string[]>([]);
   const rafIdRef = useRef<number | null>(null);
+  const variantCountRef = useRef(1);
+  /** A stream was opened - a late re-attach must not replace it */
+  const streamStartedRef = useRef(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const applyTimersRef = useRef<{ flash: number | null; close: number | null }>(
     {
@@ -162,79 +295,181 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
   // Core streaming logic (shared by initial action + retry)
   // ---------------------------------------------------------------------------
 
-  const startStream = useCallback((draft: string, actionId: string) => {
-    setStreamBuffer("");
+  /** Drops buffered deltas - the authoritative text follows in a completion */
+  const discardPendingChunks = useCallback(() => {
     chunkBufferRef.current = "";
+    candidateChunksRef.current = [];
     if (rafIdRef.current !== null) {
       cancelAnimationFrame(rafIdRef.current);
       rafIdRef.current = null;
     }
-    setStatus("streaming");
-    setErrorCode(null);
-    setTokenInfo(null);
-    setStage(null);
+  }, []);
 
-    let completed = false;
+  const flushPendingChunks = useCallback(() => {
+    rafIdRef.current = null;
+    const pending = chunkBufferRef.current;
+    chunkBufferRef.current = "";
+    if (pending) setStreamBuffer((prev) => prev + pending);
 
-    try {
-      const port = chrome.runtime.connect({ name: PORT_NAMES.OPTIMIZE });
-      portRef.current = port;
-
-      port.onMessage.addListener((message: unknown) => {
-        if (!message || typeof message !== "object") {
-          logger.error("Received invalid message from optimize port.");
-          return;
-        }
-        const msg = message as OptimizePortMessage;
-
-        if (msg.type === "CHUNK") {
-          chunkBufferRef.current += msg.data;
-          rafIdRef.current ??= requestAnimationFrame(() => {
-            const pending = chunkBufferRef.current;
-            chunkBufferRef.current = "";
-            rafIdRef.current = null;
-            setStreamBuffer((prev) => prev + pending);
-          });
-        } else if (msg.type === "STAGE") {
-          setStage(msg.stage);
-        } else if (msg.type === "TOKEN_INFO") {
-          if (msg.count > 0) {
-            setTokenInfo({ count: msg.count, limit: msg.limit });
-          }
-        } else if (msg.type === "COMPLETE") {
-          completed = true;
-          setStreamBuffer(msg.optimizedPrompt);
-          setStatus("complete");
-          port.disconnect();
-        } else if (msg.type === "ERROR") {
-          completed = true;
-          setErrorCode(msg.code);
-          setStatus("error");
-          port.disconnect();
-        }
+    const pendingCandidates = candidateChunksRef.current;
+    candidateChunksRef.current = [];
+    if (pendingCandidates.length > 0) {
+      setCandidates((prev) => {
+        const next = [...prev];
+        pendingCandidates.forEach((data, index) => {
+          next[index] = (next[index] ?? "") + data;
+        });
+        return next;
       });
+    }
+  }, []);
 
-      port.onDisconnect.addListener(() => {
-        if (!completed) {
-          setErrorCode("UNKNOWN_ERROR");
-          setStatus("error");
-        }
-      });
+  /**
+   * Resets the result view and opens a port that either starts a new job
+   * (`OptimizePortRequest`) or re-attaches to a running one - the background
+   * replays what the job has produced so far, so both stream the same way.
+   */
+  const openStream = useCallback(
+    (first: OptimizePortRequest | OptimizePortAttach) => {
+      streamStartedRef.current = true;
+      setStreamBuffer("");
+      discardPendingChunks();
+      setCandidates([]);
+      setSelectedCandidate(0);
+      setStatus("streaming");
+      setErrorCode(null);
+      setTokenInfo(null);
+      setStage(null);
+      setRecipeStep(null);
+      setQueuePosition(null);
+      setProgress(null);
+      setTimeline([]);
+      setRunDetails(null);
+      setWarnings([]);
+      setRejectedHunks(new Set());
+
+      let completed = false;
 
+      try {
+        const port = chrome.runtime.connect({ name: PORT_NAMES.OPTIMIZE });
+        portRef.current = port;
+
+        port.onMessage.addListener((message: unknown) => {
+          if (!message || typeof message !== "object") {
+            logger.error("Received invalid message from optimize port.");
+            return;
+          }
+          const msg = message as OptimizePortMessage;
+
+          if (msg.type === "CHUNK") {
+            chunkBufferRef.current += msg.data;
+            rafIdRef.current ??= requestAnimationFrame(flushPendingChunks);
+          } else if (msg.type === "CANDIDATE_CHUNK") {
+            const pending = candidateChunksRef.current;
+            pending[msg.index] = (pending[msg.index] ?? "") + msg.data;
+            rafIdRef.current ??= requestAnimationFrame(flushPendingChunks);
+          } else if (msg.type === "CANDIDATE_COMPLETE") {
+            // The cleaned text replaces whatever deltas are still buffered
+            candidateChunksRef.current[msg.index] = "";
+            setCandidates((prev) => {
+              const next = [...prev];
+              next[msg.index] = msg.text;
+              return next;
+            });
+          } else if (msg.type === "STAGE") {
+            setStage(msg.stage);
+            setRecipeStep(msg.step ?? null);
+            setQueuePosition(msg.position ?? null);
+            setProgress((prev) => (prev?.stage === msg.stage ? prev : null));
+            const label = msg.step
+              ? `${msg.step.label}: ${humanizeStage(msg.stage)}`
+              : humanizeStage(msg.stage);
+            setTimeline((prev) => {
+              const last = prev.at(-1);
+              if (last?.label === label) return prev;
+              const now = Date.now();
+              const closed = last
+                ? [...prev.slice(0, -1), { ...last, endedAt: now }]
+                : [];
+              return [...closed, { label, startedAt: now }];
+            });
+          } else if (msg.type === "PROGRESS") {
+            setProgress(msg);
+          } else if (msg.type === "TOKEN_INFO") {
+            if (msg.count > 0) {
+              setTokenInfo({ count: msg.count, limit: msg.limit });
+            }
+          } else if (msg.type === "COMPLETE") {
+            completed = true;
+            discardPendingChunks();
+            const picks = msg.candidates ?? [];
+            setCandidates(picks.length > 1 ? picks : []);
+            setStreamBuffer(msg.optimizedPrompt);
+            setRunDetails({ report: msg.report, rules: msg.rules });
+            setWarnings(msg.warnings ?? []);
+            setStatus("complete");
+            port.disconnect();
+          } else if (msg.type === "ERROR") {
+            completed = true;
+            setErrorCode(msg.code);
+            setStatus("error");
+            port.disconnect();
+          }
+        });
+
+        port.onDisconnect.addListener(() => {
+          if (!completed) {
+            setErrorCode("UNKNOWN_ERROR");
+            setStatus("error");
+          }
+        });
+
+        port.postMessage(first);
+      } catch {
+        logger.error("Overlay optimization error: Something went wrong");
+        setErrorCode("UNKNOWN_ERROR");
+        setStatus("error");
+      }
+    },
+    [discardPendingChunks, flushPendingChunks],
+  );
+
+  /**
+   * Stop / Back: cancels the job, then lets go of the port. Disconnecting
+   * alone only detaches - the job would keep running and re-attach on the
+   * next open.
+   */
+  const stopStream = useCallback(() => {
+    const port = portRef.current;
+    portRef.current = null;
+    if (!port) return;
+    const cancel: OptimizePortCancel = {
+      type: MESSAGE_TYPES.CANCEL_OPTIMIZATION,
+    };
+    try {
+      port.postMessage(cancel);
+    } catch {
+      /* already disconnected - the job has finished */
+    }
+    port.disconnect();
+  }, []);
+
+  const startStream = useCallback(
+    (draft: string, actionId: string, fresh = false) => {
       const request: OptimizePortRequest = {
         type: MESSAGE_TYPES.START_OPTIMIZATION,
         draft: draft.trim(),
         platform: detectPlatform(),
         action: actionId,
       };
-
-      port.postMessage(request);
-    } catch {
-      logger.error("Overlay optimization error: Something went wrong");
-      setErrorCode("UNKNOWN_ERROR");
-      setStatus("error");
-    }
-  }, []);
+      if (variantCountRef.current > 1) {
+        request.variants = variantCountRef.current;
+      }
+      if (fresh) request.fresh = true;
+      openStream(request);
+    },
+    [openStream],
+  );
 
   // ---------------------------------------------------------------------------
   // Action handler (initial click from palette)
@@ -242,20 +477,29 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
 
   const handleAction = useCallback(
     (actionId: string) => {
-      const action = ACTIONS.find((a) => a.id === actionId);
+      const action = getActionById(actionId);
       if (!action) {
         logger.error(`Action with ID ${actionId} not found.`);
         return;
       }
 
-      const selectedText = getSelectedText();
+      // Prefer the chosen scope, but fall back to the other one so an empty
+      // selection still optimizes the draft (and vice versa).
+      const readSelection = () => selection ?? captureSelection();
+      const readComposer = () => captureComposer(detectPlatform());
+      const snapshot =
+        scope === "input"
+          ? (readComposer() ?? readSelection())
+          : (readSelection() ?? readComposer());
+      const selectedText = snapshot?.text ?? getSelectedText();
       if (!selectedText?.trim()) {
         setSelectionError(
-          "No text selected - highlight the text you want to transform first.",
+          "Nothing to optimize - type in the prompt box or highlight some text first.",
         );
         return;
       }
 
+      targetRef.current = snapshot;
       setSelectionError(null);
       setActiveAction(action.label);
       setActiveActionId(action.id);
@@ -263,18 +507,172 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
 
       startStream(selectedText, actionId);
     },
-    [startStream],
+    [selection, scope, startStream],
   );
 
+  // ---------------------------------------------------------------------------
+  // Custom actions and recipes: merge the user's stored entries into the
+  // palette. The variants setting loads alongside so Run on Open honours it.
+  // ---------------------------------------------------------------------------
+
+  useEffect(() => {
+    let cancelled = false;
+    void Promise.all([loadUserActions(), loadVariantCount()]).then(
+      ([, variantCount]) => {
+        if (cancelled) return;
+        variantCountRef.current = variantCount;
+        setAllActions(getAllActions());
+        setActionsLoaded(true);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // History view: browse past runs and re-insert one into the composer
+  // ---------------------------------------------------------------------------
+
+  const openHistory = useCallback(() => {
+    setSelectionError(null);
+    setView("history");
+    void getHistory().then(setHistory);
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // Tuning undo/redo from the palette - resolved once, when the palette opens
+  // ---------------------------------------------------------------------------
+
+  const [tunedComposer] = useState(() =>
+    findTunedComposer(
+      selection?.element ??
+        getActiveTextInput(PLATFORM_INPUT_SELECTORS[detectPlatform()]),
+    ),
+  );
+  const canUndo = canUndoTuning(tunedComposer);
+  const canRedo = canRedoTuning(tunedComposer);
+
+  const handleTuningStep = useCallback(
+    (direction: "undo" | "redo") => {
+      if (stepTuning(direction, tunedComposer)) onClose();
+    },
+    [tunedComposer, onClose],
+  );
+
+  const handleHistoryInsert = useCallback(
+    (entry: HistoryEntry) => {
+      if (!insertIntoComposer(detectPlatform(), entry.result, selection)) {
+        toast.error("Couldn't insert - no prompt box found on this page.");
+        return;
+      }
+      toast.success("Inserted from history");
+      onClose();
+    },
+    [selection, onClose],
+  );
+
+  // ---------------------------------------------------------------------------
+  // Run on Open: start the default action once, on mount
+  // ---------------------------------------------------------------------------
+
+  const initialActionRef = useRef(initialActionId);
+  useEffect(() => {
+    const actionId = initialActionRef.current;
+    // The default action may be a custom one - wait until those are loaded.
+    if (!actionId || !actionsLoaded) return;
+    initialActionRef.current = null;
+    handleAction(actionId);
+  }, [handleAction, actionsLoaded]);
+
+  // ---------------------------------------------------------------------------
+  // Re-attach: a job this tab started before the overlay last closed kept
+  // running in the background - pick it up instead of showing the palette
+  // ---------------------------------------------------------------------------
+
+  const reattachRef = useRef(initialActionId === null);
+  useEffect(() => {
+    if (!reattachRef.current || !actionsLoaded) return;
+    let cancelled = false;
+
+    const message: GetJobMessage = { type: MESSAGE_TYPES.GET_JOB };
+    chrome.runtime
+      .sendMessage<GetJobMessage, JobSummary | null>(message)
+      .then((job) => {
+        if (!job || cancelled || streamStartedRef.current) return;
+        // Insert needs the span the job was started from; it is only safe
+        // while that span still holds the job's draft.
+        const target = selection ?? captureComposer(detectPlatform());
+        targetRef.current = target?.text.trim() === job.draft ? target : null;
+        setActiveAction(getActionById(job.actionId)?.label ?? job.actionId);
+        setActiveActionId(job.actionId);
+        setOriginalText(job.draft);
+        openStream({ type: MESSAGE_TYPES.ATTACH_JOB, jobId: job.id });
+      })
+      .catch(() => {
+        /* SW restarting - its jobs are gone with it */
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [actionsLoaded, openStream, selection]);
+
   // ---------------------------------------------------------------------------
   // Retry handler (shared by "complete" and "error" states)
   // ---------------------------------------------------------------------------
 
+  /** Runs the action again, bypassing the result cache */
   const handleRetry = useCallback(() => {
     if (!originalText || !activeActionId) return;
-    startStream(originalText, activeActionId);
+    startStream(originalText, activeActionId, true);
   }, [originalText, activeActionId, startStream]);
 
+  // ---------------------------------------------------------------------------
+  // Diff review - hunks the user rejects keep their original wording
+  // ---------------------------------------------------------------------------
+
+  const diffSegments = useMemo(
+    () =>
+      status === "complete" && originalText
+        ? diffWords(originalText, streamBuffer)
+        : [],
+    [status, originalText, streamBuffer],
+  );
+  const hunkCount = countHunks(diffSegments);
+  const reviewedText =
+    rejectedHunks.size > 0
+      ? applyHunks(diffSegments, rejectedHunks)
+      : streamBuffer;
+
+  const toggleHunk = useCallback((hunk: number) => {
+    setRejectedHunks((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(hunk)) next.add(hunk);
+      return next;
+    });
+  }, []);
+
+  const cycleDiffMode = useCallback(() => {
+    setDiffMode((mode) =>
+      mode === null ? "inline" : mode === "inline" ? "split" : null,
+    );
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // Variants - the picked candidate becomes the result under review
+  // ---------------------------------------------------------------------------
+
+  const selectCandidate = useCallback(
+    (index: number) => {
+      const text = candidates[index];
+      if (text === undefined) return;
+      setSelectedCandidate(index);
+      setStreamBuffer(text);
+      setRejectedHunks(new Set());
+    },
+    [candidates],
+  );
+
   // ---------------------------------------------------------------------------
   // Apply + Undo
   // ---------------------------------------------------------------------------
@@ -282,14 +680,12 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
   const handleApply = useCallback(() => {
     if (!originalText) return;
 
-    // Store for undo before replacing
-    lastApply = {
-      originalText,
-      replacedAt: Date.now(),
-    };
+    const target = targetRef.current ?? captureSelection();
+    const inserted = target ? replaceSelection(target, reviewedText) : null;
+
+    if (target && inserted) {
+      recordTuning(target, inserted);
 
-    const success = replaceSelectedText(streamBuffer);
-    if (success) {
       // Trigger success animation
       setApplySuccess(true);
       const timers = applyTimersRef.current;
@@ -309,13 +705,14 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
               type="button"
               className="pt-toast-inline-action"
               onClick={() => {
-                restoreOriginal();
                 toast.dismiss(toastId);
+                stepTuning("undo", inserted.element);
               }}
             >
               Undo
             </button>{" "}
-            to restore your original text.
+            to restore your original text (
+            {formatShortcut(KEYBOARD_SHORTCUTS.UNDO_TUNING)} works any time).
           </>
         ),
         duration: 8000,
@@ -327,13 +724,13 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
         timers.close = null;
       }, 300);
     } else {
-      lastApply = null;
       toast.error("Failed to replace text");
     }
-  }, [streamBuffer, originalText, onClose]);
+  }, [reviewedText, originalText, onClose]);
 
   // ---------------------------------------------------------------------------
-  // Enter key handler for ↵ Insert (F7)
+  // Complete-state keys: ↵ Insert (F7), D cycles the diff view, 1-4 pick a
+  // variant
   // ---------------------------------------------------------------------------
 
   useEffect(() => {
@@ -341,9 +738,25 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
     const root = containerRef.current;
     if (!root) return;
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key !== "Enter") return;
-      const target = e.target as Node | null;
+      const target = e.target as Element | null;
       if (target && !root.contains(target)) return;
+      if (e.key === "d" || e.key === "D") {
+        if (e.metaKey || e.ctrlKey || e.altKey) return;
+        e.preventDefault();
+        e.stopPropagation();
+        cycleDiffMode();
+        return;
+      }
+      const digit = Number.parseInt(e.key, 10);
+      if (candidates.length > 1 && digit >= 1 && digit <= candidates.length) {
+        e.preventDefault();
+        e.stopPropagation();
+        selectCandidate(digit - 1);
+        return;
+      }
+      if (e.key !== "Enter") return;
+      // Enter on a hunk or card toggles / picks it rather than inserting
+      if (target?.closest("[data-pt-hunk], [role=radio]")) return;
       e.preventDefault();
       e.stopPropagation();
       handleApply();
@@ -352,7 +765,7 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
     return () => {
       root.removeEventListener("keydown", handleKeyDown);
     };
-  }, [status, handleApply]);
+  }, [status, handleApply, cycleDiffMode, candidates, selectCandidate]);
 
   // ---------------------------------------------------------------------------
   // Auto-scroll streaming content
@@ -368,7 +781,6 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
   // Keyboard list navigation for action selection view
   // ===========================================================================
 
-  const allActions = ACTIONS;
   const [showTechniques, setShowTechniques] = useState(false);
 
   const primaryActions = useMemo(
@@ -448,10 +860,17 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
               </span>
               {status === "streaming" ? (
                 <span
-                  key={stage}
-                  className="ml-auto font-sans text-[10px] font-semibold tracking-[0.22em] uppercase text-[var(--pt-text-tertiary)] pt-stage-fade"
+                  key={`${String(recipeStep?.index ?? "")}:${stage ?? ""}`}
+                  className="ml-auto truncate font-sans text-[10px] font-semibold tracking-[0.22em] uppercase text-[var(--pt-text-tertiary)] pt-stage-fade"
                 >
+                  {recipeStep &&
+                    `${String(recipeStep.index + 1)}/${String(recipeStep.total)} ${recipeStep.label} · `}
+                  {candidates.length > 0 &&
+                    `Variant ${String(candidates.length)} · `}
                   {humanizeStage(stage)}
+                  {stage === "queued" &&
+                    queuePosition !== null &&
+                    ` · #${String(queuePosition)}`}
                 </span>
               ) : (
                 tokenInfo &&
@@ -467,6 +886,16 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
           </div>
         </div>
 
+        {status === "streaming" &&
+          (progress !== null || timeline.length > 1) && (
+            <StageProgress
+              progress={progress}
+              progressLabel={humanizeStage(progress?.stage ?? stage)}
+              timeline={timeline}
+              className="border-b border-[var(--pt-surface-border)] px-4 py-2"
+            />
+          )}
+
         {/* Content area */}
         {status === "error" ? (
           /* Inline error panel */
@@ -497,8 +926,7 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
                 </span>
                 <button
                   onClick={() => {
-                    portRef.current?.disconnect();
-                    portRef.current = null;
+                    stopStream();
                     setStatus("selection");
                     setErrorCode(null);
                   }}
@@ -517,15 +945,49 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
             aria-live="polite"
             aria-atomic="false"
           >
-            <p className="whitespace-pre-wrap text-sm leading-normal text-[var(--pt-text-primary)] font-normal">
-              {streamBuffer}
-              {status === "streaming" && (
-                <span
-                  aria-hidden="true"
-                  className="ml-1 inline-block h-[0.9lh] w-[3px] bg-[var(--pt-accent)] align-middle opacity-80"
-                />
-              )}
-            </p>
+            {status === "complete" && diffMode ? (
+              <DiffView
+                segments={diffSegments}
+                mode={diffMode}
+                rejected={rejectedHunks}
+                onToggle={toggleHunk}
+              />
+            ) : candidates.length > 0 ? (
+              <VariantCards
+                candidates={
+                  status === "complete"
+                    ? candidates.map((text, index) =>
+                        index === selectedCandidate ? reviewedText : text,
+                      )
+                    : candidates
+                }
+                selected={selectedCandidate}
+                onSelect={selectCandidate}
+                streaming={status === "streaming"}
+              />
+            ) : (
+              <p className="whitespace-pre-wrap text-sm leading-normal text-[var(--pt-text-primary)] font-normal">
+                {status === "complete" ? reviewedText : streamBuffer}
+                {status === "streaming" && (
+                  <span
+                    aria-hidden="true"
+                    className="ml-1 inline-block h-[0.9lh] w-[3px] bg-[var(--pt-accent)] align-middle opacity-80"
+                  />
+                )}
+              </p>
+            )}
+            {status === "complete" && warnings.length > 0 && (
+              <div ref={warningsRef}>
+                <ResultWarnings warnings={warnings} />
+              </div>
+            )}
+            {status === "complete" && runDetails && (
+              <RunReportDetails
+                report={runDetails.report}
+                rules={runDetails.rules}
+                stageLabel={humanizeStage}
+              />
+            )}
           </div>
         )}
 
@@ -535,8 +997,7 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
             <button
               ref={cancelButtonRef}
               onClick={() => {
-                portRef.current?.disconnect();
-                portRef.current = null;
+                stopStream();
                 setStatus("selection");
                 setErrorCode(null);
               }}
@@ -549,17 +1010,68 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
 
             {status === "complete" && (
               <div className="flex items-center gap-3">
-                <Tooltip content="Retry optimization">
+                {hunkCount > 0 && (
+                  <>
+                    <Tooltip content="Review changes (D)">
+                      <button
+                        type="button"
+                        onClick={cycleDiffMode}
+                        aria-pressed={diffMode !== null}
+                        className="-mx-1 -my-1.5 px-1 py-1.5 text-sm font-medium text-[var(--pt-text-secondary)] hover:text-[var(--pt-text-primary)] transition-colors"
+                      >
+                        {diffMode === null
+                          ? "Diff"
+                          : diffMode === "inline"
+                            ? "Inline"
+                            : "Split"}
+                        {rejectedHunks.size > 0 && (
+                          <span className="ml-1 text-[var(--pt-text-tertiary)]">
+                            {hunkCount - rejectedHunks.size}/{hunkCount}
+                          </span>
+                        )}
+                      </button>
+                    </Tooltip>
+                    <span
+                      aria-hidden
+                      className="text-[var(--pt-text-tertiary)]"
+                    >
+                      ·
+                    </span>
+                  </>
+                )}
+                <Tooltip content="Generate a fresh result, skipping the cache">
                   <button
                     onClick={handleRetry}
                     className="-mx-1 -my-1.5 px-1 py-1.5 text-sm font-medium text-[var(--pt-text-secondary)] hover:text-[var(--pt-text-primary)] transition-colors"
                   >
-                    Retry
+                    Regenerate
                   </button>
                 </Tooltip>
                 <span aria-hidden className="text-[var(--pt-text-tertiary)]">
                   ·
                 </span>
+                {warnings.length > 0 && (
+                  <Tooltip
+                    content={warnings.map((w, index) => (
+                      <div key={index}>{w.message}</div>
+                    ))}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => {
+                        warningsRef.current?.scrollIntoView({
+                          block: "nearest",
+                          behavior: "smooth",
+                        });
+                      }}
+                      aria-label={`${String(warnings.length)} ${warnings.length === 1 ? "warning" : "warnings"} - check before inserting`}
+                      className="-mx-1 -my-1.5 flex items-center gap-1 px-1 py-1.5 text-sm font-medium leading-none text-[var(--pt-status-warning)] transition-opacity hover:opacity-80"
+                    >
+                      <WarningCircle className="h-4 w-4" weight="fill" />
+                      {warnings.length}
+                    </button>
+                  </Tooltip>
+                )}
                 <Tooltip content="Insert optimized prompt (↵)">
                   <button
                     ref={insertButtonRef}
@@ -594,6 +1106,41 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
     );
   }
 
+  // ===========================================================================
+  // History View
+  // ===========================================================================
+
+  if (view === "history") {
+    return (
+      <div ref={containerRef} className="flex flex-col h-full">
+        <div className="flex items-center gap-2.5 border-b border-[var(--pt-surface-border)] px-4 py-2.5">
+          <ClockCounterClockwise
+            className="h-4 w-4 text-[var(--pt-accent)]"
+            weight="regular"
+            aria-hidden="true"
+          />
+          <span className="text-base font-semibold leading-tight tracking-tight text-[var(--pt-text-primary)]">
+            History
+          </span>
+          <button
+            type="button"
+            onClick={() => {
+              setView("actions");
+            }}
+            className="ml-auto -mx-1 -my-1.5 px-1 py-1.5 text-sm font-medium text-[var(--pt-text-secondary)] hover:text-[var(--pt-text-primary)] transition-colors"
+          >
+            Back
+          </button>
+        </div>
+        <HistoryList
+          entries={history}
+          onInsert={handleHistoryInsert}
+          autoFocus
+        />
+      </div>
+    );
+  }
+
   // ===========================================================================
   // Action Selection View
   // ===========================================================================
@@ -607,6 +1154,41 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
         </div>
       )}
 
+      {/* Scope toggle - only meaningful when there is a selection to narrow to */}
+      {selection && (
+        <div
+          role="radiogroup"
+          aria-label="Optimize"
+          className="flex items-center gap-3 border-b border-[var(--pt-surface-border)] px-4 py-2"
+        >
+          {(
+            [
+              ["selection", "Selection"],
+              ["input", "Whole prompt"],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={scope === value}
+              onClick={() => {
+                setScope(value);
+                setSelectionError(null);
+              }}
+              className={cn(
+                "-mx-1 -my-1 px-1 py-1 font-sans text-[10px] font-semibold tracking-[0.22em] uppercase transition-colors",
+                scope === value
+                  ? "text-[var(--pt-accent)]"
+                  : "text-[var(--pt-text-tertiary)] hover:text-[var(--pt-text-primary)]",
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       <ul
         id="pt-techniques-list"
         role="listbox"
@@ -761,6 +1343,70 @@ export function CommandPaletteContent({ onClose }: CommandPaletteContentProps) {
               </li>
             );
           })}
+
+        <li role="presentation" className="mt-1.5 mb-0.5 px-2">
+          <button
+            type="button"
+            onClick={openHistory}
+            className="group flex w-full items-center gap-2 px-1 py-2 text-left transition-colors hover:text-[var(--pt-accent)]"
+          >
+            <span className="font-sans text-[10px] font-semibold tracking-[0.22em] uppercase text-[var(--pt-text-tertiary)] group-hover:text-[var(--pt-accent)]">
+              History
+            </span>
+            <span
+              aria-hidden="true"
+              className="h-px flex-1 bg-[var(--pt-surface-border)]"
+            />
+            <span
+              aria-hidden="true"
+              className="text-xs text-[var(--pt-text-tertiary)]"
+            >
+              ›
+            </span>
+          </button>
+        </li>
+
+        {(canUndo || canRedo) && (
+          <li
+            role="presentation"
+            className="mb-0.5 flex items-center gap-3 px-3 py-1"
+          >
+            {(
+              [
+                [
+                  "undo",
+                  "Undo tuning",
+                  canUndo,
+                  KEYBOARD_SHORTCUTS.UNDO_TUNING,
+                ],
+                [
+                  "redo",
+                  "Redo tuning",
+                  canRedo,
+                  KEYBOARD_SHORTCUTS.REDO_TUNING,
+                ],
+              ] as const
+            ).map(
+              ([direction, label, enabled, shortcut]) =>
+                enabled && (
+                  <Tooltip
+                    key={direction}
+                    content={`${label} (${formatShortcut(shortcut)})`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => {
+                        handleTuningStep(direction);
+                      }}
+                      className="-mx-1 -my-1 px-1 py-1 font-sans text-[10px] font-semibold tracking-[0.22em] uppercase text-[var(--pt-text-tertiary)] transition-colors hover:text-[var(--pt-accent)]"
+                    >
+                      {direction === "undo" ? "↶" : "↷"} {label}
+                    </button>
+                  </Tooltip>
+                ),
+            )}
+          </li>
+        )}
       </ul>
     </>
   );
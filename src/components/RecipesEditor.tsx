@@ -0,0 +1,246 @@
+/**
+ * Recipes editor (popup)
+ *
+ * Lists saved recipes - ordered chains of actions that run as one palette
+ * entry - and a form for composing a new one from the available actions.
+ * Persistence is the caller's job; this component only reports the next list
+ * through `onChange`.
+ */
+
+import { useState } from "react";
+import { type RecipeDefinition } from "~types";
+import { RECIPE_PREFIX } from "~lib/actions";
+import { Trash, X } from "~lib/icons";
+import { Button } from "~components/ui/Button";
+import { Label } from "~components/ui/Label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~components/ui/Select";
+import { Tooltip } from "~components/ui/Tooltip";
+
+const INPUT_CLASS =
+  "w-full rounded-[var(--pt-radius-sm)] border border-[var(--pt-surface-border)] bg-transparent px-2.5 py-1.5 text-sm text-[var(--pt-text-primary)] outline-none placeholder:text-[var(--pt-text-tertiary)] focus:border-[var(--pt-accent)]";
+
+const ICON_BUTTON_CLASS =
+  "inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-[var(--pt-radius-sm)] text-[var(--pt-text-tertiary)] outline-none transition-colors hover:bg-[var(--pt-hover-bg)] hover:text-[var(--pt-status-error)]";
+
+interface Draft {
+  label: string;
+  keywords: string;
+  steps: string[];
+}
+
+const EMPTY_DRAFT: Draft = { label: "", keywords: "", steps: [] };
+
+export interface RecipesEditorProps {
+  recipes: RecipeDefinition[];
+  /** Actions a step may run - built-ins and custom actions, not recipes */
+  actions: { id: string; label: string }[];
+  onChange: (recipes: RecipeDefinition[]) => void;
+}
+
+export function RecipesEditor({
+  recipes,
+  actions,
+  onChange,
+}: RecipesEditorProps): React.JSX.Element {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const labelFor = (id: string): string =>
+    actions.find((a) => a.id === id)?.label ?? "Missing action";
+
+  const canSave =
+    draft !== null && draft.label.trim().length > 0 && draft.steps.length > 0;
+
+  const save = (): void => {
+    if (!draft || !canSave) return;
+    onChange([
+      ...recipes,
+      {
+        id: `${RECIPE_PREFIX}${Date.now().toString(36)}`,
+        label: draft.label.trim(),
+        keywords: draft.keywords
+          .split(",")
+          .map((v) => v.trim())
+          .filter(Boolean),
+        steps: draft.steps,
+      },
+    ]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-1 px-3 py-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium tracking-tight">Recipes</span>
+        {!draft && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              setDraft(EMPTY_DRAFT);
+            }}
+          >
+            New recipe
+          </Button>
+        )}
+      </div>
+
+      {recipes.length === 0 && !draft && (
+        <span className="text-xs text-[var(--pt-text-secondary)] leading-snug">
+          Chain actions into one palette entry, like Set a Persona → Set the
+          Format → Add Boundaries.
+        </span>
+      )}
+
+      {recipes.length > 0 && (
+        <ul className="flex flex-col" aria-label="Recipes">
+          {recipes.map((recipe) => {
+            const broken = recipe.steps.some(
+              (id) => !actions.some((a) => a.id === id),
+            );
+            return (
+              <li
+                key={recipe.id}
+                className="flex items-center gap-2 rounded-[var(--pt-radius-sm)] py-1 text-sm"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{recipe.label}</div>
+                  <div
+                    className={
+                      broken
+                        ? "truncate text-xs text-[var(--pt-status-error)]"
+                        : "truncate text-xs text-[var(--pt-text-tertiary)]"
+                    }
+                  >
+                    {recipe.steps.map(labelFor).join(" → ")}
+                  </div>
+                </div>
+                <Tooltip content="Delete recipe" side="left">
+                  <button
+                    type="button"
+                    aria-label={`Delete ${recipe.label}`}
+                    onClick={() => {
+                      onChange(recipes.filter((r) => r.id !== recipe.id));
+                    }}
+                    className={ICON_BUTTON_CLASS}
+                  >
+                    <Trash size={14} weight="regular" aria-hidden="true" />
+                  </button>
+                </Tooltip>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {draft && (
+        <form
+          className="mt-1 flex flex-col gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+        >
+          <Label htmlFor="recipe-label" className="text-xs">
+            Label
+          </Label>
+          <input
+            id="recipe-label"
+            className={INPUT_CLASS}
+            value={draft.label}
+            placeholder="Full treatment"
+            onChange={(e) => {
+              setDraft({ ...draft, label: e.target.value });
+            }}
+          />
+
+          <Label htmlFor="recipe-add-step" className="text-xs">
+            Steps
+          </Label>
+          {draft.steps.length > 0 && (
+            <ol className="flex flex-col" aria-label="Recipe steps">
+              {draft.steps.map((id, index) => (
+                <li
+                  key={`${id}-${String(index)}`}
+                  className="flex items-center gap-2 py-0.5 text-sm"
+                >
+                  <span className="w-4 shrink-0 text-xs tabular-nums text-[var(--pt-text-tertiary)]">
+                    {index + 1}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate">
+                    {labelFor(id)}
+                  </span>
+                  <button
+                    type="button"
+                    aria-label={`Remove step ${String(index + 1)}`}
+                    onClick={() => {
+                      setDraft({
+                        ...draft,
+                        steps: draft.steps.filter((_, i) => i !== index),
+                      });
+                    }}
+                    className={ICON_BUTTON_CLASS}
+                  >
+                    <X size={12} weight="bold" aria-hidden="true" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          {/* Keyed on length so the trigger resets to its placeholder */}
+          <Select
+            key={draft.steps.length}
+            onValueChange={(id) => {
+              setDraft({ ...draft, steps: [...draft.steps, id] });
+            }}
+          >
+            <SelectTrigger id="recipe-add-step" aria-label="Add step">
+              <SelectValue placeholder="Add a step…" />
+            </SelectTrigger>
+            <SelectContent>
+              {actions.map((action) => (
+                <SelectItem key={action.id} value={action.id}>
+                  {action.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label htmlFor="recipe-keywords" className="text-xs">
+            Keywords
+          </Label>
+          <input
+            id="recipe-keywords"
+            className={INPUT_CLASS}
+            value={draft.keywords}
+            placeholder="full, everything"
+            onChange={(e) => {
+              setDraft({ ...draft, keywords: e.target.value });
+            }}
+          />
+
+          <div className="flex justify-end gap-2 pt-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(null);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={!canSave}>
+              Save
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
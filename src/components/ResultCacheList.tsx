@@ -0,0 +1,66 @@
+/**
+ * Result cache list - what the result cache currently holds
+ *
+ * Popup-only, read-only view: one row per cached result with its action,
+ * platform, engine and age. Loading and clearing belong to the caller.
+ */
+
+import { type ResultCacheEntry } from "~types";
+import { PLATFORM_DISPLAY_NAMES } from "~lib/platforms";
+import { cn, formatAge } from "~lib/utils";
+
+export interface ResultCacheListProps {
+  entries: ResultCacheEntry[];
+  /** Display name for an action ID (custom actions may have been deleted) */
+  labelFor: (actionId: string) => string;
+  className?: string;
+}
+
+export function ResultCacheList({
+  entries,
+  labelFor,
+  className,
+}: ResultCacheListProps): React.JSX.Element {
+  const now = Date.now();
+
+  if (entries.length === 0) {
+    return (
+      <p
+        className={cn(
+          "px-4 py-3 text-xs text-[var(--pt-text-secondary)] leading-snug",
+          className,
+        )}
+      >
+        Nothing cached - repeated runs of the same draft appear here.
+      </p>
+    );
+  }
+
+  return (
+    <ul
+      aria-label="Cached results"
+      className={cn(
+        "max-h-[var(--pt-list-max-h)] overflow-y-auto py-1",
+        className,
+      )}
+    >
+      {entries.map((entry) => (
+        <li key={entry.key} className="mx-2 flex flex-col px-2 py-2">
+          <div className="flex items-baseline gap-2">
+            <span className="truncate text-sm font-semibold tracking-tight text-[var(--pt-text-primary)]">
+              {labelFor(entry.actionId)}
+            </span>
+            <span className="ml-auto shrink-0 font-sans text-[10px] font-semibold tracking-[0.18em] uppercase text-[var(--pt-text-tertiary)]">
+              {PLATFORM_DISPLAY_NAMES[entry.platform]} ·{" "}
+              {entry.engine === "nano" ? "Nano" : "Local"} ·{" "}
+              {formatAge(entry.ts, now)}
+            </span>
+          </div>
+          <div className="truncate text-xs leading-snug text-[var(--pt-text-secondary)]">
+            {entry.result}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Result warnings - what to check in a finished result before inserting it
+ *
+ * Renders COMPLETE's `warnings` - protected spans the rewrite dropped and
+ * the preservation check's findings - each with the content concerned so
+ * nothing disappears unnoticed. The action bar's warning count scrolls here.
+ */
+
+import { type ResultWarning } from "~types";
+import { cn } from "~lib/utils";
+
+export interface ResultWarningsProps {
+  warnings: ResultWarning[];
+  className?: string;
+}
+
+export function ResultWarnings({
+  warnings,
+  className,
+}: ResultWarningsProps): React.JSX.Element {
+  return (
+    <ul
+      role="status"
+      aria-label="Warnings"
+      className={cn(
+        "mt-3 flex flex-col gap-1.5 rounded-[var(--pt-radius-sm)] bg-[var(--pt-status-warning-bg)] px-3 py-2 text-xs leading-snug",
+        className,
+      )}
+    >
+      {warnings.map((warning, index) => (
+        <li key={index} className="flex flex-col gap-0.5">
+          <span className="font-medium text-[var(--pt-status-warning)]">
+            {warning.message}
+          </span>
+          {warning.detail && (
+            <code className="line-clamp-3 whitespace-pre-wrap break-all font-mono text-[11px] text-[var(--pt-text-secondary)]">
+              {warning.detail}
+            </code>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
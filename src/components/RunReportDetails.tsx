@@ -0,0 +1,148 @@
+/**
+ * Run report - the overlay's expandable "How this was made" section
+ *
+ * Renders a finished run's `RunReport` and applied rules: which engine and
+ * pattern produced the result, any fallbacks on the way, token counts, time
+ * per stage, and the rules with links to their sources. Collapsed by default.
+ */
+
+import {
+  type AppliedRuleRef,
+  type RunPattern,
+  type RunReport,
+  type StageTiming,
+} from "~types";
+import { cn } from "~lib/utils";
+
+const PATTERN_LABELS: Record<RunPattern, string> = {
+  single: "Single pass",
+  refine: "Draft, critique, polish",
+  "map-reduce": "Map-reduce over sections",
+  hierarchical: "Summarize, then map-reduce",
+  decomposition: "Task decomposition",
+  writer: "Writer API",
+  rewriter: "Rewriter API",
+  variants: "Variants",
+};
+
+function engineLabel(engine: string): string {
+  if (engine === "nano") return "Gemini Nano";
+  const model = engine.slice("local:".length, engine.indexOf("@"));
+  return model && model !== "default" ? `Local · ${model}` : "Local server";
+}
+
+function formatMs(ms: number): string {
+  return ms < 1000 ? `${String(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function timingLabel(
+  timing: StageTiming,
+  stageLabel: (stage: string) => string,
+): string {
+  const label =
+    timing.stage === "preparing" ? "Preparing" : stageLabel(timing.stage);
+  return timing.step ? `${timing.step} · ${label}` : label;
+}
+
+export interface RunReportDetailsProps {
+  report: RunReport;
+  rules: AppliedRuleRef[];
+  /** Display name for a STAGE (the overlay's stage labels) */
+  stageLabel: (stage: string) => string;
+  className?: string;
+}
+
+export function RunReportDetails({
+  report,
+  rules,
+  stageLabel,
+  className,
+}: RunReportDetailsProps): React.JSX.Element {
+  const patterns = report.cached
+    ? "Cached result"
+    : report.patterns.map((p) => PATTERN_LABELS[p]).join(" → ");
+
+  return (
+    <details className={cn("group mt-3 text-xs", className)}>
+      <summary className="cursor-pointer select-none font-sans text-[10px] font-semibold tracking-[0.22em] uppercase text-[var(--pt-text-tertiary)] hover:text-[var(--pt-text-secondary)] outline-none">
+        How this was made
+      </summary>
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 leading-snug">
+        <dt className="text-[var(--pt-text-tertiary)]">Engine</dt>
+        <dd className="text-[var(--pt-text-secondary)]">
+          {engineLabel(report.engine)}
+        </dd>
+
+        <dt className="text-[var(--pt-text-tertiary)]">Pattern</dt>
+        <dd className="text-[var(--pt-text-secondary)]">{patterns || "-"}</dd>
+
+        {report.fallbacks.length > 0 && (
+          <>
+            <dt className="text-[var(--pt-text-tertiary)]">Fallback</dt>
+            <dd className="text-[var(--pt-text-secondary)]">
+              {report.fallbacks.map((f, index) => (
+                <div key={index}>
+                  {f.reason} - used {PATTERN_LABELS[f.to]}
+                </div>
+              ))}
+            </dd>
+          </>
+        )}
+
+        {(report.tokensIn !== undefined || report.tokensOut !== undefined) && (
+          <>
+            <dt className="text-[var(--pt-text-tertiary)]">Tokens</dt>
+            <dd className="tabular-nums text-[var(--pt-text-secondary)]">
+              {report.tokensIn ?? "?"} in → {report.tokensOut ?? "?"} out
+            </dd>
+          </>
+        )}
+
+        <dt className="text-[var(--pt-text-tertiary)]">Time</dt>
+        <dd className="tabular-nums text-[var(--pt-text-secondary)]">
+          {formatMs(report.totalMs)}
+          {report.timings.length > 1 && (
+            <ul className="mt-0.5">
+              {report.timings.map((timing, index) => (
+                <li key={index} className="flex gap-2">
+                  <span className="truncate">
+                    {timingLabel(timing, stageLabel)}
+                  </span>
+                  <span className="ml-auto shrink-0">
+                    {formatMs(timing.ms)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </dd>
+
+        {rules.length > 0 && (
+          <>
+            <dt className="text-[var(--pt-text-tertiary)]">Rules</dt>
+            <dd className="text-[var(--pt-text-secondary)]">
+              <ul>
+                {rules.map((rule) => (
+                  <li key={rule.id} className="truncate">
+                    {rule.source ? (
+                      <a
+                        href={rule.source}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline decoration-dotted underline-offset-2 hover:text-[var(--pt-text-primary)]"
+                      >
+                        {rule.title ?? rule.id}
+                      </a>
+                    ) : (
+                      (rule.title ?? rule.id)
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </dd>
+          </>
+        )}
+      </dl>
+    </details>
+  );
+}
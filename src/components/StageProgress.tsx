@@ -0,0 +1,96 @@
+/**
+ * Stage progress - determinate bar and stage timeline while streaming
+ *
+ * Long inputs spend most of their time in multi-part stages (mapping
+ * sections, expanding phases) that stream nothing. PROGRESS messages drive a
+ * determinate bar for the current stage; the timeline underneath lists the
+ * stages so far with how long each took, so the run never looks frozen.
+ */
+
+import { type ProgressUpdate } from "~types";
+import { cn } from "~lib/utils";
+
+export interface TimelineEntry {
+  /** Display label, e.g. "Analyzing sections" */
+  label: string;
+  startedAt: number;
+  /** Set once the next stage has started */
+  endedAt?: number;
+}
+
+export interface StageProgressProps {
+  progress: ProgressUpdate | null;
+  /** Display label of the stage `progress` belongs to */
+  progressLabel: string;
+  timeline: TimelineEntry[];
+  className?: string;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(Math.max(0, ms) / 1000).toFixed(ms < 10_000 ? 1 : 0)}s`;
+}
+
+export function StageProgress({
+  progress,
+  progressLabel,
+  timeline,
+  className,
+}: StageProgressProps): React.JSX.Element {
+  const percent =
+    progress && progress.total > 0
+      ? Math.round((progress.current / progress.total) * 100)
+      : 0;
+
+  return (
+    <div className={cn("flex flex-col gap-1.5", className)}>
+      {progress && progress.total > 0 && (
+        <div className="flex items-center gap-2.5">
+          <div
+            role="progressbar"
+            aria-label={progressLabel}
+            aria-valuemin={0}
+            aria-valuemax={progress.total}
+            aria-valuenow={progress.current}
+            aria-valuetext={`${String(progress.current)} of ${String(progress.total)} ${progress.unit}s`}
+            className="h-1 flex-1 overflow-hidden rounded-full bg-[var(--pt-surface-border)]"
+          >
+            <div
+              className="h-full rounded-full bg-[var(--pt-accent)] transition-[width] duration-300"
+              style={{ width: `${String(percent)}%` }}
+            />
+          </div>
+          <span className="shrink-0 text-[11px] tabular-nums text-[var(--pt-text-tertiary)]">
+            {progress.unit === "section" ? "Section" : "Phase"}{" "}
+            {Math.min(progress.current + 1, progress.total)}/{progress.total} ·{" "}
+            {formatSeconds(progress.elapsedMs)}
+          </span>
+        </div>
+      )}
+      {timeline.length > 1 && (
+        <ol
+          aria-label="Stages"
+          className="flex flex-wrap items-center gap-x-1.5 gap-y-0.5 text-[11px] leading-tight text-[var(--pt-text-tertiary)]"
+        >
+          {timeline.map((entry, index) => (
+            <li
+              key={index}
+              className={cn(
+                "flex items-center gap-1.5",
+                entry.endedAt === undefined &&
+                  "font-medium text-[var(--pt-text-secondary)]",
+              )}
+            >
+              {index > 0 && <span aria-hidden>›</span>}
+              {entry.label}
+              {entry.endedAt !== undefined && (
+                <span className="tabular-nums">
+                  {formatSeconds(entry.endedAt - entry.startedAt)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Variant cards - N-variants mode candidate picker
+ *
+ * Shows each candidate rewrite as a selectable card (a radio group). While
+ * streaming, cards fill in as their candidate generates; once complete the
+ * chosen card is what Insert, diff review, and undo operate on. Number keys
+ * are handled by the overlay.
+ */
+
+import { cn } from "~lib/utils";
+
+export interface VariantCardsProps {
+  candidates: string[];
+  selected: number;
+  onSelect: (index: number) => void;
+  /** Candidates are still streaming - selection is disabled until done */
+  streaming?: boolean;
+}
+
+export function VariantCards({
+  candidates,
+  selected,
+  onSelect,
+  streaming = false,
+}: VariantCardsProps): React.JSX.Element {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Candidates"
+      className="flex flex-col gap-2"
+    >
+      {candidates.map((text, index) => {
+        const checked = !streaming && index === selected;
+        return (
+          <button
+            key={index}
+            type="button"
+            role="radio"
+            aria-checked={checked}
+            disabled={streaming}
+            onClick={() => {
+              onSelect(index);
+            }}
+            className={cn(
+              "flex flex-col gap-1 rounded-[var(--pt-radius-sm)] border px-3 py-2 text-left outline-none transition-colors",
+              "focus-visible:ring-1 focus-visible:ring-[var(--pt-accent)]",
+              checked
+                ? "border-[var(--pt-accent)] bg-[var(--pt-hover-bg)]"
+                : "border-[var(--pt-surface-border)] hover:bg-[var(--pt-hover-bg)]",
+            )}
+          >
+            <span
+              className={cn(
+                "font-sans text-[10px] font-semibold tracking-[0.18em] uppercase",
+                checked
+                  ? "text-[var(--pt-accent)]"
+                  : "text-[var(--pt-text-tertiary)]",
+              )}
+            >
+              {String(index + 1)}
+            </span>
+            <span className="max-h-32 overflow-y-auto whitespace-pre-wrap text-sm leading-normal text-[var(--pt-text-primary)]">
+              {text}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,7 +3,10 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import * as DialogPrimitive from "@radix-ui/react-dialog";
 import * as TooltipPrimitive from "@radix-ui/react-tooltip";
 import { Toaster } from "~components/ui/Toaster";
-import { CommandPaletteContent } from "~components/PromptTunerOverlay";
+import {
+  CommandPaletteContent,
+  stepTuning,
+} from "~components/PromptTunerOverlay";
 import { SelectionTrigger } from "~components/SelectionTrigger";
 import { useKeyboardShortcut } from "~hooks/use-keyboard-shortcut";
 import type { PlasmoCSConfig, PlasmoGetRootContainer } from "plasmo";
@@ -49,18 +52,38 @@ import {
   WIDGET_IDS,
   STORAGE_KEYS,
 } from "~lib/constants";
-import { getRulesForPlatform } from "~lib/platform-rules";
 import { detectPlatform } from "~lib/platform-detector";
-import { warmup, shutdown, isWarmed } from "~lib/ai-engine";
-import { getSelectedText } from "~lib/text-replacer";
+import {
+  type SelectionSnapshot,
+  captureFocusedInput,
+  captureSelection,
+  insertIntoComposer,
+} from "~lib/text-replacer";
 import { observeElements } from "~lib/element-observer";
 import { PLATFORM_INPUT_SELECTORS } from "~lib/platforms";
 
 import { ErrorBoundary } from "~components/ErrorBoundary";
+import {
+  type ExtensionMessage,
+  type ReplaceTextResult,
+  type WarmupMessage,
+} from "~types";
+
+/** Asks the background to warm this platform's session (fire-and-forget) */
+function requestWarmup(): void {
+  const platform = detectPlatform();
+  if (platform === "unknown") return;
+  const message: WarmupMessage = { type: MESSAGE_TYPES.WARMUP, platform };
+  chrome.runtime.sendMessage(message).catch(() => {
+    /* SW restarting - the next request warms it anyway */
+  });
+}
 
 function PromptTunerOverlay() {
   const [isOpen, setIsOpen] = useState(false);
   const previouslyFocused = useRef<HTMLElement | null>(null);
+  const [selection, setSelection] = useState<SelectionSnapshot | null>(null);
+  const [initialActionId, setInitialActionId] = useState<string | null>(null);
   const overlayRef = useRef<HTMLDivElement | null>(null);
   const hasWarmedRef = useRef(false);
 
@@ -68,13 +91,21 @@ function PromptTunerOverlay() {
   // Open / close helpers with focus management (F9)
   // ---------------------------------------------------------------------------
 
-  const openOverlay = useCallback(() => {
-    previouslyFocused.current = document.activeElement as HTMLElement | null;
-    setIsOpen(true);
-  }, []);
+  const openOverlay = useCallback(
+    (options?: { actionId?: string; selection?: SelectionSnapshot }) => {
+      previouslyFocused.current = document.activeElement as HTMLElement | null;
+      // Snapshot the host selection before the dialog steals focus - textarea
+      // selections are only readable while the textarea is focused.
+      setSelection(options?.selection ?? captureSelection());
+      setInitialActionId(options?.actionId ?? null);
+      setIsOpen(true);
+    },
+    [],
+  );
 
   const closeOverlay = useCallback(() => {
     setIsOpen(false);
+    setInitialActionId(null);
   }, []);
 
   // ---------------------------------------------------------------------------
@@ -95,11 +126,13 @@ function PromptTunerOverlay() {
       | undefined;
 
     if (runOnOpenEnabled && defaultAction) {
-      const selectedText = getSelectedText();
-      if (selectedText?.trim()) {
-        // Open directly into streaming mode - the CommandPaletteContent
-        // will receive the action via props and start streaming
-        openOverlay();
+      // No selection but the caret is in the prompt box - run on the whole
+      // draft rather than bouncing the user to the palette.
+      const target = captureSelection() ?? captureFocusedInput();
+      if (target?.text.trim()) {
+        // Open directly into streaming mode - CommandPaletteContent starts
+        // the action from `initialActionId` on mount, skipping the palette
+        openOverlay({ actionId: defaultAction, selection: target });
         return true; // Signal event handled
       }
     }
@@ -112,14 +145,10 @@ function PromptTunerOverlay() {
   // ---------------------------------------------------------------------------
 
   useKeyboardShortcut(KEYBOARD_SHORTCUTS.TOGGLE_OVERLAY, () => {
-    // Warm on first shortcut press - hides 2–3s cold start behind user intent
-    if (!hasWarmedRef.current && !isWarmed()) {
-      hasWarmedRef.current = true;
-      const platform = detectPlatform();
-      if (platform !== "unknown") {
-        void warmup(getRulesForPlatform(platform));
-      }
-    }
+    // Warm on every shortcut press - hides 2–3s cold start behind user
+    // intent, and is a no-op in the background when the session is warm
+    hasWarmedRef.current = true;
+    requestWarmup();
 
     if (isOpen) {
       closeOverlay();
@@ -130,12 +159,21 @@ function PromptTunerOverlay() {
     }
   });
 
+  // Tuning history: step the composer back / forward through inserted versions
+  // without opening the palette. With nothing to step, the key press goes
+  // back to the page without a toast.
+  useKeyboardShortcut(KEYBOARD_SHORTCUTS.UNDO_TUNING, () =>
+    stepTuning("undo", undefined, { fromShortcut: true }),
+  );
+  useKeyboardShortcut(KEYBOARD_SHORTCUTS.REDO_TUNING, () =>
+    stepTuning("redo", undefined, { fromShortcut: true }),
+  );
+
   // ---------------------------------------------------------------------------
   // Proactive warmup when the host platform's input element appears in the DOM.
   // Beats the cold-start latency on the first ⌘⇧K press by ~150ms - the model
   // is already loaded by the time the user makes a selection. Guarded by
-  // hasWarmedRef so the SW only spins up a base session once per content-script
-  // lifetime.
+  // hasWarmedRef so each content script asks the SW only once.
   // ---------------------------------------------------------------------------
 
   useEffect(() => {
@@ -145,10 +183,10 @@ function PromptTunerOverlay() {
 
     const controller = new AbortController();
     const triggerWarm = () => {
-      if (hasWarmedRef.current || isWarmed()) return;
+      if (hasWarmedRef.current) return;
       hasWarmedRef.current = true;
       controller.abort();
-      void warmup(getRulesForPlatform(platform));
+      requestWarmup();
     };
 
     for (const selector of PLATFORM_INPUT_SELECTORS[platform]) {
@@ -161,17 +199,36 @@ function PromptTunerOverlay() {
   }, []);
 
   // ---------------------------------------------------------------------------
-  // Message listener (toggle overlay from background)
+  // Message listener (toggle overlay from background, insert from popup)
   // ---------------------------------------------------------------------------
 
   useEffect(() => {
-    const handleMessage = (message: { type: string }) => {
+    const handleMessage = (
+      message: ExtensionMessage,
+      _sender: chrome.runtime.MessageSender,
+      sendResponse: (response: ReplaceTextResult) => void,
+    ) => {
       if (message.type === MESSAGE_TYPES.TOGGLE_OVERLAY) {
         if (isOpen) {
           closeOverlay();
         } else {
-          openOverlay();
+          void handleRunOnOpen().then((handled) => {
+            if (!handled) openOverlay();
+          });
         }
+      } else if (message.type === MESSAGE_TYPES.INSERT_TEXT) {
+        // Popup history "Insert": over the page selection if there is one,
+        // otherwise replacing the composer's contents.
+        const inserted = insertIntoComposer(
+          detectPlatform(),
+          message.text,
+          captureSelection(),
+        );
+        sendResponse(
+          inserted
+            ? { success: true }
+            : { success: false, error: "No prompt box found on this page" },
+        );
       }
     };
 
@@ -179,7 +236,7 @@ function PromptTunerOverlay() {
     return () => {
       chrome.runtime.onMessage.removeListener(handleMessage);
     };
-  }, [isOpen, openOverlay, closeOverlay]);
+  }, [isOpen, openOverlay, closeOverlay, handleRunOnOpen]);
 
   // ---------------------------------------------------------------------------
   // SW Liveness: Keep background service worker alive while overlay is open
@@ -217,23 +274,14 @@ function PromptTunerOverlay() {
   // ===========================================================================
   // Smart Lifecycle Management
   // ===========================================================================
+  // Sessions live in the background, which releases them after the idle
+  // period chosen in the popup - across all tabs, not per tab. Returning to a
+  // tab that has already shown interest re-warms them.
 
   useEffect(() => {
-    let shutdownTimeout: NodeJS.Timeout | null = null;
-    const GRACE_PERIOD_MS = 10000; // 10s grace period for re-entry
-
     const handleVisibilityChange = () => {
-      if (document.visibilityState === "hidden") {
-        // Start grace period before shutdown
-        shutdownTimeout = setTimeout(() => {
-          shutdown();
-        }, GRACE_PERIOD_MS);
-      } else {
-        // Cancel shutdown if user returns within grace period
-        if (shutdownTimeout) {
-          clearTimeout(shutdownTimeout);
-          shutdownTimeout = null;
-        }
+      if (document.visibilityState === "visible" && hasWarmedRef.current) {
+        requestWarmup();
       }
     };
 
@@ -241,7 +289,6 @@ function PromptTunerOverlay() {
 
     return () => {
       document.removeEventListener("visibilitychange", handleVisibilityChange);
-      if (shutdownTimeout) clearTimeout(shutdownTimeout);
     };
   }, []);
 
@@ -249,7 +296,11 @@ function PromptTunerOverlay() {
     <TooltipPrimitive.Provider delayDuration={600}>
       <div id={WIDGET_IDS.OVERLAY_CONTAINER}>
         <Toaster />
-        <SelectionTrigger onOpen={openOverlay} />
+        <SelectionTrigger
+          onOpen={() => {
+            openOverlay();
+          }}
+        />
         <DialogPrimitive.Root
           open={isOpen}
           onOpenChange={(open) => {
@@ -291,7 +342,11 @@ function PromptTunerOverlay() {
                   >
                     <ErrorBoundary>
                       <div className="flex h-full w-full flex-col overflow-hidden">
-                        <CommandPaletteContent onClose={closeOverlay} />
+                        <CommandPaletteContent
+                          onClose={closeOverlay}
+                          selection={selection}
+                          initialActionId={initialActionId}
+                        />
                       </div>
                     </ErrorBoundary>
                   </div>
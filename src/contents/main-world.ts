@@ -0,0 +1,21 @@
+import type { PlasmoCSConfig } from "plasmo";
+import { installMainWorldBridge } from "~lib/main-world-bridge";
+
+/**
+ * Main World content script - answers REPLACE_TEXT requests from the overlay
+ * using the host editor's own APIs. Runs at document_start so the handshake
+ * is answerable before the overlay's first insert.
+ */
+export const config: PlasmoCSConfig = {
+  matches: [
+    "https://chat.openai.com/*",
+    "https://chatgpt.com/*",
+    "https://claude.ai/*",
+    "https://bard.google.com/*",
+    "https://gemini.google.com/*",
+  ],
+  world: "MAIN",
+  run_at: "document_start",
+};
+
+installMainWorldBridge();
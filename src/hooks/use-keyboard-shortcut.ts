@@ -6,11 +6,12 @@ import { useEffect } from "react";
  * Supports modifier keys: Mod (Cmd on Mac, Ctrl elsewhere), Meta, Ctrl, Shift, Alt.
  *
  * @param keyCombo - Key combination string, e.g. "Mod+Shift+K"
- * @param callback - Function to invoke when the shortcut fires
+ * @param callback - Function to invoke when the shortcut fires. Returning
+ *   `false` leaves the key press to the page.
  */
 export function useKeyboardShortcut(
   keyCombo: string,
-  callback: () => void,
+  callback: () => unknown,
 ): void {
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -53,8 +54,7 @@ export function useKeyboardShortcut(
         altMatch &&
         keyMatch
       ) {
-        event.preventDefault();
-        callback();
+        if (callback() !== false) event.preventDefault();
       }
     };
 
@@ -1,4 +1,16 @@
 import {
+  type ActionEngine,
+  type ActionPattern,
+  type CustomActionDefinition,
+  type RecipeDefinition,
+} from "~types";
+
+import { STORAGE_KEYS } from "~lib/constants";
+import { logger } from "~lib/logger";
+import { storage } from "~lib/storage";
+import {
+  FlowArrow,
+  PencilSimple,
   Sparkle,
   Lightning,
   TreeStructure,
@@ -19,9 +31,24 @@ export interface Action {
   keywords: string[];
   type: "primary" | "secondary";
   /** Which Chrome AI API to route through. Defaults to "prompt". */
-  engine?: "prompt" | "writer" | "rewriter";
+  engine?: ActionEngine;
   /** Decomposition pattern to use. Defaults to "single". */
-  pattern?: "single" | "refine" | "recursive";
+  pattern?: ActionPattern;
+  /**
+   * Rule tags relevant to this action. Rules carrying one of these tags (plus
+   * the foundational structure/clarity rules) are sent to the model; when
+   * absent, every platform rule is sent.
+   */
+  ruleTags?: string[];
+  /** Instruction template sent with the draft (custom actions only) */
+  instruction?: string;
+  /** True for user-defined actions loaded from storage */
+  custom?: boolean;
+  /**
+   * Action IDs run in order, each fed the previous output (recipes only).
+   * A recipe's own engine/pattern/rule fields are unused.
+   */
+  steps?: string[];
 }
 
 /**
@@ -53,6 +80,7 @@ export const ACTIONS: Action[] = [
     type: "secondary",
     engine: "writer",
     pattern: "single",
+    ruleTags: ["examples", "few-shot", "demonstration"],
   },
   {
     id: "chain-of-thought",
@@ -63,6 +91,7 @@ export const ACTIONS: Action[] = [
     type: "secondary",
     engine: "prompt",
     pattern: "recursive",
+    ruleTags: ["reasoning", "chain-of-thought", "steps"],
   },
   {
     id: "assign-role",
@@ -73,6 +102,7 @@ export const ACTIONS: Action[] = [
     type: "secondary",
     engine: "rewriter",
     pattern: "single",
+    ruleTags: ["persona", "role", "context"],
   },
   {
     id: "define-output",
@@ -83,6 +113,7 @@ export const ACTIONS: Action[] = [
     type: "secondary",
     engine: "prompt",
     pattern: "single",
+    ruleTags: ["format", "output", "structure"],
   },
   {
     id: "add-constraints",
@@ -93,6 +124,7 @@ export const ACTIONS: Action[] = [
     type: "secondary",
     engine: "rewriter",
     pattern: "single",
+    ruleTags: ["length", "detail", "constraints", "instructions"],
   },
   {
     id: "break-down",
@@ -103,9 +135,227 @@ export const ACTIONS: Action[] = [
     type: "secondary" as const,
     engine: "prompt",
     pattern: "recursive",
+    ruleTags: ["decomposition", "steps", "structure", "complex-tasks"],
   },
 ];
 
+// =============================================================================
+// Custom Actions
+// =============================================================================
+
+/** ID prefix that keeps user-defined actions clear of built-in IDs */
+export const CUSTOM_ACTION_PREFIX = "custom-";
+
+const ENGINES: readonly ActionEngine[] = ["prompt", "writer", "rewriter"];
+const PATTERNS: readonly ActionPattern[] = ["single", "refine", "recursive"];
+
+let customActions: Action[] = [];
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Validates raw storage contents, dropping malformed entries. Unknown engines
+ * and patterns fall back to the same defaults the built-ins use.
+ */
+export function parseCustomActions(raw: unknown): CustomActionDefinition[] {
+  if (!Array.isArray(raw)) return [];
+
+  const definitions: CustomActionDefinition[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const record = entry as Record<string, unknown>;
+    if (
+      typeof record.id !== "string" ||
+      !record.id.startsWith(CUSTOM_ACTION_PREFIX) ||
+      typeof record.label !== "string" ||
+      !record.label.trim() ||
+      typeof record.instruction !== "string" ||
+      !record.instruction.trim()
+    ) {
+      continue;
+    }
+    definitions.push({
+      id: record.id,
+      label: record.label.trim(),
+      description:
+        typeof record.description === "string" && record.description.trim()
+          ? record.description.trim()
+          : undefined,
+      keywords: stringList(record.keywords),
+      instruction: record.instruction,
+      engine: ENGINES.includes(record.engine as ActionEngine)
+        ? (record.engine as ActionEngine)
+        : "prompt",
+      pattern: PATTERNS.includes(record.pattern as ActionPattern)
+        ? (record.pattern as ActionPattern)
+        : "single",
+      ruleTags: stringList(record.ruleTags),
+    });
+  }
+  return definitions;
+}
+
+function toAction(definition: CustomActionDefinition): Action {
+  return {
+    id: definition.id,
+    label: definition.label,
+    icon: PencilSimple,
+    description: definition.description ?? "Custom action",
+    keywords: definition.keywords,
+    type: "secondary",
+    engine: definition.engine,
+    pattern: definition.pattern,
+    ruleTags: definition.ruleTags.length > 0 ? definition.ruleTags : undefined,
+    instruction: definition.instruction,
+    custom: true,
+  };
+}
+
+/** Replaces the in-memory custom actions merged into the registry */
+export function setCustomActions(definitions: CustomActionDefinition[]): void {
+  customActions = definitions.map(toAction);
+}
+
+/**
+ * Reads custom actions from storage and merges them into the registry.
+ * Callers in a fresh context (service worker, content script) must await this
+ * before resolving custom IDs.
+ */
+export async function loadCustomActions(): Promise<CustomActionDefinition[]> {
+  try {
+    const result = await storage.get(STORAGE_KEYS.CUSTOM_ACTIONS);
+    const definitions = parseCustomActions(result[STORAGE_KEYS.CUSTOM_ACTIONS]);
+    setCustomActions(definitions);
+    return definitions;
+  } catch (error) {
+    logger.warn("Failed to load custom actions:", error);
+    return [];
+  }
+}
+
+/** Persists custom actions and merges them into the registry */
+export async function saveCustomActions(
+  definitions: CustomActionDefinition[],
+): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.CUSTOM_ACTIONS]: definitions });
+  setCustomActions(definitions);
+}
+
+// =============================================================================
+// Recipes
+// =============================================================================
+
+/** ID prefix for saved recipes */
+export const RECIPE_PREFIX = "recipe-";
+
+let recipes: Action[] = [];
+
+/**
+ * Validates raw storage contents. Steps that point at other recipes are
+ * dropped (no nesting), as are recipes left without any steps.
+ */
+export function parseRecipes(raw: unknown): RecipeDefinition[] {
+  if (!Array.isArray(raw)) return [];
+
+  const definitions: RecipeDefinition[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const record = entry as Record<string, unknown>;
+    const steps = stringList(record.steps).filter(
+      (id) => !id.startsWith(RECIPE_PREFIX),
+    );
+    if (
+      typeof record.id !== "string" ||
+      !record.id.startsWith(RECIPE_PREFIX) ||
+      typeof record.label !== "string" ||
+      !record.label.trim() ||
+      steps.length === 0
+    ) {
+      continue;
+    }
+    definitions.push({
+      id: record.id,
+      label: record.label.trim(),
+      description:
+        typeof record.description === "string" && record.description.trim()
+          ? record.description.trim()
+          : undefined,
+      keywords: stringList(record.keywords),
+      steps,
+    });
+  }
+  return definitions;
+}
+
+function recipeToAction(definition: RecipeDefinition): Action {
+  const labels = definition.steps.map((id) => getActionLabel(id));
+  return {
+    id: definition.id,
+    label: definition.label,
+    icon: FlowArrow,
+    description: definition.description ?? labels.join(" → "),
+    keywords: definition.keywords,
+    type: "secondary",
+    custom: true,
+    steps: definition.steps,
+  };
+}
+
+/** Replaces the in-memory recipes merged into the registry */
+export function setRecipes(definitions: RecipeDefinition[]): void {
+  recipes = definitions.map(recipeToAction);
+}
+
+/** Reads recipes from storage and merges them into the registry */
+export async function loadRecipes(): Promise<RecipeDefinition[]> {
+  try {
+    const result = await storage.get(STORAGE_KEYS.RECIPES);
+    const definitions = parseRecipes(result[STORAGE_KEYS.RECIPES]);
+    setRecipes(definitions);
+    return definitions;
+  } catch (error) {
+    logger.warn("Failed to load recipes:", error);
+    return [];
+  }
+}
+
+/** Persists recipes and merges them into the registry */
+export async function saveRecipes(
+  definitions: RecipeDefinition[],
+): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.RECIPES]: definitions });
+  setRecipes(definitions);
+}
+
+/**
+ * Loads everything user-defined - custom actions first, since recipe
+ * descriptions are built from their step labels.
+ */
+export async function loadUserActions(): Promise<void> {
+  await loadCustomActions();
+  await loadRecipes();
+}
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+/** Built-in actions, then custom actions, then recipes */
+export function getAllActions(): Action[] {
+  return [...ACTIONS, ...customActions, ...recipes];
+}
+
 export function getActionById(id: string): Action | undefined {
-  return ACTIONS.find((a) => a.id === id);
+  return getAllActions().find((a) => a.id === id);
+}
+
+/** Display label for an action ID, falling back to the ID for unknown ones */
+export function getActionLabel(id: string): string {
+  return getActionById(id)?.label ?? id;
 }
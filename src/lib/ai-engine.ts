@@ -4,17 +4,33 @@
  * Uses the Chrome 138+ stable LanguageModel API for local prompt optimization.
  * All processing happens on-device for complete privacy.
  *
+ * Sessions come from the active model backend (`~lib/model-backend`): Nano by
+ * default, or an OpenAI-compatible server on localhost. Every pipeline below
+ * only talks to `ModelSession`, so they run unchanged on either.
+ *
  * @see https://developer.chrome.com/docs/extensions/ai/prompt-api
  */
 
-import { type AIOptimizeOptions, PromptTunerError } from "~types";
+import {
+  type AIAvailability,
+  type AIOptimizeOptions,
+  type BackendSettings,
+  type ProgressUpdate,
+  type PromptTemplateTexts,
+  PromptTunerError,
+} from "~types";
 
 import { logger } from "~lib/logger";
 import { fnv1a32 } from "~lib/hash";
+import { MAX_VARIANTS } from "~lib/constants";
 import {
-  checkAIAvailability,
-  isLanguageModelAvailable,
-} from "~lib/ai-availability";
+  type ModelBackend,
+  type ModelSession,
+  DEFAULT_BACKEND_SETTINGS,
+  createBackend,
+} from "~lib/model-backend";
+import { createOutputSanitizer, sanitizeOutput } from "~lib/output-sanitizer";
+import { renderTemplate, templateText } from "~lib/prompt-templates";
 
 export {
   checkAIAvailability,
@@ -28,47 +44,97 @@ export {
  */
 const MAX_INPUT_TOKENS = 4096;
 
+// =============================================================================
+// Backend
+// =============================================================================
+
+let backend: ModelBackend = createBackend(DEFAULT_BACKEND_SETTINGS);
+let backendKey = JSON.stringify(DEFAULT_BACKEND_SETTINGS);
+
 /**
- * Base system prompt - generic checklist + output contract, platform rules
- * appended per-clone via `session.append()`. Keeping the base prompt generic
- * lets us reuse the warmed KV-cache across rule sets.
+ * Switches the engine to the backend `settings` select. A no-op when nothing
+ * changed; otherwise the cached sessions (which belong to the old backend)
+ * are released.
  */
-const BASE_SYSTEM_PROMPT = `You are an expert prompt engineer. Improve the user's prompt by applying only the relevant items from this checklist:
+export function selectBackend(settings: BackendSettings): void {
+  const key = JSON.stringify(settings);
+  if (key === backendKey) return;
+  clearSessionCache();
+  backend = createBackend(settings);
+  backendKey = key;
+  appendSupported = null;
+  logger.info(`AI Engine now using ${backend.label}`);
+}
 
-Improvement Checklist:
-- Specify the task clearly (who, what, for whom)
-- Add missing context the model needs
-- Define the desired output format if absent
-- Set appropriate tone and style
-- Remove ambiguity and vague language
-- Add constraints or boundaries if missing
-- Structure with clear sections if multi-part
+export function getBackend(): ModelBackend {
+  return backend;
+}
 
-Instructions:
-1. Analyze the original prompt
-2. Apply only the checklist items that are relevant - do NOT pad or over-engineer
-3. Maintain the user's original intent and voice
-4. Keep improvements proportional to the input length
+/** Availability of the active backend */
+export function checkBackendAvailability(): Promise<AIAvailability> {
+  return backend.availability();
+}
 
-CRITICAL: Return ONLY the improved prompt. No preamble, no commentary, no surrounding tags or quotes.`;
+async function requireAvailable(): Promise<void> {
+  const availability = await backend.availability();
+  if (!availability.available) {
+    throw new PromptTunerError(
+      availability.reason ?? "AI not available",
+      "AI_UNAVAILABLE",
+    );
+  }
+}
+
+function inputTooLong(tokens: number): PromptTunerError {
+  return new PromptTunerError(
+    `Input too long (${String(tokens)} tokens). ${backend.label} is limited to local context. Please shorten your prompt.`,
+    "INPUT_TOO_LONG",
+  );
+}
 
 // =============================================================================
 // Session Cache - clone pool
 // =============================================================================
 
-let baseSession: LanguageModel | null = null;
-const clonePool = new Map<string, LanguageModel>();
+/**
+ * The pool holds rule-primed *templates* that are never prompted directly.
+ * Each optimization clones its template and destroys the clone afterwards,
+ * so no draft or critique outlives its own request.
+ *
+ * Templates are evicted least-recently-used once the pool exceeds either
+ * bound. Nano's KV-cache grows with the tokens a session holds, so the memory
+ * budget is expressed in context tokens.
+ */
+const CLONE_POOL_MAX_TEMPLATES = 8;
+const CLONE_POOL_TOKEN_BUDGET = 24_000;
+
+interface PooledTemplate {
+  session: ModelSession;
+  /** Context tokens the template holds (its share of the budget) */
+  tokens: number;
+}
+
+let baseSession: ModelSession | null = null;
+/** The system prompt `baseSession` was created with */
+let baseSystemPrompt = "";
+const clonePool = new Map<string, PooledTemplate>();
 
 /** Tracks whether `append()` worked at least once. If never, we assume the
  * current Chrome build doesn't support it and switch to a per-rule-set
  * recreate strategy (still caching by rules key). */
 let appendSupported: boolean | null = null;
 
-function hashRules(rules: string[]): string {
-  return fnv1a32(rules.join("|"));
+/** Pool key of the template for `rules` under `systemPrompt` */
+function templateKey(rules: string[], systemPrompt: string): string {
+  return fnv1a32(`${systemPrompt}\x1f${rules.join("|")}`);
+}
+
+/** The system prompt a request runs with - the user's override, if any */
+function systemPromptFor(options?: AIOptimizeOptions): string {
+  return templateText("system", options?.templates);
 }
 
-function safeDestroy(session: LanguageModel | null): void {
+function safeDestroy(session: ModelSession | null): void {
   if (!session) return;
   try {
     session.destroy();
@@ -83,10 +149,44 @@ function safeDestroy(session: LanguageModel | null): void {
 export function clearSessionCache(): void {
   safeDestroy(baseSession);
   baseSession = null;
-  for (const s of clonePool.values()) safeDestroy(s);
+  for (const { session } of clonePool.values()) safeDestroy(session);
   clonePool.clear();
 }
 
+function poolTokens(): number {
+  let total = 0;
+  for (const { tokens } of clonePool.values()) total += tokens;
+  return total;
+}
+
+/**
+ * Adds a template as the most recently used entry, then evicts from the
+ * least recently used end until the pool fits. The new entry always stays.
+ */
+function poolTemplate(key: string, template: PooledTemplate): void {
+  clonePool.delete(key);
+  clonePool.set(key, template);
+  for (const [oldKey, entry] of clonePool) {
+    if (
+      clonePool.size <= CLONE_POOL_MAX_TEMPLATES &&
+      poolTokens() <= CLONE_POOL_TOKEN_BUDGET
+    ) {
+      break;
+    }
+    if (oldKey === key) break;
+    clonePool.delete(oldKey);
+    safeDestroy(entry.session);
+  }
+}
+
+/** Drops one template, e.g. after it failed to clone */
+function evictTemplate(key: string): void {
+  const entry = clonePool.get(key);
+  if (!entry) return;
+  clonePool.delete(key);
+  safeDestroy(entry.session);
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -94,7 +194,7 @@ export function clearSessionCache(): void {
 /**
  * Reads the session's reported input quota (Chrome 138+) with a safe fallback.
  */
-function resolveInputLimit(session: LanguageModel): number {
+function resolveInputLimit(session: ModelSession): number {
   return typeof session.inputQuota === "number" && session.inputQuota > 0
     ? session.inputQuota
     : MAX_INPUT_TOKENS;
@@ -104,7 +204,7 @@ function resolveInputLimit(session: LanguageModel): number {
  * Uses the session's native token counter when available; returns 0 otherwise.
  */
 async function measureTokens(
-  session: LanguageModel,
+  session: ModelSession,
   input: string,
 ): Promise<number> {
   try {
@@ -129,24 +229,59 @@ function formatRulesForPrompt(rules: string[]): string {
   return rules.map((rule, index) => `${String(index + 1)}. ${rule}`).join("\n");
 }
 
+/** Marks where the draft goes inside a custom action's instruction */
+const PROMPT_PLACEHOLDER = "{{prompt}}";
+
 /**
- * Legacy fallback used when the model prepends conversational framing.
- * The responseConstraint / "return only the improved prompt" instruction
- * is the primary contract; this is a defensive cleanup.
+ * Merges a custom action's instruction with the draft for single-turn paths.
+ * Without an instruction the draft is sent as-is.
  */
-function cleanModelOutput(rawOutput: string): string {
-  const resultMatch = /<result>([\s\S]*?)<\/result>/i.exec(rawOutput);
-  if (resultMatch?.[1]) {
-    return resultMatch[1].trim();
+function applyInstruction(draft: string, options?: AIOptimizeOptions): string {
+  const instruction = options?.instruction?.trim();
+  if (!instruction) return draft;
+  // split/join rather than replace() - the draft may contain `$&` sequences.
+  if (instruction.includes(PROMPT_PLACEHOLDER)) {
+    return instruction.split(PROMPT_PLACEHOLDER).join(draft);
   }
+  return `${instruction}\n\nPrompt:\n${draft}`;
+}
 
-  const cleaned = rawOutput
-    .replace(/^(?:here is|here's|sure,?\s*|okay,?\s*)/i, "")
-    .replace(/^(?:the\s+)?(?:optimized|improved|rewritten)\s+prompt:?\s*/i, "")
-    .replace(/^["']|["']$/g, "")
-    .trim();
+/**
+ * The instruction as a standalone sentence, for multi-turn paths that quote
+ * the draft themselves and for the Writer/Rewriter `context` option.
+ */
+function instructionText(options?: AIOptimizeOptions): string | undefined {
+  const instruction = options?.instruction?.trim();
+  if (!instruction) return undefined;
+  return instruction.split(PROMPT_PLACEHOLDER).join("the prompt");
+}
+
+function instructionNote(options?: AIOptimizeOptions): string {
+  const text = instructionText(options);
+  return text ? `\n\nAdditional instruction: ${text}` : "";
+}
 
-  return cleaned || rawOutput.trim();
+/**
+ * `(done, total)` callback forwarding to `options.onProgress` for `stage`,
+ * with the time since the stage started. Undefined when nobody listens.
+ */
+function progressReporter(
+  options: AIOptimizeOptions | undefined,
+  stage: string,
+  unit: ProgressUpdate["unit"],
+): ((done: number, total: number) => void) | undefined {
+  const onProgress = options?.onProgress;
+  if (!onProgress) return undefined;
+  const startedAt = Date.now();
+  return (current, total) => {
+    onProgress({
+      stage,
+      current,
+      total,
+      unit,
+      elapsedMs: Date.now() - startedAt,
+    });
+  };
 }
 
 // =============================================================================
@@ -154,58 +289,104 @@ function cleanModelOutput(rawOutput: string): string {
 // =============================================================================
 
 async function createBaseSession(
+  systemPrompt: string,
   options?: AIOptimizeOptions,
-): Promise<LanguageModel> {
-  const session = await LanguageModel.create({
-    initialPrompts: [{ role: "system", content: BASE_SYSTEM_PROMPT }],
+): Promise<ModelSession> {
+  const session = await backend.create({
+    systemPrompt,
     temperature: options?.temperature ?? 0.3,
     topK: 40,
-    expectedOutputs: [{ type: "text", languages: ["en"] }],
   });
   return session;
 }
 
+/**
+ * The warm base session. Without options (token measuring) any base will
+ * do; a request whose system prompt differs - an override - replaces it.
+ * Templates already cloned from the old base stay valid.
+ */
 async function getBaseSession(
   options?: AIOptimizeOptions,
-): Promise<LanguageModel> {
-  if (baseSession) return baseSession;
-  baseSession = await createBaseSession(options);
+): Promise<ModelSession> {
+  const systemPrompt = systemPromptFor(options);
+  if (baseSession && (!options || baseSystemPrompt === systemPrompt)) {
+    return baseSession;
+  }
+  safeDestroy(baseSession);
+  baseSession = null;
+  baseSession = await createBaseSession(systemPrompt, options);
+  baseSystemPrompt = systemPrompt;
   return baseSession;
 }
 
+/** A standalone session with the rules folded into the system prompt */
+async function createCombinedSession(
+  rules: string[],
+  temperature: number,
+  systemPrompt: string,
+): Promise<ModelSession> {
+  const combined = `${systemPrompt}\n\nPlatform-specific rules:\n${formatRulesForPrompt(rules)}`;
+  return backend.create({
+    systemPrompt: combined,
+    temperature,
+    topK: 40,
+  });
+}
+
+/** Tokens a freshly primed template holds, estimated when unreported */
+function templateTokens(
+  session: ModelSession,
+  rules: string[],
+  systemPrompt: string,
+): number {
+  if (typeof session.inputUsage === "number" && session.inputUsage > 0) {
+    return session.inputUsage;
+  }
+  return Math.ceil(
+    (systemPrompt.length + formatRulesForPrompt(rules).length) / 4,
+  );
+}
+
 /**
- * Find-or-clone: returns a session primed with the given rules. Clones the
- * warm base session (fast on Chrome with copy-on-write KV-cache) and appends
- * the rule set as a user-turn context. If `append()` is unsupported on the
- * current build, falls back to creating a full session with a combined
- * system prompt.
+ * Find-or-create: returns the pooled template primed with the given rules.
+ * Clones the warm base session (fast on Chrome with copy-on-write KV-cache)
+ * and appends the rule set as a user-turn context. If `append()` is
+ * unsupported on the current build, falls back to creating a full session
+ * with a combined system prompt.
+ *
+ * Templates must not be prompted - use `getSessionForRules` for a clone.
  */
-async function getSessionForRules(
+async function getTemplateForRules(
   rules: string[],
   options?: AIOptimizeOptions,
-): Promise<LanguageModel> {
-  if (!isLanguageModelAvailable()) {
+): Promise<ModelSession> {
+  if (!backend.isSupported()) {
     throw new PromptTunerError(
-      "LanguageModel API not available. Requires Chrome 138+ with Gemini Nano enabled",
+      `${backend.label} is not available in this browser`,
       "AI_UNAVAILABLE",
     );
   }
 
-  const key = hashRules(rules);
+  const systemPrompt = systemPromptFor(options);
+  const key = templateKey(rules, systemPrompt);
   const cached = clonePool.get(key);
-  if (cached) return cached;
+  if (cached) {
+    poolTemplate(key, cached);
+    return cached.session;
+  }
 
   // Fallback path: append() previously failed. Create a fresh session with
   // the rules folded into the system prompt.
   if (appendSupported === false) {
-    const combined = `${BASE_SYSTEM_PROMPT}\n\nPlatform-specific rules:\n${formatRulesForPrompt(rules)}`;
-    const session = await LanguageModel.create({
-      initialPrompts: [{ role: "system", content: combined }],
-      temperature: options?.temperature ?? 0.3,
-      topK: 40,
-      expectedOutputs: [{ type: "text", languages: ["en"] }],
+    const session = await createCombinedSession(
+      rules,
+      options?.temperature ?? 0.3,
+      systemPrompt,
+    );
+    poolTemplate(key, {
+      session,
+      tokens: templateTokens(session, rules, systemPrompt),
     });
-    clonePool.set(key, session);
     return session;
   }
 
@@ -221,7 +402,10 @@ async function getSessionForRules(
       ]);
     }
     appendSupported = true;
-    clonePool.set(key, clone);
+    poolTemplate(key, {
+      session: clone,
+      tokens: templateTokens(clone, rules, systemPrompt),
+    });
     return clone;
   } catch (error) {
     logger.warn(
@@ -229,7 +413,79 @@ async function getSessionForRules(
       error,
     );
     appendSupported = false;
-    return getSessionForRules(rules, options);
+    return getTemplateForRules(rules, options);
+  }
+}
+
+/**
+ * A fresh, request-scoped session primed with the given rules - a clone of
+ * the pooled template. The caller owns it and must destroy it when done (see
+ * `withSession`). If the template won't clone, it is evicted and a standalone
+ * session is created for this request instead.
+ */
+async function getSessionForRules(
+  rules: string[],
+  options?: AIOptimizeOptions,
+): Promise<ModelSession> {
+  const template = await getTemplateForRules(rules, options);
+  try {
+    return await template.clone();
+  } catch (error) {
+    logger.warn("Template clone failed - using a standalone session", error);
+    const systemPrompt = systemPromptFor(options);
+    evictTemplate(templateKey(rules, systemPrompt));
+    return createCombinedSession(
+      rules,
+      options?.temperature ?? 0.3,
+      systemPrompt,
+    );
+  }
+}
+
+/**
+ * Runs `run` on a request-scoped session and destroys it afterwards.
+ *
+ * If the session fires `quotaoverflow` - the model dropped its oldest turns,
+ * which hold the rules and the draft - the request is stopped and reported
+ * as INPUT_TOO_LONG rather than returning output built on lost context.
+ * `run` receives a signal that fires on overflow as well as on cancel.
+ */
+async function withSession<T>(
+  rules: string[],
+  options: AIOptimizeOptions | undefined,
+  run: (session: ModelSession, signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const session = await getSessionForRules(rules, options);
+  const controller = new AbortController();
+  const forwardAbort = (): void => {
+    controller.abort(options?.signal?.reason);
+  };
+  if (options?.signal?.aborted) forwardAbort();
+  options?.signal?.addEventListener("abort", forwardAbort, { once: true });
+
+  const overflow = { fired: false };
+  session.onquotaoverflow = () => {
+    logger.warn("Session context overflowed - stopping the request");
+    overflow.fired = true;
+    controller.abort();
+  };
+
+  const overflowError = (): PromptTunerError =>
+    new PromptTunerError(
+      `The prompt outgrew ${backend.label}'s context while it was being rewritten. Please shorten your prompt.`,
+      "INPUT_TOO_LONG",
+    );
+
+  try {
+    const result = await run(session, controller.signal);
+    if (overflow.fired) throw overflowError();
+    return result;
+  } catch (error) {
+    if (overflow.fired) throw overflowError();
+    throw error;
+  } finally {
+    options?.signal?.removeEventListener("abort", forwardAbort);
+    safeDestroy(session);
   }
 }
 
@@ -238,15 +494,20 @@ async function getSessionForRules(
 // =============================================================================
 
 /**
- * Proactively warms up the AI engine by creating a base session (without
- * rules). Per-rule-set clones are created lazily at optimize time.
+ * Proactively warms up the AI engine: creates the base session and the
+ * pooled template for `rules` (under the overridden system prompt, if
+ * `templates` has one), so the next request with that rule set only pays
+ * for a clone.
  */
-export async function warmup(_rules: string[]): Promise<void> {
+export async function warmup(
+  rules: string[],
+  templates?: PromptTemplateTexts,
+): Promise<void> {
   try {
-    const status = await checkAIAvailability();
+    const status = await backend.availability();
     if (!status.available) return;
 
-    await getBaseSession();
+    await getTemplateForRules(rules, { templates });
     logger.info("AI Engine warmed up successfully");
   } catch (error) {
     logger.warn("AI Engine warmup failed (non-critical):", error);
@@ -265,15 +526,19 @@ export function isWarmed(): boolean {
 }
 
 /**
- * RAF-batching stream reader - forwards delta tokens to onChunk while
- * amortising high-frequency bursts over animation frames. Returns the full
- * concatenated string.
+ * RAF-batching stream reader - sanitizes delta tokens as they arrive and
+ * forwards them to onChunk while amortising high-frequency bursts over
+ * animation frames. Returns the full sanitized string, which is exactly what
+ * onChunk was given; an output that sanitizes to nothing throws. Hidden
+ * documents (the offscreen host) get no frames, so they batch on a timer
+ * instead.
  */
 async function streamToChunks(
   stream: ReadableStream<string>,
   onChunk: (chunk: string) => void,
 ): Promise<string> {
   const reader = stream.getReader();
+  const sanitizer = createOutputSanitizer();
   let result = "";
   let buffer = "";
   let isFlushing = false;
@@ -289,7 +554,10 @@ async function streamToChunks(
   const scheduleFlush = (): void => {
     if (isFlushing) return;
     isFlushing = true;
-    if (typeof requestAnimationFrame !== "undefined") {
+    if (
+      typeof requestAnimationFrame !== "undefined" &&
+      document.visibilityState === "visible"
+    ) {
       requestAnimationFrame(flush);
     } else {
       setTimeout(flush, 16);
@@ -301,8 +569,10 @@ async function streamToChunks(
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
-      result += value;
-      buffer += value;
+      const clean = sanitizer.push(value);
+      if (!clean) continue;
+      result += clean;
+      buffer += clean;
       scheduleFlush();
     }
   } catch (readError) {
@@ -312,45 +582,48 @@ async function streamToChunks(
     reader.releaseLock();
   }
 
+  const rest = sanitizer.flush();
+  result += rest;
+  buffer += rest;
   flush();
+  // The model answered with framing only. Falling back to the draft would
+  // finish on text the stream never showed.
+  if (!result) {
+    throw new PromptTunerError(
+      "The model returned no prompt",
+      "AI_GENERATION_FAILED",
+    );
+  }
   return result;
 }
 
 /**
- * Optimizes a prompt using Gemini Nano with the given rules (non-streaming).
+ * Optimizes a prompt using the active backend with the given rules (non-streaming).
  */
 export async function optimizePrompt(
   draft: string,
   rules: string[],
   options?: AIOptimizeOptions,
 ): Promise<string> {
-  const availability = await checkAIAvailability();
-  if (!availability.available) {
-    throw new PromptTunerError(
-      availability.reason ?? "AI not available",
-      "AI_UNAVAILABLE",
-    );
-  }
+  await requireAvailable();
 
   try {
-    const session = await getSessionForRules(rules, options);
+    return await withSession(rules, options, async (session, signal) => {
+      const inputLimit = resolveInputLimit(session);
+      const input = applyInstruction(draft, options);
+      const tokens = await measureTokens(session, input);
 
-    const inputLimit = resolveInputLimit(session);
-    const tokens = await measureTokens(session, draft);
+      if (tokens > inputLimit) {
+        throw inputTooLong(tokens);
+      }
 
-    if (tokens > inputLimit) {
-      throw new PromptTunerError(
-        `Input too long (${String(tokens)} tokens). Gemini Nano is limited to local context. Please shorten your prompt.`,
-        "INPUT_TOO_LONG",
-      );
-    }
+      const optimizedPrompt = await session.prompt(input, {
+        signal: signal,
+      });
+      const cleaned = sanitizeOutput(optimizedPrompt);
 
-    const optimizedPrompt = await session.prompt(draft, {
-      signal: options?.signal,
+      return cleaned || draft;
     });
-    const cleaned = cleanModelOutput(optimizedPrompt);
-
-    return cleaned || draft;
   } catch (error) {
     logger.error("Optimization failed", error);
     if (!isAbortError(error)) {
@@ -376,34 +649,24 @@ export async function optimizePromptStreaming(
   onChunk: (chunk: string) => void,
   options?: AIOptimizeOptions,
 ): Promise<string> {
-  const availability = await checkAIAvailability();
-  if (!availability.available) {
-    throw new PromptTunerError(
-      availability.reason ?? "AI not available",
-      "AI_UNAVAILABLE",
-    );
-  }
+  await requireAvailable();
 
   try {
-    const session = await getSessionForRules(rules, options);
-
-    const inputLimit = resolveInputLimit(session);
-    options?.signal?.throwIfAborted();
+    return await withSession(rules, options, async (session, signal) => {
+      const inputLimit = resolveInputLimit(session);
+      signal.throwIfAborted();
 
-    const tokens = await measureTokens(session, draft);
-    options?.onTokenCount?.(tokens, inputLimit);
+      const input = applyInstruction(draft, options);
+      const tokens = await measureTokens(session, input);
+      options?.onTokenCount?.(tokens, inputLimit);
 
-    if (tokens > inputLimit) {
-      throw new PromptTunerError(
-        `Input too long (${String(tokens)} tokens). Gemini Nano is limited to local context. Please shorten your prompt.`,
-        "INPUT_TOO_LONG",
-      );
-    }
+      if (tokens > inputLimit) {
+        throw inputTooLong(tokens);
+      }
 
-    const stream = session.promptStreaming(draft, { signal: options?.signal });
-    const result = await streamToChunks(stream, onChunk);
-    const cleaned = cleanModelOutput(result);
-    return cleaned || draft;
+      const stream = session.promptStreaming(input, { signal: signal });
+      return await streamToChunks(stream, onChunk);
+    });
   } catch (error) {
     logger.error("Streaming optimization failed", error);
     if (!isAbortError(error)) {
@@ -420,6 +683,96 @@ export async function optimizePromptStreaming(
   }
 }
 
+/**
+ * Sampling temperature per variant candidate, one for each of MAX_VARIANTS.
+ * The first matches the single-shot default; the rest climb so candidates
+ * actually differ.
+ */
+const VARIANT_TEMPERATURES = [0.3, 0.6, 0.8, 1.0];
+
+export interface VariantCallbacks {
+  /** Streamed delta for candidate `index` */
+  onChunk: (index: number, chunk: string) => void;
+  /** Candidate `index` finished with its cleaned text */
+  onComplete?: (index: number, text: string) => void;
+}
+
+/**
+ * N-variants mode: generates `count` candidate rewrites (clamped to 1..4),
+ * each from its own short-lived session at a different temperature.
+ *
+ * Candidates run one after another rather than in parallel - Nano serialises
+ * generation anyway, and concurrent sessions would multiply KV-cache memory.
+ * Each candidate needs its own temperature, which a clone of the pooled
+ * template can't change, so sessions are created with the rules folded into
+ * the system prompt and destroyed afterwards.
+ */
+export async function optimizeVariants(
+  draft: string,
+  rules: string[],
+  count: number,
+  callbacks: VariantCallbacks,
+  options?: AIOptimizeOptions,
+): Promise<string[]> {
+  await requireAvailable();
+  if (!backend.isSupported()) {
+    throw new PromptTunerError(
+      `${backend.label} is not available in this browser`,
+      "AI_UNAVAILABLE",
+    );
+  }
+
+  const temperatures = VARIANT_TEMPERATURES.slice(
+    0,
+    Math.min(Math.max(1, Math.floor(count)), MAX_VARIANTS),
+  );
+  const input = applyInstruction(draft, options);
+  const candidates: string[] = [];
+
+  try {
+    for (const [index, temperature] of temperatures.entries()) {
+      options?.signal?.throwIfAborted();
+      const session = await createCombinedSession(
+        rules,
+        temperature,
+        systemPromptFor(options),
+      );
+      try {
+        if (index === 0) {
+          const inputLimit = resolveInputLimit(session);
+          const tokens = await measureTokens(session, input);
+          options?.onTokenCount?.(tokens, inputLimit);
+          if (tokens > inputLimit) {
+            throw inputTooLong(tokens);
+          }
+        }
+
+        const stream = session.promptStreaming(input, {
+          signal: options?.signal,
+        });
+        const text = await streamToChunks(stream, (chunk) => {
+          callbacks.onChunk(index, chunk);
+        });
+        candidates.push(text);
+        callbacks.onComplete?.(index, text);
+      } finally {
+        safeDestroy(session);
+      }
+    }
+    return candidates;
+  } catch (error) {
+    logger.error("Variant generation failed", error);
+    if (error instanceof PromptTunerError || isAbortError(error)) throw error;
+
+    throw new PromptTunerError(
+      error instanceof Error
+        ? error.message
+        : "Failed to generate prompt variants",
+      "AI_GENERATION_FAILED",
+    );
+  }
+}
+
 /**
  * Refine chain (Draft → Critique-silently → Polish).
  *
@@ -434,48 +787,45 @@ export async function optimizeWithRefineChain(
   onChunk: (chunk: string) => void,
   options?: AIOptimizeOptions,
 ): Promise<string> {
-  const availability = await checkAIAvailability();
-  if (!availability.available) {
-    throw new PromptTunerError(
-      availability.reason ?? "AI not available",
-      "AI_UNAVAILABLE",
-    );
-  }
+  await requireAvailable();
 
   try {
-    const session = await getSessionForRules(rules, options);
+    return await withSession(rules, options, async (session, signal) => {
+      const inputLimit = resolveInputLimit(session);
+      signal.throwIfAborted();
 
-    const inputLimit = resolveInputLimit(session);
-    options?.signal?.throwIfAborted();
+      const tokens = await measureTokens(session, draft);
+      options?.onTokenCount?.(tokens, inputLimit);
 
-    const tokens = await measureTokens(session, draft);
-    options?.onTokenCount?.(tokens, inputLimit);
+      if (tokens > inputLimit) {
+        throw inputTooLong(tokens);
+      }
 
-    if (tokens > inputLimit) {
-      throw new PromptTunerError(
-        `Input too long (${String(tokens)} tokens). Gemini Nano is limited to local context. Please shorten your prompt.`,
-        "INPUT_TOO_LONG",
+      // Stage 1: critique (silent)
+      options?.onStage?.("critiquing");
+      signal.throwIfAborted();
+      const critiquePrompt = renderTemplate(
+        "critique",
+        { prompt: draft, instruction: instructionNote(options) },
+        options?.templates,
       );
-    }
-
-    // Stage 1: critique (silent)
-    options?.onStage?.("critiquing");
-    options?.signal?.throwIfAborted();
-    const critiquePrompt = `Here's a prompt: ${draft}\n\nList 2-3 concrete improvements that would help most. Be brief.`;
-    const critique = await session.prompt(critiquePrompt, {
-      signal: options?.signal,
-    });
+      const critique = await session.prompt(critiquePrompt, {
+        signal: signal,
+      });
 
-    // Stage 2: polish (streamed)
-    options?.onStage?.("polishing");
-    options?.signal?.throwIfAborted();
-    const polishPrompt = `Improvements to apply:\n${critique}\n\nApply those improvements to the original prompt. Return ONLY the improved prompt, no preamble.`;
-    const stream = session.promptStreaming(polishPrompt, {
-      signal: options?.signal,
+      // Stage 2: polish (streamed)
+      options?.onStage?.("polishing");
+      signal.throwIfAborted();
+      const polishPrompt = renderTemplate(
+        "polish",
+        { critique, instruction: instructionNote(options) },
+        options?.templates,
+      );
+      const stream = session.promptStreaming(polishPrompt, {
+        signal: signal,
+      });
+      return await streamToChunks(stream, onChunk);
     });
-    const result = await streamToChunks(stream, onChunk);
-    const cleaned = cleanModelOutput(result);
-    return cleaned || draft;
   } catch (error) {
     logger.error("Refine-chain optimization failed", error);
     if (!isAbortError(error)) {
@@ -497,7 +847,7 @@ export async function optimizeWithRefineChain(
  * `inputQuota` when available; falls back to MAX_INPUT_TOKENS otherwise.
  */
 export async function resolveContextLimit(): Promise<number> {
-  if (!isLanguageModelAvailable()) return MAX_INPUT_TOKENS;
+  if (!backend.isSupported()) return MAX_INPUT_TOKENS;
   try {
     const session = await getBaseSession();
     return resolveInputLimit(session);
@@ -512,7 +862,7 @@ export async function resolveContextLimit(): Promise<number> {
  * non-Chrome environments). Returns 0 on measurement failure.
  */
 export async function measureDraft(draft: string): Promise<number> {
-  if (!isLanguageModelAvailable()) return Math.ceil(draft.length / 4);
+  if (!backend.isSupported()) return Math.ceil(draft.length / 4);
   try {
     const session = await getBaseSession();
     const tokens = await measureTokens(session, draft);
@@ -526,72 +876,133 @@ export async function measureDraft(draft: string): Promise<number> {
 // Phase 3 - Map-Reduce for long inputs
 // =============================================================================
 
-import {
-  chunkByParagraphs,
-  mapReduce,
-  recursiveDecompose,
-} from "~lib/decompose";
+import { chunkByStructure } from "~lib/chunker";
+import { mapReduce, recursiveDecompose, tuneConcurrency } from "~lib/decompose";
 
 const MAP_CHUNK_HEADROOM = 0.35; // chunk cap = headroom × inputQuota
 
+/**
+ * Sections are mapped in parallel, each worker on its own clone of the
+ * rule-primed session - a shared session would serialize the calls inside
+ * the Prompt API and leak one section's context into the next. A worker
+ * holds the rules, a section and its rewrite; workers are added while they
+ * fit the token budget (on top of the clone pool's) and shorten the run.
+ */
+const MAP_MAX_WORKERS = 4;
+const MAP_WORKER_TOKEN_BUDGET = 12_000;
+
+/** Destroys the sessions of `clones` that were created */
+async function destroyClones(
+  clones: Iterable<Promise<ModelSession>>,
+): Promise<void> {
+  for (const result of await Promise.allSettled(clones)) {
+    if (result.status === "fulfilled") safeDestroy(result.value);
+  }
+}
+
 export async function optimizeWithMapReduce(
   draft: string,
   rules: string[],
   onChunk: (chunk: string) => void,
   options?: AIOptimizeOptions,
 ): Promise<string> {
-  const availability = await checkAIAvailability();
-  if (!availability.available) {
-    throw new PromptTunerError(
-      availability.reason ?? "AI not available",
-      "AI_UNAVAILABLE",
-    );
-  }
+  await requireAvailable();
 
   try {
-    const session = await getSessionForRules(rules, options);
-    const inputLimit = resolveInputLimit(session);
-    options?.signal?.throwIfAborted();
-
-    const chunkCap = Math.max(256, Math.floor(inputLimit * MAP_CHUNK_HEADROOM));
-    const measure = (s: string): Promise<number> => measureTokens(session, s);
+    return await withSession(rules, options, async (session, signal) => {
+      const inputLimit = resolveInputLimit(session);
+      signal.throwIfAborted();
 
-    options?.onStage?.("chunking");
-    const chunks = await chunkByParagraphs(draft, chunkCap, measure);
+      const chunkCap = Math.max(
+        256,
+        Math.floor(inputLimit * MAP_CHUNK_HEADROOM),
+      );
+      const measure = (s: string): Promise<number> => measureTokens(session, s);
+
+      options?.onStage?.("chunking");
+      const chunks = await chunkByStructure(draft, chunkCap, measure);
+
+      if (chunks.length <= 1) {
+        // Input fits - degrade to single-shot.
+        const stream = session.promptStreaming(
+          applyInstruction(draft, options),
+          {
+            signal: signal,
+          },
+        );
+        return await streamToChunks(stream, onChunk);
+      }
 
-    if (chunks.length <= 1) {
-      // Input fits - degrade to single-shot.
-      const stream = session.promptStreaming(draft, {
-        signal: options?.signal,
+      options?.onStage?.("mapping");
+      const concurrency = tuneConcurrency({
+        items: chunks.length,
+        perWorker: session.inputUsage + 2 * chunkCap,
+        budget: MAP_WORKER_TOKEN_BUDGET,
+        maxWorkers: MAP_MAX_WORKERS,
       });
-      const result = await streamToChunks(stream, onChunk);
-      return cleanModelOutput(result) || draft;
-    }
-
-    options?.onStage?.("mapping");
-    const result = await mapReduce({
-      chunks,
-      signal: options?.signal,
-      map: async (chunk, index) => {
-        options?.signal?.throwIfAborted();
-        const mapPrompt = `Improve this section of a larger prompt (section ${String(index + 1)} of ${String(chunks.length)}): ${chunk}\n\nReturn only the improved section.`;
-        return session.prompt(mapPrompt, { signal: options?.signal });
-      },
-      reduce: async (mapped) => {
-        options?.signal?.throwIfAborted();
-        options?.onStage?.("reducing");
-        const joined = mapped
-          .map((m, i) => `Section ${String(i + 1)}:\n${m}`)
-          .join("\n\n");
-        const reducePrompt = `Here are improved sections in order:\n\n${joined}\n\nStitch them into one coherent prompt. Return only the final prompt.`;
-        const stream = session.promptStreaming(reducePrompt, {
-          signal: options?.signal,
+      // One clone per worker, created on its first section
+      const clones = new Map<number, Promise<ModelSession>>();
+      const cloneFor = (worker: number): Promise<ModelSession> => {
+        let clone = clones.get(worker);
+        if (!clone) {
+          clone = getSessionForRules(rules, options);
+          clones.set(worker, clone);
+        }
+        return clone;
+      };
+      const releaseClones = async (): Promise<void> => {
+        const created = [...clones.values()];
+        clones.clear();
+        await destroyClones(created);
+      };
+
+      let result: string;
+      try {
+        result = await mapReduce({
+          chunks,
+          signal: signal,
+          concurrency,
+          onProgress: progressReporter(options, "mapping", "section"),
+          map: async (chunk, index, worker) => {
+            signal.throwIfAborted();
+            const clone = await cloneFor(worker);
+            const mapPrompt = renderTemplate(
+              "map",
+              {
+                section: chunk,
+                index: index + 1,
+                total: chunks.length,
+                instruction: instructionNote(options),
+              },
+              options?.templates,
+            );
+            return clone.prompt(mapPrompt, { signal: signal });
+          },
+          reduce: async (mapped) => {
+            // The clones' work is done - free their memory before reducing.
+            await releaseClones();
+            signal.throwIfAborted();
+            options?.onStage?.("reducing");
+            const joined = mapped
+              .map((m, i) => `Section ${String(i + 1)}:\n${m}`)
+              .join("\n\n");
+            const reducePrompt = renderTemplate(
+              "reduce",
+              { sections: joined, instruction: instructionNote(options) },
+              options?.templates,
+            );
+            const stream = session.promptStreaming(reducePrompt, {
+              signal: signal,
+            });
+            return streamToChunks(stream, onChunk);
+          },
         });
-        return streamToChunks(stream, onChunk);
-      },
-    });
+      } finally {
+        await releaseClones();
+      }
 
-    return cleanModelOutput(result) || draft;
+      return result;
+    });
   } catch (error) {
     logger.error("Map-reduce optimization failed", error);
     if (!isAbortError(error)) clearSessionCache();
@@ -610,11 +1021,11 @@ export async function optimizeWithMapReduce(
 // =============================================================================
 
 function isWriterAvailable(): boolean {
-  return typeof Writer !== "undefined";
+  return backend.writingAssistance && typeof Writer !== "undefined";
 }
 
 function isRewriterAvailable(): boolean {
-  return typeof Rewriter !== "undefined";
+  return backend.writingAssistance && typeof Rewriter !== "undefined";
 }
 
 function buildSharedContext(rules: string[]): string {
@@ -623,6 +1034,19 @@ function buildSharedContext(rules: string[]): string {
   return `Apply these guidelines when relevant:\n${formatRulesForPrompt(rules)}`;
 }
 
+/** Runs the draft through the prompt engine instead, reporting why */
+function fallBackToPromptEngine(
+  from: "writer" | "rewriter",
+  reason: string,
+  draft: string,
+  rules: string[],
+  onChunk: (chunk: string) => void,
+  options?: AIOptimizeOptions,
+): Promise<string> {
+  options?.onFallback?.({ from, to: "single", reason });
+  return optimizePromptStreaming(draft, rules, onChunk, options);
+}
+
 export async function optimizeWithWriter(
   draft: string,
   rules: string[],
@@ -631,7 +1055,14 @@ export async function optimizeWithWriter(
 ): Promise<string> {
   if (!isWriterAvailable()) {
     logger.info("Writer API unavailable - falling back to prompt engine");
-    return optimizePromptStreaming(draft, rules, onChunk, options);
+    return fallBackToPromptEngine(
+      "writer",
+      "Writer API unavailable",
+      draft,
+      rules,
+      onChunk,
+      options,
+    );
   }
 
   try {
@@ -640,7 +1071,14 @@ export async function optimizeWithWriter(
       logger.info(
         `Writer API not ready (${availability}) - falling back to prompt engine`,
       );
-      return await optimizePromptStreaming(draft, rules, onChunk, options);
+      return await fallBackToPromptEngine(
+        "writer",
+        `Writer API not ready (${availability})`,
+        draft,
+        rules,
+        onChunk,
+        options,
+      );
     }
 
     options?.signal?.throwIfAborted();
@@ -654,9 +1092,11 @@ export async function optimizeWithWriter(
     });
 
     try {
-      const stream = writer.writeStreaming(draft, { signal: options?.signal });
-      const result = await streamToChunks(stream, onChunk);
-      return cleanModelOutput(result) || draft;
+      const stream = writer.writeStreaming(draft, {
+        signal: options?.signal,
+        context: instructionText(options),
+      });
+      return await streamToChunks(stream, onChunk);
     } finally {
       try {
         writer.destroy();
@@ -667,7 +1107,14 @@ export async function optimizeWithWriter(
   } catch (error) {
     if (isAbortError(error)) throw error;
     logger.warn("Writer API failed - falling back to prompt engine", error);
-    return optimizePromptStreaming(draft, rules, onChunk, options);
+    return fallBackToPromptEngine(
+      "writer",
+      "Writer API failed",
+      draft,
+      rules,
+      onChunk,
+      options,
+    );
   }
 }
 
@@ -679,7 +1126,14 @@ export async function optimizeWithRewriter(
 ): Promise<string> {
   if (!isRewriterAvailable()) {
     logger.info("Rewriter API unavailable - falling back to prompt engine");
-    return optimizePromptStreaming(draft, rules, onChunk, options);
+    return fallBackToPromptEngine(
+      "rewriter",
+      "Rewriter API unavailable",
+      draft,
+      rules,
+      onChunk,
+      options,
+    );
   }
 
   try {
@@ -688,7 +1142,14 @@ export async function optimizeWithRewriter(
       logger.info(
         `Rewriter API not ready (${availability}) - falling back to prompt engine`,
       );
-      return await optimizePromptStreaming(draft, rules, onChunk, options);
+      return await fallBackToPromptEngine(
+        "rewriter",
+        `Rewriter API not ready (${availability})`,
+        draft,
+        rules,
+        onChunk,
+        options,
+      );
     }
 
     options?.signal?.throwIfAborted();
@@ -704,9 +1165,9 @@ export async function optimizeWithRewriter(
     try {
       const stream = rewriter.rewriteStreaming(draft, {
         signal: options?.signal,
+        context: instructionText(options),
       });
-      const result = await streamToChunks(stream, onChunk);
-      return cleanModelOutput(result) || draft;
+      return await streamToChunks(stream, onChunk);
     } finally {
       try {
         rewriter.destroy();
@@ -717,7 +1178,14 @@ export async function optimizeWithRewriter(
   } catch (error) {
     if (isAbortError(error)) throw error;
     logger.warn("Rewriter API failed - falling back to prompt engine", error);
-    return optimizePromptStreaming(draft, rules, onChunk, options);
+    return fallBackToPromptEngine(
+      "rewriter",
+      "Rewriter API failed",
+      draft,
+      rules,
+      onChunk,
+      options,
+    );
   }
 }
 
@@ -755,64 +1223,64 @@ export async function optimizeWithDecomposition(
   onChunk: (chunk: string) => void,
   options?: AIOptimizeOptions,
 ): Promise<string> {
-  const availability = await checkAIAvailability();
-  if (!availability.available) {
-    throw new PromptTunerError(
-      availability.reason ?? "AI not available",
-      "AI_UNAVAILABLE",
-    );
-  }
+  await requireAvailable();
 
   try {
-    const session = await getSessionForRules(rules, options);
-    options?.signal?.throwIfAborted();
-
-    options?.onStage?.("planning");
-
-    const composed = await recursiveDecompose<string>({
-      rootPrompt: draft,
-      depth: 2,
-      signal: options?.signal,
-      expand: async (parent, currentDepth) => {
-        options?.signal?.throwIfAborted();
-        const query =
-          currentDepth === 1
-            ? `Task: ${parent}\n\nWhat are the 3-5 top-level phases of this task? Return a JSON array of short strings.`
-            : `Phase: ${parent}\n\nExpand this phase into 2-4 concrete steps. Return a JSON array of short strings.`;
-        let raw: string;
-        try {
-          raw = await session.prompt(query, {
-            signal: options?.signal,
-            responseConstraint: PHASE_ARRAY_SCHEMA,
-          });
-        } catch {
-          // responseConstraint unsupported - retry unconstrained.
-          raw = await session.prompt(query, { signal: options?.signal });
-        }
-        return extractStringArray(raw);
-      },
-      compose: (parent, children) => {
-        const lines: string[] = [`Task: ${parent}`, ""];
-        children.forEach(({ node, expanded }, i) => {
-          lines.push(`${String(i + 1)}. ${node}`);
-          if (expanded) {
-            expanded.forEach((step, j) => {
-              lines.push(`   ${String(i + 1)}.${String(j + 1)} ${step}`);
+    return await withSession(rules, options, async (session, signal) => {
+      signal.throwIfAborted();
+
+      options?.onStage?.("planning");
+
+      const composed = await recursiveDecompose<string>({
+        rootPrompt: draft,
+        depth: 2,
+        signal: signal,
+        onProgress: progressReporter(options, "planning", "phase"),
+        expand: async (parent, currentDepth) => {
+          signal.throwIfAborted();
+          const query =
+            currentDepth === 1
+              ? renderTemplate(
+                  "phases",
+                  { task: parent, instruction: instructionNote(options) },
+                  options?.templates,
+                )
+              : renderTemplate("steps", { phase: parent }, options?.templates);
+          let raw: string;
+          try {
+            raw = await session.prompt(query, {
+              signal: signal,
+              responseConstraint: PHASE_ARRAY_SCHEMA,
             });
+          } catch {
+            // responseConstraint unsupported - retry unconstrained.
+            raw = await session.prompt(query, { signal: signal });
           }
-        });
-        return lines.join("\n");
-      },
-    });
+          return extractStringArray(raw);
+        },
+        compose: (parent, children) => {
+          const lines: string[] = [`Task: ${parent}`, ""];
+          children.forEach(({ node, expanded }, i) => {
+            lines.push(`${String(i + 1)}. ${node}`);
+            if (expanded) {
+              expanded.forEach((step, j) => {
+                lines.push(`   ${String(i + 1)}.${String(j + 1)} ${step}`);
+              });
+            }
+          });
+          return lines.join("\n");
+        },
+      });
 
-    // Stream the composed markdown back to give the UI a "streaming" feel.
-    options?.onStage?.("composing");
-    const lines = composed.split("\n");
-    for (const line of lines) {
-      options?.signal?.throwIfAborted();
-      onChunk(`${line}\n`);
-    }
-    return composed;
+      // Stream the composed markdown back to give the UI a "streaming" feel.
+      options?.onStage?.("composing");
+      const lines = composed.split("\n");
+      for (const [index, line] of lines.entries()) {
+        signal.throwIfAborted();
+        onChunk(index === 0 ? line : `\n${line}`);
+      }
+      return composed;
+    });
   } catch (error) {
     logger.error("Decomposition optimization failed", error);
     if (!isAbortError(error)) clearSessionCache();
@@ -831,7 +1299,7 @@ export async function optimizeWithDecomposition(
 // =============================================================================
 
 function isSummarizerAvailable(): boolean {
-  return typeof Summarizer !== "undefined";
+  return backend.writingAssistance && typeof Summarizer !== "undefined";
 }
 
 export async function optimizeWithHierarchical(
@@ -840,13 +1308,7 @@ export async function optimizeWithHierarchical(
   onChunk: (chunk: string) => void,
   options?: AIOptimizeOptions,
 ): Promise<string> {
-  const availability = await checkAIAvailability();
-  if (!availability.available) {
-    throw new PromptTunerError(
-      availability.reason ?? "AI not available",
-      "AI_UNAVAILABLE",
-    );
-  }
+  await requireAvailable();
 
   if (!isSummarizerAvailable()) {
     throw new PromptTunerError(
@@ -856,7 +1318,8 @@ export async function optimizeWithHierarchical(
   }
 
   try {
-    const session = await getSessionForRules(rules, options);
+    // Only measured against, never prompted - the template will do.
+    const session = await getTemplateForRules(rules, options);
     const inputLimit = resolveInputLimit(session);
     options?.signal?.throwIfAborted();
 
@@ -870,7 +1333,7 @@ export async function optimizeWithHierarchical(
 
     options?.onStage?.("shrinking");
     const chunkCap = Math.max(256, Math.floor(inputLimit * MAP_CHUNK_HEADROOM));
-    const chunks = await chunkByParagraphs(draft, chunkCap, (s) =>
+    const chunks = await chunkByStructure(draft, chunkCap, (s) =>
       measureTokens(session, s),
     );
 
@@ -882,12 +1345,15 @@ export async function optimizeWithHierarchical(
     let compressed: string;
     try {
       const summaries: string[] = [];
+      const reportProgress = progressReporter(options, "shrinking", "section");
+      reportProgress?.(0, chunks.length);
       for (const chunk of chunks) {
         options?.signal?.throwIfAborted();
         const s = await summarizer.summarize(chunk, {
           signal: options?.signal,
         });
         summaries.push(s);
+        reportProgress?.(summaries.length, chunks.length);
       }
       compressed = summaries.join("\n\n");
     } finally {
@@ -918,7 +1384,7 @@ export async function optimizeWithHierarchical(
 export const __internal = {
   getSessionForRules,
   streamToChunks,
-  cleanModelOutput,
+  sanitizeOutput,
   resolveInputLimit,
   measureTokens,
 };
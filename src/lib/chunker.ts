@@ -0,0 +1,380 @@
+/**
+ * Structure-aware chunker for long prompts
+ *
+ * `chunkByParagraphs` only knows blank lines and sentences, so it tears
+ * fenced code, tables and `<tag>…</tag>` sections apart. This chunker first
+ * reads the draft as Markdown-ish blocks - headings, fenced code, tables,
+ * lists, tagged sections and paragraphs - and packs whole blocks into chunks.
+ *
+ * Each chunk opens with the headings its first block sits under, so a
+ * section read on its own still knows where it belongs. A block that cannot
+ * fit is split along its own structure: code by lines inside repeated fences,
+ * tables by rows under a repeated header, lists by items, tagged sections by
+ * their content inside repeated tags. Prose falls back to `chunkByParagraphs`.
+ *
+ * Same contract as `chunkByParagraphs`: chunks measure ≤ maxChunkTokens via
+ * measureFn wherever the text allows it.
+ */
+
+import { chunkByParagraphs, type MeasureFn } from "~lib/decompose";
+
+type BlockKind = "heading" | "code" | "table" | "list" | "tagged" | "paragraph";
+
+interface Block {
+  kind: BlockKind;
+  lines: string[];
+  /** Heading level, 1-6 */
+  level?: number;
+}
+
+/** A block to pack, with the headings it sits under */
+interface Unit {
+  headings: Block[];
+  /** Empty for a heading with no content of its own */
+  text: string;
+  block?: Block;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})\s+\S/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const OPEN_TAG = /^\s*<([A-Za-z][\w.-]*)(?:\s[^>]*)?>/;
+
+const lineAt = (lines: string[], i: number): string => lines[i] ?? "";
+
+// =============================================================================
+// Blocks
+// =============================================================================
+
+/** Whether `line` closes a fence opened with `marker` */
+function closesFence(line: string, marker: string): boolean {
+  const char = marker.startsWith("~") ? "~" : "`";
+  return new RegExp(`^ {0,3}${char}{${String(marker.length)},}\\s*$`).test(
+    line,
+  );
+}
+
+/** Index of the line closing the fence opened at `start` (or the last line) */
+function fenceEnd(lines: string[], start: number, marker: string): number {
+  for (let i = start + 1; i < lines.length; i++) {
+    if (closesFence(lineAt(lines, i), marker)) return i;
+  }
+  return lines.length - 1;
+}
+
+/**
+ * Index of the line closing the tagged section opened at `start`, or -1 when
+ * the line opens no section (not a tag, self-closing, or never closed).
+ */
+function taggedEnd(lines: string[], start: number): number {
+  const open = OPEN_TAG.exec(lineAt(lines, start));
+  if (!open?.[1] || open[0].endsWith("/>")) return -1;
+
+  const name = open[1].replace(/\./g, "\\.");
+  const opens = new RegExp(`<${name}(?:\\s[^>]*)?>`, "g");
+  const closes = new RegExp(`</${name}\\s*>`, "g");
+  let depth = 0;
+  for (let i = start; i < lines.length; i++) {
+    const line = lineAt(lines, i);
+    for (const m of line.matchAll(opens)) if (!m[0].endsWith("/>")) depth++;
+    depth -= line.match(closes)?.length ?? 0;
+    if (depth <= 0) return i;
+  }
+  return -1;
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lineAt(lines, i);
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    TABLE_ROW.test(line) ||
+    LIST_ITEM.test(line) ||
+    taggedEnd(lines, i) !== -1
+  );
+}
+
+/** Index of the last line of the list starting at `start` */
+function listEnd(lines: string[], start: number): number {
+  let end = start;
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lineAt(lines, i);
+    if (!line.trim()) {
+      // A blank line continues the list only if an item or indented
+      // continuation follows it.
+      let next = i + 1;
+      while (next < lines.length && !lineAt(lines, next).trim()) next++;
+      const after = lineAt(lines, next);
+      if (next < lines.length && (LIST_ITEM.test(after) || /^\s/.test(after))) {
+        i = next - 1;
+        continue;
+      }
+      break;
+    }
+    const lazy = i === end + 1 && !startsBlock(lines, i);
+    if (!LIST_ITEM.test(line) && !/^\s/.test(line) && !lazy) break;
+    end = i;
+  }
+  return end;
+}
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: Block[] = [];
+
+  for (let i = 0; i < lines.length; ) {
+    const line = lineAt(lines, i);
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    let kind: BlockKind = "paragraph";
+    let end = i;
+    let level: number | undefined;
+    const fence = FENCE.exec(line);
+    const heading = HEADING.exec(line);
+    const tagged = taggedEnd(lines, i);
+
+    if (fence?.[1]) {
+      kind = "code";
+      end = fenceEnd(lines, i, fence[1]);
+    } else if (heading?.[1]) {
+      kind = "heading";
+      level = heading[1].length;
+    } else if (tagged !== -1) {
+      kind = "tagged";
+      end = tagged;
+    } else if (TABLE_ROW.test(line)) {
+      kind = "table";
+      while (end + 1 < lines.length && TABLE_ROW.test(lineAt(lines, end + 1))) {
+        end++;
+      }
+    } else if (LIST_ITEM.test(line)) {
+      kind = "list";
+      end = listEnd(lines, i);
+    } else {
+      while (
+        end + 1 < lines.length &&
+        lineAt(lines, end + 1).trim() &&
+        !startsBlock(lines, end + 1)
+      ) {
+        end++;
+      }
+    }
+
+    const block: Block = { kind, lines: lines.slice(i, end + 1) };
+    if (level !== undefined) block.level = level;
+    blocks.push(block);
+    i = end + 1;
+  }
+  return blocks;
+}
+
+/** Non-heading blocks with the headings in scope where each one appears */
+function toUnits(blocks: Block[]): Unit[] {
+  const units: Unit[] = [];
+  let headings: Block[] = [];
+  // Whether the innermost heading has had a block under it yet
+  let covered = true;
+
+  for (const block of blocks) {
+    if (block.kind === "heading") {
+      if (!covered) units.push({ headings, text: "" });
+      const level = block.level ?? 1;
+      headings = [...headings.filter((h) => (h.level ?? 1) < level), block];
+      covered = false;
+      continue;
+    }
+    units.push({ headings, text: block.lines.join("\n"), block });
+    covered = true;
+  }
+  if (!covered) units.push({ headings, text: "" });
+  return units;
+}
+
+// =============================================================================
+// Splitting oversized blocks
+// =============================================================================
+
+/**
+ * Greedily packs `parts` (joined by newlines) into pieces that measure
+ * ≤ cap once passed through `wrap`. A part that cannot fit even alone is
+ * sliced by `chunkByParagraphs` and each slice wrapped.
+ */
+async function packParts(
+  parts: string[],
+  cap: number,
+  measureFn: MeasureFn,
+  wrap: (body: string) => string,
+): Promise<string[]> {
+  const pieces: string[] = [];
+  let body: string[] = [];
+  for (const part of parts) {
+    const next = [...body, part];
+    if ((await measureFn(wrap(next.join("\n")))) <= cap) {
+      body = next;
+      continue;
+    }
+    if (body.length > 0) pieces.push(wrap(body.join("\n")));
+    body = [];
+    if ((await measureFn(wrap(part))) <= cap) {
+      body = [part];
+      continue;
+    }
+    const overhead = await measureFn(wrap(""));
+    for (const slice of await chunkByParagraphs(
+      part,
+      Math.max(1, cap - overhead),
+      measureFn,
+    )) {
+      pieces.push(wrap(slice));
+    }
+  }
+  if (body.length > 0) pieces.push(wrap(body.join("\n")));
+  return pieces;
+}
+
+/** Top-level items of a list block, each with its continuation lines */
+function listItems(lines: string[]): string[] {
+  const indent = LIST_ITEM.exec(lineAt(lines, 0))?.[1]?.length ?? 0;
+  const items: string[][] = [];
+  for (const line of lines) {
+    const item = LIST_ITEM.exec(line);
+    const last = items.at(-1);
+    if ((item?.[1]?.length ?? Infinity) <= indent || !last) {
+      items.push([line]);
+    } else {
+      last.push(line);
+    }
+  }
+  return items.map((item) => item.join("\n").trimEnd());
+}
+
+async function splitBlock(
+  block: Block,
+  cap: number,
+  measureFn: MeasureFn,
+): Promise<string[]> {
+  const { lines } = block;
+  const first = lineAt(lines, 0);
+  const last = lineAt(lines, lines.length - 1);
+
+  switch (block.kind) {
+    case "code": {
+      const marker = FENCE.exec(first)?.[1] ?? "```";
+      const closed = lines.length > 1 && closesFence(last, marker);
+      const body = lines.slice(1, closed ? -1 : undefined);
+      const close = closed ? last : marker;
+      return packParts(body, cap, measureFn, (b) => `${first}\n${b}\n${close}`);
+    }
+    case "table": {
+      const header = lines.slice(
+        0,
+        TABLE_SEPARATOR.test(lineAt(lines, 1)) ? 2 : 1,
+      );
+      const rows = lines.slice(header.length);
+      if (rows.length === 0) break;
+      const head = header.join("\n");
+      return packParts(rows, cap, measureFn, (b) => `${head}\n${b}`);
+    }
+    case "list":
+      return packParts(listItems(lines), cap, measureFn, (b) => b);
+    case "tagged": {
+      // Only re-wrap when the tags sit on their own lines; otherwise the
+      // repeated tag lines would duplicate content.
+      if (lines.length < 3 || !/^\s*<[^>]+>\s*$/.test(first)) break;
+      if (!/^\s*<\/[^>]+>\s*$/.test(last)) break;
+      const overhead = await measureFn(`${first}\n\n${last}`);
+      const inner = await chunkByStructure(
+        lines.slice(1, -1).join("\n"),
+        Math.max(1, cap - overhead),
+        measureFn,
+      );
+      return inner.map((piece) => `${first}\n${piece}\n${last}`);
+    }
+    case "heading":
+    case "paragraph":
+      break;
+  }
+  return chunkByParagraphs(lines.join("\n"), cap, measureFn);
+}
+
+// =============================================================================
+// Packing
+// =============================================================================
+
+/** How many leading headings two heading paths share */
+function sharedDepth(a: Block[], b: Block[]): number {
+  let depth = 0;
+  while (depth < a.length && depth < b.length && a[depth] === b[depth]) {
+    depth++;
+  }
+  return depth;
+}
+
+const headingText = (headings: Block[]): string =>
+  headings.map((h) => h.lines.join("\n")).join("\n\n");
+
+/**
+ * Splits text into chunks that each measure ≤ maxChunkTokens via measureFn,
+ * keeping code blocks, tables, lists and tagged sections whole where they
+ * fit and opening every chunk with the headings it falls under.
+ */
+export async function chunkByStructure(
+  text: string,
+  maxChunkTokens: number,
+  measureFn: MeasureFn,
+): Promise<string[]> {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if ((await measureFn(trimmed)) <= maxChunkTokens) return [trimmed];
+
+  // Blocks too big for a chunk of their own are split first.
+  const units: Unit[] = [];
+  for (const unit of toUnits(parseBlocks(trimmed))) {
+    const context = headingText(unit.headings);
+    const whole = context ? `${context}\n\n${unit.text}` : unit.text;
+    if (!unit.block || (await measureFn(whole)) <= maxChunkTokens) {
+      units.push(unit);
+      continue;
+    }
+    const contextTokens = context ? await measureFn(`${context}\n\n`) : 0;
+    const pieces = await splitBlock(
+      unit.block,
+      Math.max(1, maxChunkTokens - contextTokens),
+      measureFn,
+    );
+    for (const piece of pieces)
+      units.push({ headings: unit.headings, text: piece });
+  }
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentHeadings: Block[] = [];
+  const render = (unit: Unit, from: Block[]): string[] => {
+    const parts = unit.headings
+      .slice(sharedDepth(from, unit.headings))
+      .map((h) => h.lines.join("\n"));
+    if (unit.text) parts.push(unit.text);
+    return parts;
+  };
+
+  for (const unit of units) {
+    const parts = render(unit, currentHeadings);
+    if (
+      current.length === 0 ||
+      (await measureFn([...current, ...parts].join("\n\n"))) <= maxChunkTokens
+    ) {
+      current.push(...parts);
+    } else {
+      chunks.push(current.join("\n\n"));
+      current = render(unit, []);
+    }
+    currentHeadings = unit.headings;
+  }
+  if (current.length > 0) chunks.push(current.join("\n\n"));
+  return chunks;
+}
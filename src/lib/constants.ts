@@ -5,6 +5,7 @@
 
 export const PORT_NAMES = {
   OPTIMIZE: "optimize-port",
+  ENGINE: "engine-port",
 } as const;
 
 export const COMMAND_IDS = {
@@ -18,14 +19,27 @@ export const STORAGE_KEYS = {
   SETTINGS: "settings",
   DEFAULT_ACTION: "settings.defaultAction",
   RUN_ON_OPEN: "settings.runOnOpen",
+  CUSTOM_ACTIONS: "customActions",
+  RECIPES: "recipes",
+  HISTORY: "history",
+  HISTORY_LIMIT: "settings.historyLimit",
+  VARIANT_COUNT: "settings.variantCount",
+  BACKEND: "settings.backend",
+  IDLE_SHUTDOWN_MINUTES: "settings.idleShutdownMinutes",
+  RESULT_CACHE: "resultCache",
+  RESULT_CACHE_TTL_HOURS: "settings.resultCacheTtlHours",
+  PROMPT_TEMPLATES: "settings.promptTemplates",
 } as const;
 
 export const ALARM_NAMES = {
   KEEP_ALIVE: "prompt-tuner-keep-alive",
+  IDLE_SHUTDOWN: "prompt-tuner-idle-shutdown",
 } as const;
 
 export const KEYBOARD_SHORTCUTS = {
   TOGGLE_OVERLAY: "Mod+Shift+K",
+  UNDO_TUNING: "Mod+Shift+U",
+  REDO_TUNING: "Mod+Shift+Y",
 } as const;
 
 export const MESSAGE_TYPES = {
@@ -34,6 +48,12 @@ export const MESSAGE_TYPES = {
   CANCEL_OPTIMIZATION: "CANCEL",
   REPLACE_TEXT: "REPLACE_TEXT",
   REPLACE_TEXT_RESPONSE: "REPLACE_TEXT_RESPONSE",
+  BRIDGE_HANDSHAKE: "BRIDGE_HANDSHAKE",
+  BRIDGE_READY: "BRIDGE_READY",
+  INSERT_TEXT: "INSERT_TEXT",
+  WARMUP: "WARMUP",
+  GET_JOB: "GET_JOB",
+  ATTACH_JOB: "ATTACH_JOB",
   PING: "PING",
   PONG: "PONG",
 } as const;
@@ -44,7 +64,7 @@ export const MESSAGE_TYPES = {
  */
 export const ERROR_MESSAGES: Record<string, string> = {
   AI_UNAVAILABLE:
-    "Gemini Nano isn't available. Make sure Chrome 138+ is installed and the model is downloaded.",
+    "The selected model isn't available. Make sure Gemini Nano is downloaded (Chrome 138+) or your local model server is running.",
   AI_SESSION_FAILED:
     "Couldn't start an AI session. Try closing and reopening the overlay.",
   AI_GENERATION_FAILED:
@@ -57,6 +77,9 @@ export const ERROR_MESSAGES: Record<string, string> = {
     "Something unexpected went wrong. Try again or reload the page.",
 };
 
+/** Most candidates a single variants request may ask for */
+export const MAX_VARIANTS = 4;
+
 export const MESSAGE_SOURCES = {
   PROMPT_TUNER: "prompt-tuner",
 } as const;
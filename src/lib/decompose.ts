@@ -100,7 +100,12 @@ export async function chunkByParagraphs(
 
 export interface MapReduceArgs<T> {
   chunks: T[];
-  map: (chunk: T, index: number) => Promise<string>;
+  /**
+   * `worker` (0 to concurrency - 1) identifies the worker making the call;
+   * one worker never has two calls in flight, so per-worker state such as a
+   * model session is never shared between concurrent calls.
+   */
+  map: (chunk: T, index: number, worker: number) => Promise<string>;
   reduce: (mappedChunks: string[]) => Promise<string>;
   signal?: AbortSignal;
   /**
@@ -110,6 +115,38 @@ export interface MapReduceArgs<T> {
    * Pass 1 for strictly sequential execution.
    */
   concurrency?: number;
+  /** Called with 0 before the first `map`, then as each one finishes */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ConcurrencyBudget {
+  /** Units of work to spread over the workers */
+  items: number;
+  /** Memory one worker holds while it runs, e.g. its session's tokens */
+  perWorker: number;
+  /** Memory all workers together may hold, in the same unit */
+  budget: number;
+  /** Upper bound regardless of memory */
+  maxWorkers: number;
+}
+
+/**
+ * Worker count for `mapReduce`: as many as the memory budget allows (at
+ * least 1, at most `maxWorkers`), then trimmed to the fewest that still
+ * finish in the same number of rounds - 5 items on 4 workers take two
+ * rounds, as they do on 3, so the fourth worker would only cost memory.
+ */
+export function tuneConcurrency({
+  items,
+  perWorker,
+  budget,
+  maxWorkers,
+}: ConcurrencyBudget): number {
+  if (items <= 1) return 1;
+  const byMemory = Math.floor(budget / Math.max(1, perWorker));
+  const cap = Math.max(1, Math.min(maxWorkers, byMemory, items));
+  const rounds = Math.ceil(items / cap);
+  return Math.ceil(items / rounds);
 }
 
 /**
@@ -117,23 +154,26 @@ export interface MapReduceArgs<T> {
  * ordering in the output, then runs `reduce` over the results.
  */
 export async function mapReduce<T>(args: MapReduceArgs<T>): Promise<string> {
-  const { chunks, map, reduce, signal } = args;
+  const { chunks, map, reduce, signal, onProgress } = args;
   const concurrency = Math.max(1, args.concurrency ?? 2);
   const mapped: string[] = new Array<string>(chunks.length);
 
   let next = 0;
-  const worker = async (): Promise<void> => {
+  let done = 0;
+  onProgress?.(0, chunks.length);
+  const worker = async (id: number): Promise<void> => {
     for (;;) {
       signal?.throwIfAborted();
       const i = next++;
       if (i >= chunks.length) return;
-      mapped[i] = await map(chunks[i] as T, i);
+      mapped[i] = await map(chunks[i] as T, i, id);
+      onProgress?.(++done, chunks.length);
     }
   };
 
   const workers: Promise<void>[] = [];
   const n = Math.min(concurrency, chunks.length);
-  for (let i = 0; i < n; i++) workers.push(worker());
+  for (let i = 0; i < n; i++) workers.push(worker(i));
   await Promise.all(workers);
 
   signal?.throwIfAborted();
@@ -169,6 +209,11 @@ export interface RecursiveDecomposeArgs<Node> {
     children: { node: Node; expanded: Node[] | null }[],
   ) => string;
   signal?: AbortSignal;
+  /**
+   * Called once the top level is known (0 of its phases expanded), then as
+   * each phase finishes expanding
+   */
+  onProgress?: (done: number, total: number) => void;
 }
 
 /**
@@ -178,11 +223,12 @@ export interface RecursiveDecomposeArgs<Node> {
 export async function recursiveDecompose<Node>(
   args: RecursiveDecomposeArgs<Node>,
 ): Promise<string> {
-  const { rootPrompt, depth, expand, compose, signal } = args;
+  const { rootPrompt, depth, expand, compose, signal, onProgress } = args;
   signal?.throwIfAborted();
 
   const topLevel = await expand(rootPrompt, 1);
   const children: { node: Node; expanded: Node[] | null }[] = [];
+  onProgress?.(0, topLevel.length);
 
   for (const node of topLevel) {
     signal?.throwIfAborted();
@@ -192,6 +238,7 @@ export async function recursiveDecompose<Node>(
     } else {
       children.push({ node, expanded: null });
     }
+    onProgress?.(children.length, topLevel.length);
   }
 
   return compose(rootPrompt, children);
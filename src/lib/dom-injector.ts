@@ -12,7 +12,13 @@
  * 2. Fallback: Direct manipulation from Isolated World (content script context)
  */
 
-import { type ReplaceTextResult, type TextInputElement } from "~types";
+import {
+  type MainWorldHandshake,
+  type MainWorldReplaceRequest,
+  type MainWorldReplaceResponse,
+  type ReplaceTextResult,
+  type TextInputElement,
+} from "~types";
 
 // =============================================================================
 // Main World Bridge
@@ -21,34 +27,32 @@ import { type ReplaceTextResult, type TextInputElement } from "~types";
 import { MESSAGE_SOURCES, MESSAGE_TYPES, DOM_SELECTORS } from "~lib/constants";
 
 const MAIN_WORLD_TIMEOUT = 1000; // 1 second timeout for Main World response
+const HANDSHAKE_TIMEOUT = 250; // Bridge answers synchronously; this is generous
 const MESSAGE_SOURCE = MESSAGE_SOURCES.PROMPT_TUNER;
 
-interface MainWorldResponse {
-  type: typeof MESSAGE_TYPES.REPLACE_TEXT_RESPONSE;
-  source: typeof MESSAGE_SOURCE;
-  id: string;
-  success: boolean;
-  error?: string;
-}
-
 /**
  * Generates a unique CSS selector for an element
  */
-function getElementSelector(element: HTMLElement): string | undefined {
+export function getElementSelector(element: HTMLElement): string | undefined {
   // Try ID first
   if (element.id) {
-    return `#${element.id}`;
+    return `#${CSS.escape(element.id)}`;
   }
 
   // Try common data attributes
   const dataId = element.getAttribute("data-id");
   if (dataId) {
-    return `[data-id="${dataId}"]`;
+    return `[data-id="${CSS.escape(dataId)}"]`;
   }
 
   // Try class + tag combination
   if (element.className && typeof element.className === "string") {
-    const classes = element.className.trim().split(/\s+/).slice(0, 2).join(".");
+    const classes = element.className
+      .trim()
+      .split(/\s+/)
+      .slice(0, 2)
+      .map((c) => CSS.escape(c))
+      .join(".");
     if (classes) {
       const selector = `${element.tagName.toLowerCase()}.${classes}`;
       // Verify uniqueness
@@ -61,6 +65,80 @@ function getElementSelector(element: HTMLElement): string | undefined {
   return undefined;
 }
 
+function isBridgeReply(
+  event: MessageEvent,
+  type: string,
+  id?: string,
+): Record<string, unknown> | null {
+  const data: unknown = event.data;
+  if (typeof data !== "object" || data === null || event.source !== window) {
+    return null;
+  }
+  const record = data as Record<string, unknown>;
+  if (record.type !== type || record.source !== MESSAGE_SOURCE) return null;
+  if (id !== undefined && record.id !== id) return null;
+  return record;
+}
+
+/**
+ * Cached handshake result. `true` once the Main World bridge has answered
+ * (or announced itself); `false` after a handshake timed out.
+ */
+let bridgePresent: boolean | null = null;
+let handshakePromise: Promise<boolean> | null = null;
+
+// The bridge broadcasts BRIDGE_READY on install - record it so a bridge that
+// loads after a failed handshake is still picked up.
+if (typeof window !== "undefined") {
+  window.addEventListener("message", (event: MessageEvent) => {
+    if (isBridgeReply(event, MESSAGE_TYPES.BRIDGE_READY)) {
+      bridgePresent = true;
+    }
+  });
+}
+
+/**
+ * Asks the Main World bridge whether it is installed. Resolves quickly and
+ * caches the answer so inserts on pages without the bridge skip straight to
+ * the Isolated World path instead of waiting out MAIN_WORLD_TIMEOUT.
+ */
+export function detectMainWorldBridge(): Promise<boolean> {
+  if (bridgePresent !== null) return Promise.resolve(bridgePresent);
+  if (handshakePromise) return handshakePromise;
+
+  handshakePromise = new Promise<boolean>((resolve) => {
+    const id = `handshake-${String(Date.now())}-${Math.random().toString(36).slice(2)}`;
+
+    const finish = (present: boolean): void => {
+      clearTimeout(timeout);
+      window.removeEventListener("message", handler);
+      bridgePresent = bridgePresent === true || present;
+      handshakePromise = null;
+      resolve(bridgePresent);
+    };
+
+    const handler = (event: MessageEvent): void => {
+      if (isBridgeReply(event, MESSAGE_TYPES.BRIDGE_READY, id)) finish(true);
+    };
+
+    const timeout = setTimeout(() => {
+      finish(false);
+    }, HANDSHAKE_TIMEOUT);
+
+    window.addEventListener("message", handler);
+    window.postMessage(
+      {
+        type: MESSAGE_TYPES.BRIDGE_HANDSHAKE,
+        source: MESSAGE_SOURCE,
+        id,
+      } satisfies MainWorldHandshake,
+      window.location.origin,
+    );
+  });
+
+  return handshakePromise;
+}
+
 /**
  * Attempts text replacement via Main World injector
  * Returns null if Main World is unavailable, otherwise returns result
@@ -74,12 +152,16 @@ async function tryMainWorldReplacement(
     return null;
   }
 
+  if (!(await detectMainWorldBridge())) {
+    return null;
+  }
+
   try {
     const messageId = `replace-${String(Date.now())}-${Math.random().toString(36).slice(2)}`;
     const selector = getElementSelector(element);
 
     // Send message to Main World
-    const message = {
+    const message: MainWorldReplaceRequest = {
       type: MESSAGE_TYPES.REPLACE_TEXT,
       source: MESSAGE_SOURCE,
       id: messageId,
@@ -88,7 +170,7 @@ async function tryMainWorldReplacement(
     };
 
     // Listen for response
-    const responsePromise = new Promise<MainWorldResponse>(
+    const responsePromise = new Promise<MainWorldReplaceResponse>(
       (resolve, reject) => {
         const timeout = setTimeout(() => {
           window.removeEventListener("message", handler);
@@ -96,23 +178,15 @@ async function tryMainWorldReplacement(
         }, MAIN_WORLD_TIMEOUT);
 
         const handler = (event: MessageEvent): void => {
-          const data: unknown = event.data;
-          if (
-            typeof data !== "object" ||
-            data === null ||
-            event.source !== window
-          ) {
-            return;
-          }
-          const record = data as Record<string, unknown>;
-          if (
-            record.type === MESSAGE_TYPES.REPLACE_TEXT_RESPONSE &&
-            record.source === MESSAGE_SOURCE &&
-            record.id === messageId
-          ) {
+          const record = isBridgeReply(
+            event,
+            MESSAGE_TYPES.REPLACE_TEXT_RESPONSE,
+            messageId,
+          );
+          if (record) {
             clearTimeout(timeout);
             window.removeEventListener("message", handler);
-            resolve(record as unknown as MainWorldResponse);
+            resolve(record as unknown as MainWorldReplaceResponse);
           }
         };
 
@@ -254,11 +328,15 @@ function replaceTextarea(
 }
 
 /**
- * Replaces text in a contenteditable element using execCommand
- * This preserves editor state (undo/redo history) for rich text editors
+ * Replaces the contents of `range` inside a contenteditable element.
+ *
+ * Prefers execCommand("insertText") so rich-text editors (ProseMirror, Quill)
+ * observe a native edit and keep their own undo history; falls back to an
+ * Input Events Level 2 dispatch, then to raw DOM mutation.
  */
-function replaceContentEditable(
+function insertIntoRange(
   element: HTMLDivElement,
+  range: Range,
   newText: string,
 ): ReplaceTextResult {
   try {
@@ -272,10 +350,7 @@ function replaceContentEditable(
     // Do not return early if cancelled in tests as JSDOM dispatchEvent
     // can be inconsistent with event cancellation.
 
-    // Select all content in the element
     if (selection) {
-      const range = document.createRange();
-      range.selectNodeContents(element);
       selection.removeAllRanges();
       selection.addRange(range);
     }
@@ -291,43 +366,40 @@ function replaceContentEditable(
       return { success: true };
     }
 
-    // Fallback: Use Input Events Level 2 API if available
-    if (typeof DataTransfer !== "undefined") {
-      try {
-        const dataTransfer = new DataTransfer();
-        dataTransfer.setData("text/plain", newText);
+    // Fallback: mutate the range directly, then notify via Input Events
+    // Level 2 (with a DataTransfer payload when the API exists).
+    range.deleteContents();
+    const textNode = document.createTextNode(newText);
+    range.insertNode(textNode);
 
-        const insertEvent = new InputEvent("input", {
+    try {
+      const dataTransfer =
+        typeof DataTransfer !== "undefined" ? new DataTransfer() : undefined;
+      dataTransfer?.setData("text/plain", newText);
+
+      element.dispatchEvent(
+        new InputEvent("input", {
           bubbles: true,
           cancelable: false,
           inputType: "insertReplacementText",
           data: newText,
-          dataTransfer,
-        });
-
-        // Clear and set content
-        element.textContent = newText;
-        element.dispatchEvent(insertEvent);
-        dispatchChangeEvent(element);
-
-        // Set cursor to end
-        if (selection) {
-          const range = document.createRange();
-          range.selectNodeContents(element);
-          range.collapse(false);
-          selection.removeAllRanges();
-          selection.addRange(range);
-        }
-
-        return { success: true };
-      } catch {
-        // Fallback to absolute minimum if InputEvent/DataTransfer fails
-      }
+          dataTransfer: dataTransfer ?? null,
+        }),
+      );
+    } catch {
+      // InputEvent/DataTransfer unsupported - change event below still fires
     }
-
-    // Absolute minimum fallback
-    element.textContent = newText;
     dispatchChangeEvent(element);
+
+    // Set cursor to end of the inserted text
+    if (selection) {
+      const caret = document.createRange();
+      caret.setStartAfter(textNode);
+      caret.collapse(true);
+      selection.removeAllRanges();
+      selection.addRange(caret);
+    }
+
     return { success: true };
   } catch (error) {
     return {
@@ -337,6 +409,40 @@ function replaceContentEditable(
   }
 }
 
+/**
+ * Replaces text in a contenteditable element using execCommand
+ * This preserves editor state (undo/redo history) for rich text editors
+ */
+function replaceContentEditable(
+  element: HTMLDivElement,
+  newText: string,
+): ReplaceTextResult {
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  return insertIntoRange(element, range, newText);
+}
+
+/**
+ * Replaces only the given range inside a contenteditable element, leaving
+ * the surrounding content untouched. The range must lie within `element`.
+ *
+ * Runs in the Isolated World: execCommand acts on the shared DOM selection,
+ * which ProseMirror and Quill both translate into their own transactions.
+ */
+export function replaceContentEditableRange(
+  element: HTMLElement | null,
+  range: Range,
+  newText: string,
+): ReplaceTextResult {
+  if (!isElementValid(element) || element instanceof HTMLTextAreaElement) {
+    return { success: false, error: "Element is not a valid contenteditable" };
+  }
+  if (!element.contains(range.commonAncestorContainer)) {
+    return { success: false, error: "Range is outside the target element" };
+  }
+  return insertIntoRange(element, range, newText);
+}
+
 /**
  * Replaces text in a textarea or contenteditable element using Isolated World
  * This is the fallback when Main World injection is unavailable
@@ -390,8 +496,14 @@ export async function replaceText(
 
 /**
  * Gets the currently active text input element
+ *
+ * @param selectors - Composer selectors to try when focus is elsewhere
+ *   (e.g. inside the overlay). Defaults to the cross-platform list; pass
+ *   `PLATFORM_INPUT_SELECTORS[platform]` for a platform-specific lookup.
  */
-export function getActiveTextInput(): TextInputElement | null {
+export function getActiveTextInput(
+  selectors: readonly string[] = DOM_SELECTORS.INPUTS,
+): TextInputElement | null {
   const activeElement = document.activeElement;
 
   if (!activeElement) {
@@ -410,8 +522,6 @@ export function getActiveTextInput(): TextInputElement | null {
   }
 
   // Fallback: search for common selectors
-  const selectors = DOM_SELECTORS.INPUTS;
-
   for (const selector of selectors) {
     const element = document.querySelector(selector);
     if (!element) continue;
@@ -0,0 +1,192 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+/**
+ * Engine Host - the AI engine's side of the offscreen channel
+ *
+ * Runs in the offscreen document (`tabs/offscreen`), which owns every model
+ * session: unlike the service worker, it is not evicted after 30 seconds of
+ * quiet, so the base session and the clone pool survive between requests.
+ * The service worker reaches it through `engine-client` over `engine-port`
+ * connections, one per call:
+ *
+ * 1. The worker connects and posts an `EngineCall`
+ * 2. The host runs it, posting callback events (CHUNK, STAGE, …) as they fire
+ * 3. One RESULT or ERROR ends the call
+ *
+ * ABORT or a disconnect cancels the call. The document lives until the
+ * worker's idle shutdown closes it.
+ */
+
+import {
+  checkBackendAvailability,
+  measureDraft,
+  optimizePromptStreaming,
+  optimizeVariants,
+  optimizeWithDecomposition,
+  optimizeWithHierarchical,
+  optimizeWithMapReduce,
+  optimizeWithRefineChain,
+  optimizeWithRewriter,
+  optimizeWithWriter,
+  resolveContextLimit,
+  selectBackend,
+  warmup,
+} from "~lib/ai-engine";
+import { PORT_NAMES } from "~lib/constants";
+import { logger } from "~lib/logger";
+import {
+  type AIOptimizeOptions,
+  type EngineCall,
+  type EngineEvent,
+  type EnginePipeline,
+  PromptTunerError,
+} from "~types";
+
+type PipelineFn = (
+  draft: string,
+  rules: string[],
+  onChunk: (chunk: string) => void,
+  options?: AIOptimizeOptions,
+) => Promise<string>;
+
+const PIPELINES: Record<EnginePipeline, PipelineFn> = {
+  single: optimizePromptStreaming,
+  refine: optimizeWithRefineChain,
+  "map-reduce": optimizeWithMapReduce,
+  hierarchical: optimizeWithHierarchical,
+  decomposition: optimizeWithDecomposition,
+  writer: optimizeWithWriter,
+  rewriter: optimizeWithRewriter,
+};
+
+/**
+ * Runs one call against the engine, reporting callbacks through `emit`.
+ * Resolves with the call's result; errors propagate to the caller.
+ */
+export async function runEngineCall(
+  call: EngineCall,
+  emit: (event: EngineEvent) => void,
+  signal: AbortSignal,
+): Promise<unknown> {
+  selectBackend(call.backend);
+
+  switch (call.method) {
+    case "availability":
+      return checkBackendAvailability();
+    case "contextLimit":
+      return resolveContextLimit();
+    case "measure":
+      return measureDraft(call.draft);
+    case "warmup":
+      return warmup(call.rules, call.templates);
+    case "variants":
+      return optimizeVariants(
+        call.draft,
+        call.rules,
+        call.count,
+        {
+          onChunk: (index, data) => {
+            emit({ type: "CANDIDATE_CHUNK", index, data });
+          },
+          onComplete: (index, text) => {
+            emit({ type: "CANDIDATE_COMPLETE", index, text });
+          },
+        },
+        {
+          signal,
+          instruction: call.instruction,
+          templates: call.templates,
+          onTokenCount: (count, limit) => {
+            emit({ type: "TOKEN_INFO", count, limit });
+          },
+        },
+      );
+    case "optimize":
+      return PIPELINES[call.pipeline](
+        call.draft,
+        call.rules,
+        (data) => {
+          emit({ type: "CHUNK", data });
+        },
+        {
+          signal,
+          instruction: call.instruction,
+          templates: call.templates,
+          onTokenCount: (count, limit) => {
+            emit({ type: "TOKEN_INFO", count, limit });
+          },
+          onStage: (stage) => {
+            emit({ type: "STAGE", stage });
+          },
+          onFallback: (fallback) => {
+            emit({ type: "FALLBACK", fallback });
+          },
+          onProgress: (progress) => {
+            emit({ type: "PROGRESS", progress });
+          },
+        },
+      );
+  }
+}
+
+/** The ERROR event describing `error` */
+export function toErrorEvent(error: unknown): EngineEvent {
+  if (error instanceof PromptTunerError) {
+    return {
+      type: "ERROR",
+      code: error.code,
+      message: error.message,
+      aborted: false,
+    };
+  }
+  return {
+    type: "ERROR",
+    code: "UNKNOWN_ERROR",
+    message: error instanceof Error ? error.message : "Unknown engine error",
+    aborted: error instanceof Error && error.name === "AbortError",
+  };
+}
+
+/** Answers `engine-port` connections from the service worker */
+export function registerEngineHost(): void {
+  chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== PORT_NAMES.ENGINE) return;
+
+    const controller = new AbortController();
+    let started = false;
+
+    const emit = (event: EngineEvent): void => {
+      if (controller.signal.aborted) return;
+      try {
+        port.postMessage(event);
+      } catch {
+        // Worker went away mid-call.
+        controller.abort();
+      }
+    };
+
+    port.onMessage.addListener((message: unknown) => {
+      const typed = message as { type?: unknown; method?: unknown };
+      if (typed.type === "ABORT") {
+        controller.abort();
+        return;
+      }
+      if (started || typeof typed.method !== "string") return;
+      started = true;
+
+      runEngineCall(message as EngineCall, emit, controller.signal)
+        .then((value) => {
+          emit({ type: "RESULT", value });
+        })
+        .catch((error: unknown) => {
+          if (!controller.signal.aborted) {
+            logger.error("Engine call failed:", error);
+          }
+          emit(toErrorEvent(error));
+        });
+    });
+
+    port.onDisconnect.addListener(() => {
+      controller.abort();
+    });
+  });
+}
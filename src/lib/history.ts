@@ -0,0 +1,138 @@
+/**
+ * Optimization History - local store of completed runs
+ *
+ * The background records every COMPLETE into `chrome.storage.local`, newest
+ * first, so past results survive reloads. The popup and the overlay's history
+ * view read it back for search, copy, and re-insert.
+ *
+ * Retention: the list is trimmed to the user's opt-in limit
+ * (`settings.historyLimit`), or to HISTORY_MAX_ENTRIES when none is set so the
+ * store stays well inside the storage.local quota.
+ */
+
+import { type HistoryEntry } from "~types";
+
+import { STORAGE_KEYS } from "~lib/constants";
+import { logger } from "~lib/logger";
+import { storage } from "~lib/storage";
+
+/** Ceiling when the user has not chosen a retention limit */
+export const HISTORY_MAX_ENTRIES = 500;
+
+/** Retention limits offered in the popup */
+export const HISTORY_LIMIT_OPTIONS = [20, 50, 100, HISTORY_MAX_ENTRIES];
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.original === "string" &&
+    typeof entry.result === "string" &&
+    typeof entry.actionId === "string" &&
+    typeof entry.ts === "number"
+  );
+}
+
+function clampLimit(limit: unknown): number {
+  if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 1) {
+    return HISTORY_MAX_ENTRIES;
+  }
+  return Math.min(Math.floor(limit), HISTORY_MAX_ENTRIES);
+}
+
+async function writeHistory(entries: HistoryEntry[]): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.HISTORY]: entries });
+}
+
+// =============================================================================
+// Read
+// =============================================================================
+
+/** All recorded runs, newest first. Malformed entries are skipped. */
+export async function getHistory(): Promise<HistoryEntry[]> {
+  try {
+    const result = await storage.get(STORAGE_KEYS.HISTORY);
+    const raw = result[STORAGE_KEYS.HISTORY];
+    return Array.isArray(raw) ? raw.filter(isHistoryEntry) : [];
+  } catch (error) {
+    logger.warn("Failed to read history:", error);
+    return [];
+  }
+}
+
+/** The effective retention limit */
+export async function getHistoryLimit(): Promise<number> {
+  const result = await storage.get(STORAGE_KEYS.HISTORY_LIMIT);
+  return clampLimit(result[STORAGE_KEYS.HISTORY_LIMIT]);
+}
+
+/**
+ * Full-text search over original, result, and action label. Every
+ * whitespace-separated term must match (case-insensitive); an empty query
+ * returns all entries.
+ */
+export function searchHistory(
+  entries: HistoryEntry[],
+  query: string,
+): HistoryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+
+  return entries.filter((entry) => {
+    const haystack =
+      `${entry.original}\n${entry.result}\n${entry.actionLabel}`.toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+// =============================================================================
+// Write
+// =============================================================================
+
+/**
+ * Records a completed run at the head of the history. Re-running the same
+ * draft and action with the same result refreshes the existing entry instead
+ * of adding a duplicate.
+ */
+export async function addHistoryEntry(
+  entry: Omit<HistoryEntry, "id" | "ts">,
+): Promise<HistoryEntry> {
+  const [entries, limit] = await Promise.all([getHistory(), getHistoryLimit()]);
+
+  const recorded: HistoryEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    ts: Date.now(),
+  };
+  const rest = entries.filter(
+    (e) =>
+      !(
+        e.actionId === entry.actionId &&
+        e.original === entry.original &&
+        e.result === entry.result
+      ),
+  );
+
+  await writeHistory([recorded, ...rest].slice(0, limit));
+  return recorded;
+}
+
+/** Sets the retention limit (null restores the default) and trims to it */
+export async function setHistoryLimit(limit: number | null): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.HISTORY_LIMIT]: limit });
+  const entries = await getHistory();
+  const effective = clampLimit(limit);
+  if (entries.length > effective) {
+    await writeHistory(entries.slice(0, effective));
+  }
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  const entries = await getHistory();
+  await writeHistory(entries.filter((e) => e.id !== id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await writeHistory([]);
+}
@@ -12,15 +12,21 @@ export { default as ArrowRight } from "phosphor-react/dist/icons/ArrowRight.esm.
 export { default as CaretDown } from "phosphor-react/dist/icons/CaretDown.esm.js";
 export { default as Check } from "phosphor-react/dist/icons/Check.esm.js";
 export { default as CheckCircle } from "phosphor-react/dist/icons/CheckCircle.esm.js";
+export { default as ClockCounterClockwise } from "phosphor-react/dist/icons/ClockCounterClockwise.esm.js";
 export { default as Command } from "phosphor-react/dist/icons/Command.esm.js";
+export { default as Copy } from "phosphor-react/dist/icons/Copy.esm.js";
 export { default as Cpu } from "phosphor-react/dist/icons/Cpu.esm.js";
+export { default as FlowArrow } from "phosphor-react/dist/icons/FlowArrow.esm.js";
 export { default as Funnel } from "phosphor-react/dist/icons/Funnel.esm.js";
 export { default as Keyboard } from "phosphor-react/dist/icons/Keyboard.esm.js";
 export { default as Lightning } from "phosphor-react/dist/icons/Lightning.esm.js";
 export { default as ListDashes } from "phosphor-react/dist/icons/ListDashes.esm.js";
+export { default as MagnifyingGlass } from "phosphor-react/dist/icons/MagnifyingGlass.esm.js";
+export { default as PencilSimple } from "phosphor-react/dist/icons/PencilSimple.esm.js";
 export { default as Play } from "phosphor-react/dist/icons/Play.esm.js";
 export { default as Sparkle } from "phosphor-react/dist/icons/Sparkle.esm.js";
 export { default as Table } from "phosphor-react/dist/icons/Table.esm.js";
+export { default as Trash } from "phosphor-react/dist/icons/Trash.esm.js";
 export { default as TreeStructure } from "phosphor-react/dist/icons/TreeStructure.esm.js";
 export { default as UserCircle } from "phosphor-react/dist/icons/UserCircle.esm.js";
 export { default as WarningCircle } from "phosphor-react/dist/icons/WarningCircle.esm.js";
@@ -0,0 +1,38 @@
+/**
+ * Idle Shutdown - how long the background keeps warm model sessions
+ *
+ * Warm sessions hold model memory for every tab at once, so the background
+ * releases them once no tab has asked for them (a WARMUP or an optimization)
+ * for `settings.idleShutdownMinutes`. The next request pays the cold start
+ * again.
+ */
+
+import { STORAGE_KEYS } from "~lib/constants";
+import { storage } from "~lib/storage";
+
+/** Used when the user has not chosen a period */
+export const IDLE_SHUTDOWN_DEFAULT_MINUTES = 5;
+
+/** Idle periods offered in the popup */
+export const IDLE_SHUTDOWN_OPTIONS = [1, IDLE_SHUTDOWN_DEFAULT_MINUTES, 15, 30];
+
+function clampMinutes(minutes: unknown): number {
+  if (typeof minutes !== "number" || !Number.isFinite(minutes)) {
+    return IDLE_SHUTDOWN_DEFAULT_MINUTES;
+  }
+  // chrome.alarms fires no sooner than 30s after scheduling.
+  return Math.min(Math.max(minutes, 0.5), 24 * 60);
+}
+
+/** The effective idle period, in minutes */
+export async function getIdleShutdownMinutes(): Promise<number> {
+  const result = await storage.get(STORAGE_KEYS.IDLE_SHUTDOWN_MINUTES);
+  return clampMinutes(result[STORAGE_KEYS.IDLE_SHUTDOWN_MINUTES]);
+}
+
+/** Sets the idle period (null restores the default) */
+export async function setIdleShutdownMinutes(
+  minutes: number | null,
+): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.IDLE_SHUTDOWN_MINUTES]: minutes });
+}
@@ -0,0 +1,242 @@
+/**
+ * Local backend - an OpenAI-compatible chat server on localhost
+ *
+ * Emulates the Prompt API's stateful sessions over the stateless
+ * `/chat/completions` endpoint (llama.cpp's server, Ollama, LM Studio, …):
+ * each session keeps its own message history and resends it every turn, so
+ * multi-turn pipelines such as critique → polish behave as they do on Nano.
+ * Streaming reads the server-sent events body.
+ *
+ * Token counts are estimated at ~4 chars/token - the OpenAI API has no
+ * tokenizer endpoint to ask. Like Nano, a session that would outgrow its
+ * context drops its oldest turns (never the system prompt) and fires
+ * `quotaoverflow`.
+ */
+
+import { type AIAvailability, type LocalBackendSettings } from "~types";
+
+import {
+  type ModelBackend,
+  type ModelMessage,
+  type ModelPromptOptions,
+  type ModelSession,
+} from "~lib/model-backend";
+
+const AVAILABILITY_TIMEOUT_MS = 2_000;
+
+/** A message as the chat completions API takes it */
+interface ChatMessage {
+  role: "system" | ModelMessage["role"];
+  content: string;
+}
+
+interface ChatCompletionBody {
+  choices?: {
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+  }[];
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * The content delta carried by one SSE line: "" for lines without content
+ * (comments, role-only deltas, malformed JSON), null once the server sends
+ * `[DONE]`.
+ */
+function parseEventLine(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return "";
+  const payload = trimmed.slice("data:".length).trim();
+  if (payload === "[DONE]") return null;
+  try {
+    const body = JSON.parse(payload) as ChatCompletionBody;
+    return body.choices?.[0]?.delta?.content ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/** Yields content deltas from a streaming chat completion response */
+async function* readDeltas(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        const delta = parseEventLine(line);
+        if (delta === null) return;
+        if (delta) yield delta;
+      }
+    }
+    const delta = parseEventLine(pending + decoder.decode());
+    if (delta) yield delta;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function createLocalSession(
+  settings: LocalBackendSettings,
+  temperature: number,
+  history: ChatMessage[],
+): ModelSession {
+  const request = async (
+    messages: ChatMessage[],
+    stream: boolean,
+    options?: ModelPromptOptions,
+  ): Promise<Response> => {
+    const response = await fetch(`${settings.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...(settings.model ? { model: settings.model } : {}),
+        messages,
+        temperature,
+        stream,
+        ...(options?.responseConstraint
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: {
+                  name: "response",
+                  schema: options.responseConstraint,
+                },
+              },
+            }
+          : {}),
+      }),
+      signal: options?.signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Local model server returned ${String(response.status)} ${response.statusText}`.trim(),
+      );
+    }
+    return response;
+  };
+
+  const usage = (): number =>
+    history.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+  /** Drops the oldest turns until `incoming` fits, reporting any overflow */
+  const makeRoom = (incoming: string): void => {
+    let overflowed = false;
+    while (
+      history.length > 1 &&
+      usage() + estimateTokens(incoming) > settings.contextTokens
+    ) {
+      history.splice(1, 1);
+      overflowed = true;
+    }
+    if (overflowed) session.onquotaoverflow?.(new Event("quotaoverflow"));
+  };
+
+  const session: ModelSession = {
+    inputQuota: settings.contextTokens,
+    get inputUsage() {
+      return usage();
+    },
+    onquotaoverflow: null,
+
+    async prompt(input, options) {
+      makeRoom(input);
+      const turn: ChatMessage = { role: "user", content: input };
+      const response = await request([...history, turn], false, options);
+      const body = (await response.json()) as ChatCompletionBody;
+      const reply = body.choices?.[0]?.message?.content ?? "";
+      history.push(turn, { role: "assistant", content: reply });
+      return reply;
+    },
+
+    promptStreaming(input, options) {
+      makeRoom(input);
+      const turn: ChatMessage = { role: "user", content: input };
+      return new ReadableStream<string>({
+        async start(controller) {
+          let reply = "";
+          try {
+            const response = await request([...history, turn], true, options);
+            for await (const delta of readDeltas(response)) {
+              reply += delta;
+              controller.enqueue(delta);
+            }
+            // Only a finished turn joins the history, as with the Prompt API.
+            history.push(turn, { role: "assistant", content: reply });
+            controller.close();
+          } catch (error) {
+            controller.error(error);
+          }
+        },
+      });
+    },
+
+    measureInputUsage: (input) => Promise.resolve(estimateTokens(input)),
+
+    append(messages) {
+      makeRoom(messages.map((m) => m.content).join(""));
+      history.push(...messages);
+      return Promise.resolve();
+    },
+
+    clone: () =>
+      Promise.resolve(createLocalSession(settings, temperature, [...history])),
+
+    destroy() {
+      history.length = 0;
+    },
+  };
+  return session;
+}
+
+export function createLocalBackend(
+  settings: LocalBackendSettings,
+): ModelBackend {
+  return {
+    id: "local",
+    label: "Local model",
+    writingAssistance: false,
+    isSupported: () => typeof fetch === "function",
+
+    async availability(): Promise<AIAvailability> {
+      const controller = new AbortController();
+      const timer = setTimeout(() => {
+        controller.abort();
+      }, AVAILABILITY_TIMEOUT_MS);
+      try {
+        const response = await fetch(`${settings.baseUrl}/models`, {
+          signal: controller.signal,
+        });
+        if (response.ok) return { available: true };
+        return {
+          available: false,
+          reason: `The model server at ${settings.baseUrl} answered ${String(response.status)}.`,
+        };
+      } catch {
+        return {
+          available: false,
+          reason: `No model server is reachable at ${settings.baseUrl}. Start llama.cpp or Ollama, or switch back to Gemini Nano.`,
+        };
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+
+    create: (options) =>
+      Promise.resolve(
+        createLocalSession(settings, options.temperature, [
+          { role: "system", content: options.systemPrompt },
+        ]),
+      ),
+  };
+}
@@ -0,0 +1,302 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+/**
+ * Main World Bridge - text replacement from the page's own JS context
+ *
+ * Runs inside the host page's main world (see `src/contents/main-world.ts`),
+ * where framework internals are reachable: React's value tracker, the
+ * ProseMirror `EditorView` that TipTap hangs off its root node, and the Quill
+ * instance stored on `.ql-container`. The isolated-world content script can
+ * only poke the DOM, which these editors often overwrite on their next render.
+ *
+ * Protocol (all via `window.postMessage`, same origin, `source: "prompt-tuner"`):
+ * 1. Isolated world sends `BRIDGE_HANDSHAKE`; bridge answers `BRIDGE_READY`.
+ *    The bridge also announces `BRIDGE_READY` once on install.
+ * 2. Isolated world sends `REPLACE_TEXT` with a selector from
+ *    `getElementSelector`; bridge answers `REPLACE_TEXT_RESPONSE`.
+ */
+
+import {
+  type MainWorldBridgeMessage,
+  type MainWorldReplaceRequest,
+  type MainWorldReplaceResponse,
+  type ReplaceTextResult,
+} from "~types";
+
+import { DOM_SELECTORS, MESSAGE_SOURCES, MESSAGE_TYPES } from "~lib/constants";
+
+const MESSAGE_SOURCE = MESSAGE_SOURCES.PROMPT_TUNER;
+
+// =============================================================================
+// Editor Shapes (duck-typed - the page owns these objects)
+// =============================================================================
+
+interface ProseMirrorViewLike {
+  state: {
+    doc: { content: { size: number } };
+    tr: {
+      delete: (from: number, to: number) => unknown;
+      insertText: (text: string, from?: number, to?: number) => unknown;
+    };
+  };
+  dispatch: (tr: unknown) => void;
+  focus: () => void;
+  pasteText?: (text: string) => boolean;
+}
+
+interface QuillLike {
+  setText: (text: string, source?: string) => unknown;
+  focus: () => void;
+}
+
+function getProseMirrorView(element: HTMLElement): ProseMirrorViewLike | null {
+  // TipTap stores the editor on its root node: `view.dom.editor = editor`.
+  const host = element.closest(".ProseMirror") ?? element;
+  const editor = (host as unknown as { editor?: { view?: unknown } }).editor;
+  const view = editor?.view as ProseMirrorViewLike | undefined;
+  if (view && typeof view.dispatch === "function") {
+    return view;
+  }
+  return null;
+}
+
+function getQuill(element: HTMLElement): QuillLike | null {
+  const container = element.closest(".ql-container");
+  if (!container) return null;
+
+  // Quill 1.x keeps a back-reference on the container; Quill 2.x exposes
+  // `Quill.find()` on the global constructor instead.
+  const legacy = (container as unknown as { __quill?: QuillLike }).__quill;
+  if (legacy && typeof legacy.setText === "function") return legacy;
+
+  const QuillCtor = (
+    window as unknown as {
+      Quill?: { find?: (node: Element) => QuillLike | null };
+    }
+  ).Quill;
+  const found = QuillCtor?.find?.(container);
+  return found && typeof found.setText === "function" ? found : null;
+}
+
+// =============================================================================
+// Target Resolution
+// =============================================================================
+
+/**
+ * Resolves the element the isolated world asked for. The selector comes from
+ * `getElementSelector` and may be absent when the element has no stable hook,
+ * in which case we fall back to focus and then the known composer selectors.
+ */
+export function resolveTarget(selector?: string): HTMLElement | null {
+  if (selector) {
+    try {
+      const element = document.querySelector(selector);
+      if (element instanceof HTMLElement) return element;
+    } catch {
+      // Invalid selector - fall through to heuristics.
+    }
+  }
+
+  const active = document.activeElement;
+  if (
+    active instanceof HTMLTextAreaElement ||
+    (active instanceof HTMLElement && active.isContentEditable)
+  ) {
+    return active;
+  }
+
+  for (const candidate of DOM_SELECTORS.INPUTS) {
+    const element = document.querySelector(candidate);
+    if (element instanceof HTMLElement) return element;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Replacement Strategies
+// =============================================================================
+
+function replaceNativeField(
+  element: HTMLTextAreaElement | HTMLInputElement,
+  text: string,
+): ReplaceTextResult {
+  // React tracks `value` through an instance-level setter; calling the
+  // prototype setter bypasses it so the following input event is not deduped.
+  const proto =
+    element instanceof HTMLTextAreaElement
+      ? window.HTMLTextAreaElement.prototype
+      : window.HTMLInputElement.prototype;
+  const descriptor = Object.getOwnPropertyDescriptor(proto, "value");
+  if (descriptor?.set) {
+    descriptor.set.call(element, text);
+  } else {
+    element.value = text;
+  }
+
+  element.dispatchEvent(
+    new InputEvent("input", {
+      bubbles: true,
+      inputType: "insertReplacementText",
+      data: text,
+    }),
+  );
+  element.dispatchEvent(new Event("change", { bubbles: true }));
+  element.focus();
+  element.setSelectionRange(text.length, text.length);
+  return { success: true };
+}
+
+function replaceProseMirror(
+  view: ProseMirrorViewLike,
+  text: string,
+): ReplaceTextResult {
+  view.focus();
+  const size = view.state.doc.content.size;
+
+  // `pasteText` (prosemirror-view ≥1.29) runs the editor's own clipboard
+  // parser, so newlines become paragraphs instead of literal "\n" runs.
+  if (typeof view.pasteText === "function") {
+    view.dispatch(view.state.tr.delete(0, size));
+    if (view.pasteText(text)) return { success: true };
+  }
+
+  view.dispatch(view.state.tr.insertText(text, 0, view.state.doc.content.size));
+  return { success: true };
+}
+
+function replaceQuill(quill: QuillLike, text: string): ReplaceTextResult {
+  quill.setText(text, "user");
+  quill.focus();
+  return { success: true };
+}
+
+function replaceGenericEditable(
+  element: HTMLElement,
+  text: string,
+): ReplaceTextResult {
+  element.focus();
+  const selection = window.getSelection();
+  if (selection) {
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  const inserted =
+    typeof document.execCommand === "function" &&
+    document.execCommand("insertText", false, text);
+  if (!inserted) {
+    element.textContent = text;
+    element.dispatchEvent(
+      new InputEvent("input", {
+        bubbles: true,
+        inputType: "insertReplacementText",
+        data: text,
+      }),
+    );
+  }
+  return { success: true };
+}
+
+/**
+ * Replaces the full contents of `element` using the most specific editor API
+ * available, falling back to execCommand for unknown contenteditables.
+ */
+export function applyTextInMainWorld(
+  element: HTMLElement,
+  text: string,
+): ReplaceTextResult {
+  try {
+    if (
+      element instanceof HTMLTextAreaElement ||
+      element instanceof HTMLInputElement
+    ) {
+      if (element.disabled || element.readOnly) {
+        return { success: false, error: "Target input is not editable" };
+      }
+      return replaceNativeField(element, text);
+    }
+
+    if (!element.isContentEditable && element.contentEditable !== "true") {
+      return { success: false, error: "Unsupported element type" };
+    }
+
+    const view = getProseMirrorView(element);
+    if (view) return replaceProseMirror(view, text);
+
+    const quill = getQuill(element);
+    if (quill) return replaceQuill(quill, text);
+
+    return replaceGenericEditable(element, text);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// =============================================================================
+// Message Loop
+// =============================================================================
+
+function post(message: MainWorldBridgeMessage): void {
+  window.postMessage(message, window.location.origin);
+}
+
+function isBridgeMessage(data: unknown): data is MainWorldBridgeMessage {
+  if (typeof data !== "object" || data === null) return false;
+  const record = data as Record<string, unknown>;
+  return record.source === MESSAGE_SOURCE && typeof record.type === "string";
+}
+
+function handleReplace(request: MainWorldReplaceRequest): void {
+  const target = resolveTarget(request.selector);
+  const result: ReplaceTextResult = target
+    ? applyTextInMainWorld(target, request.text)
+    : { success: false, error: "Target element not found" };
+
+  const response: MainWorldReplaceResponse = {
+    type: MESSAGE_TYPES.REPLACE_TEXT_RESPONSE,
+    source: MESSAGE_SOURCE,
+    id: request.id,
+    success: result.success,
+    error: result.error,
+  };
+  post(response);
+}
+
+/**
+ * Starts answering bridge messages. Returns a teardown function. Safe to call
+ * more than once - only the first call per window installs a listener.
+ */
+export function installMainWorldBridge(): () => void {
+  const flagged = window as unknown as { __promptTunerBridge?: boolean };
+  if (flagged.__promptTunerBridge) return () => undefined;
+  flagged.__promptTunerBridge = true;
+
+  const handler = (event: MessageEvent): void => {
+    if (event.source !== window) return;
+    const data: unknown = event.data;
+    if (!isBridgeMessage(data)) return;
+
+    if (data.type === MESSAGE_TYPES.BRIDGE_HANDSHAKE) {
+      post({
+        type: MESSAGE_TYPES.BRIDGE_READY,
+        source: MESSAGE_SOURCE,
+        id: data.id,
+      });
+    } else if (data.type === MESSAGE_TYPES.REPLACE_TEXT) {
+      handleReplace(data);
+    }
+  };
+
+  window.addEventListener("message", handler);
+  post({ type: MESSAGE_TYPES.BRIDGE_READY, source: MESSAGE_SOURCE });
+
+  return () => {
+    window.removeEventListener("message", handler);
+    flagged.__promptTunerBridge = false;
+  };
+}
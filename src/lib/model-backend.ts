@@ -0,0 +1,202 @@
+/**
+ * Model backends - what the AI engine runs its sessions on
+ *
+ * The engine's pipelines (single-shot, refine chain, map-reduce,
+ * decomposition) only need a stateful chat session: create, clone, append
+ * context, prompt, stream, measure, destroy. `ModelSession` is that subset of
+ * the Prompt API, so a Gemini Nano `LanguageModel` satisfies it as-is and
+ * other backends only have to emulate it.
+ *
+ * Backends:
+ * - `nano`: Chrome's built-in Gemini Nano (the default)
+ * - `local`: an OpenAI-compatible server on localhost (llama.cpp, Ollama, …)
+ *   for machines where Nano is unavailable
+ *
+ * The choice is stored under `settings.backend` and picked in the popup.
+ */
+
+import {
+  type AIAvailability,
+  type BackendSettings,
+  type LocalBackendSettings,
+  type ModelBackendId,
+} from "~types";
+
+import {
+  checkAIAvailability,
+  isLanguageModelAvailable,
+} from "~lib/ai-availability";
+import { STORAGE_KEYS } from "~lib/constants";
+import { createLocalBackend } from "~lib/local-backend";
+import { logger } from "~lib/logger";
+import { storage } from "~lib/storage";
+
+// =============================================================================
+// Interfaces
+// =============================================================================
+
+/** A conversation turn; the system prompt is fixed at creation */
+export interface ModelMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ModelPromptOptions {
+  signal?: AbortSignal;
+  /** JSON schema the reply must satisfy; backends may reject it */
+  responseConstraint?: Record<string, unknown>;
+}
+
+export interface ModelCreateOptions {
+  systemPrompt: string;
+  temperature: number;
+  topK: number;
+}
+
+/**
+ * A stateful conversation. Each prompt is answered in the context of the
+ * initial prompts, appended messages, and earlier turns.
+ */
+export interface ModelSession {
+  /** Tokens of input the session accepts */
+  readonly inputQuota: number;
+  /** Tokens the session's context currently holds */
+  readonly inputUsage: number;
+  /**
+   * Fired when a turn no longer fits and the oldest turns were dropped -
+   * for the engine's sessions, that is the rules and the draft.
+   */
+  onquotaoverflow: ((event: Event) => void) | null;
+  prompt(input: string, options?: ModelPromptOptions): Promise<string>;
+  promptStreaming(
+    input: string,
+    options?: ModelPromptOptions,
+  ): ReadableStream<string>;
+  /** Tokens `input` would use; may be an estimate */
+  measureInputUsage(input: string): Promise<number>;
+  /** Adds context without asking for a reply */
+  append(messages: ModelMessage[]): Promise<void>;
+  /** An independent copy sharing the history so far */
+  clone(): Promise<ModelSession>;
+  destroy(): void;
+}
+
+export interface ModelBackend {
+  readonly id: ModelBackendId;
+  /** Shown in the popup and in error messages */
+  readonly label: string;
+  /**
+   * Whether Chrome's Writer / Rewriter / Summarizer APIs belong to this
+   * backend. When false, actions routed to them fall back to the prompt
+   * engine.
+   */
+  readonly writingAssistance: boolean;
+  /** Cheap synchronous check that the backend can be used at all */
+  isSupported(): boolean;
+  availability(): Promise<AIAvailability>;
+  create(options: ModelCreateOptions): Promise<ModelSession>;
+}
+
+// =============================================================================
+// Gemini Nano
+// =============================================================================
+
+export const nanoBackend: ModelBackend = {
+  id: "nano",
+  label: "Gemini Nano",
+  writingAssistance: true,
+  isSupported: isLanguageModelAvailable,
+  availability: checkAIAvailability,
+  create: ({ systemPrompt, temperature, topK }) =>
+    LanguageModel.create({
+      initialPrompts: [{ role: "system", content: systemPrompt }],
+      temperature,
+      topK,
+      expectedOutputs: [{ type: "text", languages: ["en"] }],
+    }),
+};
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+export const DEFAULT_LOCAL_BACKEND: LocalBackendSettings = {
+  baseUrl: "http://localhost:11434/v1",
+  model: "",
+  contextTokens: 4096,
+};
+
+export const DEFAULT_BACKEND_SETTINGS: BackendSettings = {
+  id: "nano",
+  local: DEFAULT_LOCAL_BACKEND,
+};
+
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1"];
+
+/**
+ * True for http URLs on the loopback interface - the only hosts the
+ * extension has permission to reach, and the only place a prompt may go.
+ */
+export function isLocalUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" && LOCAL_HOSTNAMES.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** Validates raw storage contents, falling back to defaults field by field */
+export function parseBackendSettings(raw: unknown): BackendSettings {
+  if (typeof raw !== "object" || raw === null) return DEFAULT_BACKEND_SETTINGS;
+  const record = raw as Record<string, unknown>;
+  const local = (
+    typeof record.local === "object" && record.local !== null
+      ? record.local
+      : {}
+  ) as Record<string, unknown>;
+
+  return {
+    id: record.id === "local" ? "local" : "nano",
+    local: {
+      baseUrl:
+        typeof local.baseUrl === "string" && isLocalUrl(local.baseUrl)
+          ? local.baseUrl.replace(/\/+$/, "")
+          : DEFAULT_LOCAL_BACKEND.baseUrl,
+      model:
+        typeof local.model === "string"
+          ? local.model.trim()
+          : DEFAULT_LOCAL_BACKEND.model,
+      contextTokens:
+        typeof local.contextTokens === "number" &&
+        Number.isFinite(local.contextTokens) &&
+        local.contextTokens >= 512
+          ? Math.floor(local.contextTokens)
+          : DEFAULT_LOCAL_BACKEND.contextTokens,
+    },
+  };
+}
+
+/** The stored backend choice, or the defaults when unset or unreadable */
+export async function loadBackendSettings(): Promise<BackendSettings> {
+  try {
+    const result = await storage.get(STORAGE_KEYS.BACKEND);
+    return parseBackendSettings(result[STORAGE_KEYS.BACKEND]);
+  } catch (error) {
+    logger.warn("Failed to load backend settings:", error);
+    return DEFAULT_BACKEND_SETTINGS;
+  }
+}
+
+export async function saveBackendSettings(
+  settings: BackendSettings,
+): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.BACKEND]: settings });
+}
+
+/** Instantiates the backend the settings select */
+export function createBackend(settings: BackendSettings): ModelBackend {
+  return settings.id === "local"
+    ? createLocalBackend(settings.local)
+    : nanoBackend;
+}
@@ -0,0 +1,145 @@
+/**
+ * Output sanitizer - strips conversational framing from model output
+ *
+ * "Return only the improved prompt" and the responseConstraint are the
+ * contract; this is the defensive cleanup for when a model still opens with
+ * "Sure, here's the improved prompt:", wraps its answer in `<result>` tags or
+ * in quotes.
+ *
+ * It works incrementally so the streamed text never shows what the final
+ * text drops: `push` holds back the first PREFIX_WINDOW characters until the
+ * framing can be judged, then passes text through as it arrives, holding
+ * back only a tail that may still turn out to be trailing whitespace, a
+ * closing quote or a closing tag. The deltas joined together equal
+ * `sanitizeOutput` of the whole output, however it was chunked.
+ */
+
+/** Characters held back from the start of the output to judge its framing */
+const PREFIX_WINDOW = 120;
+
+/** Wrapper tags whose content is the answer, anywhere in the prefix window */
+const WRAPPER_OPEN =
+  /<(result|improved_prompt|optimized_prompt|rewritten_prompt)>/i;
+
+/** Framing stripped from the start, in order: "Sure!", then "Here's …:" */
+const PREAMBLE = [
+  /^(?:sure|okay|ok|certainly|of course|absolutely)[!,.]+/i,
+  /^(?:here(?:\s+is|'s|’s)\s+(?:(?:the|your|an?|my)\s+)?(?:\w+\s+){0,2}?(?:prompt|version|rewrite)\b|(?:(?:the|your)\s+)?(?:optimized|improved|rewritten|revised|refined|updated|enhanced)\s+(?:prompt|version)\b)[^\n:]{0,60}:/i,
+];
+
+const OPEN_QUOTES = `"'“‘`;
+const CLOSE_QUOTES = `"'”’`;
+
+export interface OutputSanitizer {
+  /** Clean text that is safe to show for this chunk, possibly empty */
+  push: (chunk: string) => string;
+  /** The rest, once the output has ended */
+  flush: () => string;
+}
+
+/** Where the answer starts within the prefix window */
+function answerStart(window: string): { start: number; close?: string } {
+  const wrapper = WRAPPER_OPEN.exec(window);
+  if (wrapper?.[1]) {
+    return {
+      start: wrapper.index + wrapper[0].length,
+      close: `</${wrapper[1].toLowerCase()}>`,
+    };
+  }
+  let start = 0;
+  for (const pattern of PREAMBLE) {
+    const rest = window.slice(start);
+    const trimmed = rest.trimStart();
+    const match = pattern.exec(trimmed);
+    if (match) start += rest.length - trimmed.length + match[0].length;
+  }
+  return { start };
+}
+
+export function createOutputSanitizer(): OutputSanitizer {
+  let head = "";
+  let decided = false;
+  /** Closing tag that ends the answer, lowercased */
+  let close: string | undefined;
+  let started = false;
+  let quoted = false;
+  let done = false;
+  let pending = "";
+
+  /** Drops trailing whitespace and, if the answer opened with one, a quote */
+  const finish = (text: string): string => {
+    let end = text.trimEnd();
+    if (quoted && CLOSE_QUOTES.includes(end.slice(-1))) {
+      end = end.slice(0, -1).trimEnd();
+    }
+    return end;
+  };
+
+  /** Index from which `text` must be held back - see `finish` */
+  const heldFrom = (text: string): number => {
+    let cut = text.length;
+    if (close) {
+      for (let i = Math.max(0, text.length - close.length + 1); i < cut; i++) {
+        if (close.startsWith(text.slice(i).toLowerCase())) cut = i;
+      }
+    }
+    return finish(text.slice(0, cut)).length;
+  };
+
+  const body = (chunk: string): string => {
+    if (done) return "";
+    let text = pending + chunk;
+    pending = "";
+    if (!started) {
+      text = text.trimStart();
+      if (!text) return "";
+      started = true;
+      if (OPEN_QUOTES.includes(text.charAt(0))) {
+        quoted = true;
+        text = text.slice(1);
+      }
+    }
+    if (close) {
+      const end = text.search(new RegExp(close, "i"));
+      if (end !== -1) {
+        done = true;
+        return finish(text.slice(0, end));
+      }
+    }
+    const cut = heldFrom(text);
+    pending = text.slice(cut);
+    return text.slice(0, cut);
+  };
+
+  const decide = (): string => {
+    decided = true;
+    const { start, close: closeTag } = answerStart(
+      head.slice(0, PREFIX_WINDOW),
+    );
+    close = closeTag;
+    const rest = head.slice(start);
+    head = "";
+    return body(rest);
+  };
+
+  return {
+    push: (chunk) => {
+      if (decided) return body(chunk);
+      head += chunk;
+      return head.length < PREFIX_WINDOW ? "" : decide();
+    },
+    flush: () => {
+      const out = decided ? "" : decide();
+      const rest = done ? "" : finish(pending);
+      pending = "";
+      done = true;
+      return out + rest;
+    },
+  };
+}
+
+/** The whole-string form, for outputs that were not streamed */
+export function sanitizeOutput(rawOutput: string): string {
+  const sanitizer = createOutputSanitizer();
+  return sanitizer.push(rawOutput) + sanitizer.flush();
+}
@@ -0,0 +1,301 @@
+/**
+ * Preservation check - did the rewrite keep what the draft said?
+ *
+ * A deterministic comparison of the draft and the finished result, run after
+ * every pipeline. It looks for facts the draft states that the result no
+ * longer contains - numbers, names, URLs, code identifiers - for questions
+ * and explicit constraints whose wording has mostly disappeared, and for a
+ * result far longer than the base prompt's "keep improvements proportional
+ * to the input length" allows.
+ *
+ * Findings are `ResultWarning`s, one per kind, listing what went missing.
+ * They are hints for the user to check before inserting, not errors: a
+ * rewrite may legitimately spell "3" as "three" or fold a question into an
+ * instruction, so the checks lean towards staying quiet.
+ */
+
+import { type ResultWarning } from "~types";
+
+/** Results longer than this many times the draft (in words) are flagged… */
+const INFLATION_RATIO = 3;
+/** …unless they added fewer words than this - short drafts may grow a lot */
+const INFLATION_MIN_ADDED_WORDS = 150;
+/** Share of a sentence's content words the result must still contain */
+const SENTENCE_OVERLAP = 0.6;
+/** Findings list at most this many items each */
+const MAX_ITEMS = 5;
+
+const URL = /\bhttps?:\/\/[^\s<>"'`]+/g;
+const BACKTICKED = /`([^`\n]+)`/g;
+const NUMBER = /(?<![\w.])\d+(?:[.,:/-]\d+)*%?/g;
+const LIST_MARKER = /^\s*\d+[.)]\s/gm;
+const IDENTIFIERS = [
+  /\b[A-Za-z_$][\w$]+(?:\.[A-Za-z_$][\w$]+)+\b/g, // dotted: os.path, index.ts
+  /\b[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)+\b/g, // camelCase
+  /\b[A-Za-z][A-Za-z0-9]*(?:_[A-Za-z0-9]+)+\b/g, // snake_case
+  /\b[A-Za-z_$][\w$]*\(\)/g, // calls: init()
+];
+/** Runs of capitalized words, e.g. "Acme Corp" or "PostgreSQL" */
+const CAPITALIZED =
+  /\b[A-Z][A-Za-z0-9]*(?:[-'][A-Za-z0-9]+)*(?:[ \t]+[A-Z][A-Za-z0-9]*)*/g;
+const CONSTRAINT =
+  /\b(?:must|never|always|only|do not|don't|avoid|without|at most|at least|no more than|exactly|under \d+|limit(?:ed)? to|required?)\b/i;
+
+const NUMBER_WORDS = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+];
+
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "are",
+  "but",
+  "not",
+  "you",
+  "your",
+  "with",
+  "this",
+  "that",
+  "what",
+  "which",
+  "how",
+  "why",
+  "when",
+  "where",
+  "who",
+  "can",
+  "could",
+  "would",
+  "should",
+  "does",
+  "did",
+  "has",
+  "have",
+  "was",
+  "were",
+  "will",
+  "from",
+  "into",
+  "about",
+  "there",
+  "their",
+  "they",
+  "them",
+  "its",
+  "also",
+  "just",
+  "any",
+  "all",
+  "use",
+  "make",
+  "must",
+  "never",
+  "always",
+  "only",
+  "don't",
+  "avoid",
+  "without",
+  "most",
+  "least",
+  "more",
+  "than",
+  "exactly",
+  "please",
+]);
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+/** Draft text with URLs and inline code blanked, for the prose checks */
+function proseOf(text: string): string {
+  return text.replace(URL, " ").replace(BACKTICKED, " ");
+}
+
+const normalizeNumber = (n: string): string =>
+  n.replace(/(\d),(?=\d{3})/g, "$1");
+
+function numbersIn(text: string, skipListMarkers: boolean): string[] {
+  const prose = skipListMarkers ? text.replace(LIST_MARKER, " ") : text;
+  return (prose.match(NUMBER) ?? []).map(normalizeNumber);
+}
+
+function identifiersIn(text: string): string[] {
+  const found = [...text.matchAll(BACKTICKED)].map((m) => m[1] ?? "");
+  const withoutUrls = text.replace(URL, " ");
+  for (const pattern of IDENTIFIERS) {
+    found.push(...(withoutUrls.match(pattern) ?? []));
+  }
+  return found;
+}
+
+/**
+ * Capitalized words that are not just the start of a sentence, line or list
+ * item - the draft's names, products and acronyms.
+ */
+function namesIn(prose: string): string[] {
+  const names: string[] = [];
+  for (const match of prose.matchAll(CAPITALIZED)) {
+    // What precedes the match, with the start of the text as a line break
+    const from = Math.max(0, match.index - 12);
+    const before = (from === 0 ? "\n" : "") + prose.slice(from, match.index);
+    const startsSentence =
+      /[.!?:;\n]\s*$/.test(before) ||
+      /\n[ \t]*(?:[-*+>]|\d+[.)])[ \t]+$/.test(before);
+    let name = match[0];
+    if (startsSentence) {
+      // "Ask Alice" - the sentence's first word is not a name, what follows
+      // may still be.
+      name = name.replace(/^\S+\s*/, "");
+    }
+    if (name.length > 1 && name !== "I") names.push(name);
+  }
+  return names;
+}
+
+function sentencesIn(prose: string): string[] {
+  return prose
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.replace(/^\s*(?:[-*+>]|\d+[.)])\s+/, "").trim())
+    .filter(Boolean);
+}
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}'-]+/gu) ?? []).filter(
+    (w) => w.length >= 3 && !STOP_WORDS.has(w),
+  );
+}
+
+function wordCount(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+const unique = (items: string[]): string[] => [...new Set(items)];
+
+/** Whether the result still carries most of `sentence`'s content words */
+function sentenceKept(sentence: string, resultWords: Set<string>): boolean {
+  const words = unique(contentWords(sentence));
+  if (words.length === 0) return true;
+  const kept = words.filter((w) => resultWords.has(w)).length;
+  return kept / words.length >= SENTENCE_OVERLAP;
+}
+
+function finding(
+  code: ResultWarning["code"],
+  message: string,
+  items: string[],
+  separator = ", ",
+): ResultWarning[] {
+  if (items.length === 0) return [];
+  const shown = items.slice(0, MAX_ITEMS);
+  const more = items.length - shown.length;
+  return [
+    {
+      code,
+      message,
+      detail:
+        shown.join(separator) + (more > 0 ? ` (+${String(more)} more)` : ""),
+    },
+  ];
+}
+
+/**
+ * What `result` appears to have lost from `original`, as warnings for the
+ * overlay. Empty when nothing looks dropped.
+ */
+export function checkPreservation(
+  original: string,
+  result: string,
+): ResultWarning[] {
+  const prose = proseOf(original);
+  const resultLower = result.toLowerCase();
+  const resultNumbers = new Set(numbersIn(result, false));
+  const resultWords = new Set(contentWords(result));
+
+  const numbers = unique(numbersIn(prose, true)).filter((n) => {
+    if (resultNumbers.has(n)) return false;
+    const word = NUMBER_WORDS[Number(n)];
+    return !(word && new RegExp(`\\b${word}\\b`, "i").test(result));
+  });
+
+  const names = unique(namesIn(prose)).filter(
+    (name) => !resultLower.includes(name.toLowerCase()),
+  );
+
+  const urls = unique(
+    (original.match(URL) ?? []).map((u) => u.replace(/[.,;:!?)\]}]+$/, "")),
+  ).filter((url) => !result.includes(url));
+
+  // `computeFee` inside a missing `computeFee()` is reported as the latter.
+  const missingIds = unique(identifiersIn(original)).filter(
+    (id) => !result.includes(id),
+  );
+  const identifiers = missingIds.filter(
+    (id) => !missingIds.some((other) => other !== id && other.includes(id)),
+  );
+
+  const sentences = sentencesIn(prose);
+  const questions = sentences.filter(
+    (s) => s.endsWith("?") && !sentenceKept(s, resultWords),
+  );
+  const constraints = sentences.filter(
+    (s) =>
+      !s.endsWith("?") && CONSTRAINT.test(s) && !sentenceKept(s, resultWords),
+  );
+
+  const warnings = [
+    ...finding(
+      "DROPPED_NUMBER",
+      "Numbers from your draft are missing",
+      numbers,
+    ),
+    ...finding("DROPPED_NAME", "Names from your draft are missing", names),
+    ...finding("DROPPED_URL", "Links from your draft are missing", urls),
+    ...finding(
+      "DROPPED_IDENTIFIER",
+      "Code identifiers from your draft are missing",
+      identifiers,
+    ),
+    ...finding(
+      "DROPPED_QUESTION",
+      "A question from your draft may have been dropped",
+      questions,
+      "\n",
+    ),
+    ...finding(
+      "DROPPED_CONSTRAINT",
+      "A requirement from your draft may have been dropped",
+      constraints,
+      "\n",
+    ),
+  ];
+
+  const before = wordCount(original);
+  const after = wordCount(result);
+  if (
+    before > 0 &&
+    after > before * INFLATION_RATIO &&
+    after - before >= INFLATION_MIN_ADDED_WORDS
+  ) {
+    warnings.push({
+      code: "LENGTH_INFLATION",
+      message: `The result is ${String(Math.round(after / before))}× as long as your draft (${String(before)} → ${String(after)} words) - check it was not padded`,
+    });
+  }
+  return warnings;
+}
@@ -0,0 +1,335 @@
+/**
+ * Prompt Templates - the engine's prompts, as a typed registry
+ *
+ * Every prompt the engine sends on its own behalf (the system prompt, the
+ * refine chain's critique and polish turns, the map-reduce section and
+ * stitch prompts, the step-plan queries) is a template here, with
+ * `{{variable}}` slots filled in at run time.
+ *
+ * Advanced users can override any template from the options page, for every
+ * action or for one action; an action's own override wins. Overrides are
+ * read in the background and travel with each engine call as
+ * `AIOptimizeOptions.templates`. Each default carries a version, bumped when
+ * its text changes, so an override can tell it was written against an older
+ * default. `getTemplatesVersion` fingerprints the defaults and any overrides
+ * for the result cache key, the way `getRulesVersion` does for the rules.
+ */
+
+import { STORAGE_KEYS } from "~lib/constants";
+import { fnv1a32 } from "~lib/hash";
+import { logger } from "~lib/logger";
+import { storage } from "~lib/storage";
+import {
+  type PromptTemplateId,
+  type PromptTemplateOverride,
+  type PromptTemplateOverrides,
+  type PromptTemplateTexts,
+} from "~types";
+
+/** Values each template's `{{variable}}` slots are filled with */
+export interface PromptTemplateVariables {
+  system: Record<never, never>;
+  critique: { prompt: string; instruction: string };
+  polish: { critique: string; instruction: string };
+  map: { section: string; index: number; total: number; instruction: string };
+  reduce: { sections: string; instruction: string };
+  phases: { task: string; instruction: string };
+  steps: { phase: string };
+}
+
+export interface PromptTemplateDefinition<
+  Id extends PromptTemplateId = PromptTemplateId,
+> {
+  id: Id;
+  label: string;
+  description: string;
+  /** Bumped whenever the default text changes */
+  version: number;
+  /** What each variable holds, by name */
+  variables: Record<keyof PromptTemplateVariables[Id] & string, string>;
+  text: string;
+}
+
+/** Override scope that applies to every action */
+export const ALL_ACTIONS_SCOPE = "*";
+
+/** Shared description of the `{{instruction}}` slot */
+const INSTRUCTION_VARIABLE =
+  "A custom action's instruction as its own paragraph, or nothing";
+
+export const PROMPT_TEMPLATES: {
+  [Id in PromptTemplateId]: PromptTemplateDefinition<Id>;
+} = {
+  system: {
+    id: "system",
+    label: "System prompt",
+    description:
+      "Sets up every prompt-engine session. Platform rules are added after it.",
+    version: 1,
+    variables: {},
+    text: `You are an expert prompt engineer. Improve the user's prompt by applying only the relevant items from this checklist:
+
+Improvement Checklist:
+- Specify the task clearly (who, what, for whom)
+- Add missing context the model needs
+- Define the desired output format if absent
+- Set appropriate tone and style
+- Remove ambiguity and vague language
+- Add constraints or boundaries if missing
+- Structure with clear sections if multi-part
+
+Instructions:
+1. Analyze the original prompt
+2. Apply only the checklist items that are relevant - do NOT pad or over-engineer
+3. Maintain the user's original intent and voice
+4. Keep improvements proportional to the input length
+
+CRITICAL: Return ONLY the improved prompt. No preamble, no commentary, no surrounding tags or quotes.`,
+  },
+  critique: {
+    id: "critique",
+    label: "Refine: critique",
+    description:
+      "First, silent turn of the refine chain - asks what to improve.",
+    version: 1,
+    variables: {
+      prompt: "The draft",
+      instruction: INSTRUCTION_VARIABLE,
+    },
+    text: "Here's a prompt: {{prompt}}{{instruction}}\n\nList 2-3 concrete improvements that would help most. Be brief.",
+  },
+  polish: {
+    id: "polish",
+    label: "Refine: polish",
+    description:
+      "Second, streamed turn of the refine chain - applies the critique.",
+    version: 1,
+    variables: {
+      critique: "The first turn's answer",
+      instruction: INSTRUCTION_VARIABLE,
+    },
+    text: "Improvements to apply:\n{{critique}}{{instruction}}\n\nApply those improvements to the original prompt. Return ONLY the improved prompt, no preamble.",
+  },
+  map: {
+    id: "map",
+    label: "Long drafts: section",
+    description: "Improves one section of a draft too long for one pass.",
+    version: 1,
+    variables: {
+      section: "The section's text",
+      index: "Its position, from 1",
+      total: "How many sections there are",
+      instruction: INSTRUCTION_VARIABLE,
+    },
+    text: "Improve this section of a larger prompt (section {{index}} of {{total}}): {{section}}{{instruction}}\n\nReturn only the improved section.",
+  },
+  reduce: {
+    id: "reduce",
+    label: "Long drafts: stitch",
+    description: "Joins the improved sections into the final prompt.",
+    version: 1,
+    variables: {
+      sections: 'The improved sections, each headed "Section N:"',
+      instruction: INSTRUCTION_VARIABLE,
+    },
+    text: "Here are improved sections in order:\n\n{{sections}}{{instruction}}\n\nStitch them into one coherent prompt. Return only the final prompt.",
+  },
+  phases: {
+    id: "phases",
+    label: "Step plan: phases",
+    description: "Splits the task into top-level phases.",
+    version: 1,
+    variables: {
+      task: "The draft",
+      instruction: INSTRUCTION_VARIABLE,
+    },
+    text: "Task: {{task}}{{instruction}}\n\nWhat are the 3-5 top-level phases of this task? Return a JSON array of short strings.",
+  },
+  steps: {
+    id: "steps",
+    label: "Step plan: steps",
+    description: "Expands one phase into concrete steps.",
+    version: 1,
+    variables: {
+      phase: "The phase to expand",
+    },
+    text: "Phase: {{phase}}\n\nExpand this phase into 2-4 concrete steps. Return a JSON array of short strings.",
+  },
+};
+
+/** Template IDs in the order the options page lists them */
+export const PROMPT_TEMPLATE_IDS = Object.keys(
+  PROMPT_TEMPLATES,
+) as PromptTemplateId[];
+
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/** The text a run uses for `id`: its override, else the default */
+export function templateText(
+  id: PromptTemplateId,
+  texts?: PromptTemplateTexts,
+): string {
+  return texts?.[id] ?? PROMPT_TEMPLATES[id].text;
+}
+
+/**
+ * Fills the template's `{{variable}}` slots in one pass, so values are never
+ * scanned for slots themselves. Unknown slots are left as written.
+ */
+export function renderTemplate<Id extends PromptTemplateId>(
+  id: Id,
+  variables: PromptTemplateVariables[Id],
+  texts?: PromptTemplateTexts,
+): string {
+  const values = variables as Record<string, string | number | undefined>;
+  return templateText(id, texts).replace(VARIABLE, (slot, name: string) => {
+    const value = values[name];
+    return value === undefined ? slot : String(value);
+  });
+}
+
+/** Variables of `id` that `text` never uses - usually a mistake */
+export function missingVariables(id: PromptTemplateId, text: string): string[] {
+  const used = new Set([...text.matchAll(VARIABLE)].map((m) => m[1]));
+  return Object.keys(PROMPT_TEMPLATES[id].variables).filter(
+    (name) => !used.has(name),
+  );
+}
+
+// =============================================================================
+// Versions
+// =============================================================================
+
+let cachedDefaultsVersion: string | null = null;
+
+function defaultsVersion(): string {
+  if (cachedDefaultsVersion !== null) return cachedDefaultsVersion;
+  const parts: string[] = [];
+  for (const id of PROMPT_TEMPLATE_IDS) {
+    const { version, text } = PROMPT_TEMPLATES[id];
+    parts.push(id, String(version), text);
+  }
+  cachedDefaultsVersion = fnv1a32(parts.join("\x1f"));
+  return cachedDefaultsVersion;
+}
+
+/**
+ * Deterministic fingerprint of the templates a request runs with - the
+ * defaults, plus the overrides in `sets` (one per action a recipe runs).
+ * Part of the result cache key, so editing a template, or an update that
+ * changes a default, does not serve results made with the old one.
+ */
+export function getTemplatesVersion(...sets: PromptTemplateTexts[]): string {
+  const parts: string[] = [];
+  for (const texts of sets) {
+    for (const id of PROMPT_TEMPLATE_IDS) {
+      const text = texts[id];
+      if (text !== undefined) parts.push(id, text);
+    }
+    parts.push("");
+  }
+  const base = defaultsVersion();
+  return parts.some(Boolean) ? `${base}.${fnv1a32(parts.join("\x1f"))}` : base;
+}
+
+// =============================================================================
+// Overrides
+// =============================================================================
+
+function parseOverride(value: unknown): PromptTemplateOverride | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const record = value as Record<string, unknown>;
+  if (typeof record.text !== "string" || !record.text.trim()) return undefined;
+  return {
+    text: record.text,
+    version:
+      typeof record.version === "number" && Number.isFinite(record.version)
+        ? record.version
+        : 0,
+  };
+}
+
+/** Validates raw storage contents, dropping unknown templates and blanks */
+export function parsePromptTemplateOverrides(
+  raw: unknown,
+): PromptTemplateOverrides {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {};
+
+  const overrides: PromptTemplateOverrides = {};
+  for (const [scope, entries] of Object.entries(raw)) {
+    if (typeof entries !== "object" || entries === null) continue;
+    const record = entries as Record<string, unknown>;
+    const scoped: PromptTemplateOverrides[string] = {};
+    for (const id of PROMPT_TEMPLATE_IDS) {
+      const override = parseOverride(record[id]);
+      if (override) scoped[id] = override;
+    }
+    if (Object.keys(scoped).length > 0) overrides[scope] = scoped;
+  }
+  return overrides;
+}
+
+export async function loadPromptTemplateOverrides(): Promise<PromptTemplateOverrides> {
+  try {
+    const result = await storage.get(STORAGE_KEYS.PROMPT_TEMPLATES);
+    return parsePromptTemplateOverrides(result[STORAGE_KEYS.PROMPT_TEMPLATES]);
+  } catch (error) {
+    logger.warn("Failed to load prompt templates:", error);
+    return {};
+  }
+}
+
+export async function savePromptTemplateOverrides(
+  overrides: PromptTemplateOverrides,
+): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.PROMPT_TEMPLATES]: overrides });
+}
+
+/**
+ * Sets (or, with `text` null, resets to default) one template for `scope`,
+ * returning the next overrides.
+ */
+export function withOverride(
+  overrides: PromptTemplateOverrides,
+  scope: string,
+  id: PromptTemplateId,
+  text: string | null,
+): PromptTemplateOverrides {
+  const { [id]: _previous, ...rest } = overrides[scope] ?? {};
+  const scoped: PromptTemplateOverrides[string] = rest;
+  if (text?.trim()) {
+    scoped[id] = { text, version: PROMPT_TEMPLATES[id].version };
+  }
+
+  const { [scope]: _scope, ...next } = overrides;
+  if (Object.keys(scoped).length > 0) next[scope] = scoped;
+  return next;
+}
+
+/** Texts `actionId` runs with: every action's overrides, then its own */
+export function resolveTemplates(
+  overrides: PromptTemplateOverrides,
+  actionId?: string,
+): PromptTemplateTexts {
+  const texts: PromptTemplateTexts = {};
+  const scopes = [ALL_ACTIONS_SCOPE];
+  if (actionId) scopes.push(actionId);
+  for (const scope of scopes) {
+    for (const [id, override] of Object.entries(overrides[scope] ?? {})) {
+      texts[id as PromptTemplateId] = override.text;
+    }
+  }
+  return texts;
+}
+
+/** Whether an override was written against an older default */
+export function isOutdated(
+  id: PromptTemplateId,
+  override: PromptTemplateOverride,
+): boolean {
+  return override.version < PROMPT_TEMPLATES[id].version;
+}
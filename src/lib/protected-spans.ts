@@ -0,0 +1,259 @@
+/**
+ * Protected spans - content that must pass through a rewrite verbatim
+ *
+ * Code, stack traces, URLs, JSON samples and quoted text are evidence, not
+ * prose: a model asked to "improve" a prompt tends to tidy them too. Before
+ * prompting, `protectSpans` swaps each such span for a stable placeholder
+ * (`[[KEEP_1]]`, `[[KEEP_2]]`, … in order of appearance) and the engine is
+ * told to copy placeholders as written; `restoreSpans` puts the originals
+ * back byte-for-byte and reports the placeholders the output lost.
+ *
+ * Spans are detected automatically, and users can mark their own with
+ * `{{keep}}…{{/keep}}`. The markers are instructions to the tuner, so the
+ * restored text holds only what was between them.
+ */
+
+export type ProtectedSpanKind =
+  | "marked"
+  | "code"
+  | "stack-trace"
+  | "json"
+  | "url"
+  | "quote";
+
+export interface ProtectedSpan {
+  kind: ProtectedSpanKind;
+  placeholder: string;
+  /** The exact text the placeholder stands for */
+  original: string;
+}
+
+export interface SpanProtection {
+  /** The draft with every span replaced by its placeholder */
+  masked: string;
+  spans: ProtectedSpan[];
+  /** Placeholder prefix, e.g. "KEEP" (longer if the draft already uses it) */
+  tag: string;
+}
+
+interface Candidate {
+  kind: ProtectedSpanKind;
+  start: number;
+  end: number;
+  /** Defaults to the matched text */
+  original?: string;
+}
+
+const KEEP_MARKED = /\{\{keep\}\}([\s\S]*?)\{\{\/keep\}\}/g;
+const FENCED_CODE =
+  /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?^ {0,3}\1[`~]*[ \t]*$/gm;
+const INLINE_CODE = /`[^`\n]+`/g;
+const JS_STACK =
+  /^.*\b\w*(?:Error|Exception)\b.*\n(?:[ \t]+at [^\n]+(?:\n|$))+/gm;
+const PY_STACK =
+  /^Traceback \(most recent call last\):\n(?:[ \t]+[^\n]*\n)+\w+(?:Error|Exception)\b[^\n]*/gm;
+const URL = /\bhttps?:\/\/[^\s<>"'`]+/g;
+const BLOCKQUOTE = /^(?:>[^\n]*(?:\n|$))+/gm;
+/** Straight or curly double quotes around at least six words */
+const QUOTED = /"(?:[^"\s]+[ \t]+){5,}[^"\n]*"|“(?:[^”\s]+[ \t]+){5,}[^”\n]*”/g;
+/** A line opening a JSON object or array */
+const JSON_START = /^[ \t]*[{[]/gm;
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+function markedCandidates(text: string): Candidate[] {
+  return [...text.matchAll(KEEP_MARKED)].map((match) => ({
+    kind: "marked",
+    start: match.index,
+    end: match.index + match[0].length,
+    original: match[1] ?? "",
+  }));
+}
+
+/** Trailing punctuation that ends the sentence rather than the URL */
+function trimUrl(url: string): string {
+  return url.replace(/[.,;:!?)\]}]+$/, "");
+}
+
+function patternCandidates(
+  kind: ProtectedSpanKind,
+  pattern: RegExp,
+): (text: string) => Candidate[] {
+  return (text) =>
+    [...text.matchAll(pattern)].map((match) => {
+      let matched = match[0];
+      if (kind === "url") matched = trimUrl(matched);
+      // Line-based spans end at their last line, not the newline after it.
+      if (kind !== "code") matched = matched.replace(/\n$/, "");
+      return { kind, start: match.index, end: match.index + matched.length };
+    });
+}
+
+/** End index of the JSON value starting at `start`, or -1 if it is not JSON */
+function jsonEnd(text: string, start: number): number {
+  const open = text[start];
+  const close = open === "{" ? "}" : "]";
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      try {
+        JSON.parse(text.slice(start, i + 1));
+        return i + 1;
+      } catch {
+        return -1;
+      }
+    }
+  }
+  return -1;
+}
+
+function jsonCandidates(text: string): Candidate[] {
+  const found: Candidate[] = [];
+  for (const match of text.matchAll(JSON_START)) {
+    const start = match.index + match[0].length - 1;
+    const end = jsonEnd(text, start);
+    // Multi-line samples only - `[1, 2]` in a sentence is just prose.
+    if (end !== -1 && text.slice(start, end).includes("\n")) {
+      found.push({ kind: "json", start, end });
+    }
+  }
+  return found;
+}
+
+/** In priority order: earlier detectors win where spans overlap */
+const DETECTORS: ((text: string) => Candidate[])[] = [
+  markedCandidates,
+  patternCandidates("code", FENCED_CODE),
+  patternCandidates("stack-trace", JS_STACK),
+  patternCandidates("stack-trace", PY_STACK),
+  jsonCandidates,
+  patternCandidates("code", INLINE_CODE),
+  patternCandidates("url", URL),
+  patternCandidates("quote", BLOCKQUOTE),
+  patternCandidates("quote", QUOTED),
+];
+
+// =============================================================================
+// Masking / Restoring
+// =============================================================================
+
+function placeholderTag(text: string): string {
+  let tag = "KEEP";
+  while (text.includes(`[[${tag}_`)) tag += "_";
+  return tag;
+}
+
+/**
+ * Replaces every protected span in `text` with a placeholder. Where spans
+ * overlap, user-marked ones win, then code blocks, stack traces, JSON,
+ * inline code, URLs and quotes, in that order.
+ */
+export function protectSpans(text: string): SpanProtection {
+  const tag = placeholderTag(text);
+  const accepted: Candidate[] = [];
+  for (const candidate of DETECTORS.flatMap((detect) => detect(text))) {
+    if (candidate.end <= candidate.start) continue;
+    const overlaps = accepted.some(
+      (a) => candidate.start < a.end && a.start < candidate.end,
+    );
+    if (!overlaps) accepted.push(candidate);
+  }
+  accepted.sort((a, b) => a.start - b.start);
+
+  const spans: ProtectedSpan[] = [];
+  let masked = "";
+  let cursor = 0;
+  for (const candidate of accepted) {
+    const placeholder = `[[${tag}_${String(spans.length + 1)}]]`;
+    spans.push({
+      kind: candidate.kind,
+      placeholder,
+      original:
+        candidate.original ?? text.slice(candidate.start, candidate.end),
+    });
+    masked += text.slice(cursor, candidate.start) + placeholder;
+    cursor = candidate.end;
+  }
+  masked += text.slice(cursor);
+
+  return { masked, spans, tag };
+}
+
+/** Instruction for the engine, or none when nothing was protected */
+export function placeholderRules(protection: SpanProtection): string[] {
+  if (protection.spans.length === 0) return [];
+  return [
+    `Placeholders such as ${protection.spans[0]?.placeholder ?? ""} stand for content that must not change. Copy every placeholder into your output exactly once, character for character, where its content belongs.`,
+  ];
+}
+
+/**
+ * Puts the original of every placeholder back into `output`. `missing`
+ * lists the spans whose placeholder the output no longer contains.
+ */
+export function restoreSpans(
+  output: string,
+  protection: SpanProtection,
+): { text: string; missing: ProtectedSpan[] } {
+  const missing: ProtectedSpan[] = [];
+  let text = output;
+  for (const span of protection.spans) {
+    if (!text.includes(span.placeholder)) {
+      missing.push(span);
+      continue;
+    }
+    // split/join rather than replace() - originals may contain `$&`.
+    text = text.split(span.placeholder).join(span.original);
+  }
+  return { text, missing };
+}
+
+/**
+ * Streaming counterpart of `restoreSpans`: `push` returns the restored text
+ * that is safe to show, holding back a trailing piece that may be the start
+ * of a placeholder until the next chunk settles it; `flush` returns the rest.
+ */
+export function createSpanRestorer(protection: SpanProtection): {
+  push: (chunk: string) => string;
+  flush: () => string;
+} {
+  const opening = `[[${protection.tag}_`;
+  const partial = new RegExp(`^\\[\\[${protection.tag}_\\d*\\]?$`);
+  const longest = opening.length + 12;
+  let pending = "";
+
+  const heldFrom = (text: string): number => {
+    for (let i = Math.max(0, text.length - longest); i < text.length; i++) {
+      if (text[i] !== "[") continue;
+      const tail = text.slice(i);
+      if (opening.startsWith(tail) || partial.test(tail)) return i;
+    }
+    return text.length;
+  };
+
+  return {
+    push: (chunk) => {
+      if (protection.spans.length === 0) return chunk;
+      const text = pending + chunk;
+      const cut = heldFrom(text);
+      pending = text.slice(cut);
+      return restoreSpans(text.slice(0, cut), protection).text;
+    },
+    flush: () => {
+      const rest = restoreSpans(pending, protection).text;
+      pending = "";
+      return rest;
+    },
+  };
+}
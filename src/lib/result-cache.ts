@@ -0,0 +1,272 @@
+/**
+ * Result Cache - finished optimizations reused by identical requests
+ *
+ * A result is only valid for the exact request that produced it, so the key
+ * covers the draft, the action (and its definition, for editable custom
+ * actions and recipes), the target platform, the engine, per-run options
+ * such as the variant count, and the rules and prompt template versions.
+ *
+ * Two tiers:
+ * - Session (`chrome.storage.session`): always on, the most recent
+ *   RESULT_CACHE_SESSION_ENTRIES results, gone when the browser closes.
+ * - Persistent (`chrome.storage.local`): opt-in through
+ *   `settings.resultCacheTtlHours`. Entries expire that long after they were
+ *   generated, and the least recently used are evicted to keep the tier under
+ *   RESULT_CACHE_BUDGET_BYTES.
+ *
+ * A regenerate request (`fresh`) skips the lookup; its result replaces the
+ * cached one.
+ */
+
+import { type Action } from "~lib/actions";
+import { STORAGE_KEYS } from "~lib/constants";
+import { fnv1a64 } from "~lib/hash";
+import { logger } from "~lib/logger";
+import { getRulesVersion } from "~lib/platform-rules";
+import { getTemplatesVersion } from "~lib/prompt-templates";
+import { sessionStore, storage } from "~lib/storage";
+import {
+  type BackendSettings,
+  type OptimizePortRequest,
+  type PromptTemplateTexts,
+  type ResultCacheEntry,
+} from "~types";
+
+/** Results the session tier keeps */
+export const RESULT_CACHE_SESSION_ENTRIES = 20;
+
+/** Size ceiling of the persistent tier (storage.local allows 10 MB in all) */
+export const RESULT_CACHE_BUDGET_BYTES = 1_000_000;
+
+/** Persistent retention periods offered in the popup, in hours; 0 = off */
+export const RESULT_CACHE_TTL_OPTIONS = [0, 24, 7 * 24, 30 * 24];
+
+const SESSION_CACHE_KEY = "optimize-result-cache";
+
+const HOUR = 60 * 60_000;
+
+interface CacheArea {
+  get: (keys: string) => Promise<Record<string, unknown>>;
+  set: (items: Record<string, unknown>) => Promise<void>;
+}
+
+function isCacheEntry(value: unknown): value is ResultCacheEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.key === "string" &&
+    typeof entry.result === "string" &&
+    Array.isArray(entry.rules) &&
+    typeof entry.ts === "number" &&
+    typeof entry.usedAt === "number"
+  );
+}
+
+function clampTtl(hours: unknown): number {
+  if (typeof hours !== "number" || !Number.isFinite(hours) || hours <= 0) {
+    return 0;
+  }
+  return Math.min(hours, 365 * 24);
+}
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+/** The engine a backend choice runs on, e.g. "nano" or "local:llama3@url" */
+export function engineOf(backend: BackendSettings): string {
+  if (backend.id === "nano") return "nano";
+  const { model, baseUrl } = backend.local;
+  return `local:${model || "default"}@${baseUrl}`;
+}
+
+/**
+ * Fingerprint of everything that shapes a request's result. `templates` are
+ * the prompt template overrides the run uses, one set per action it runs.
+ */
+export function resultCacheKey(
+  request: OptimizePortRequest,
+  action: Action | undefined,
+  backend: BackendSettings,
+  templates: PromptTemplateTexts[] = [],
+): string {
+  // Custom actions and recipes can be edited in place, so their instruction
+  // and steps are part of the key - a changed definition must not serve the
+  // old result.
+  const definition = action?.instruction ?? action?.steps?.join(">") ?? "";
+  return fnv1a64(
+    JSON.stringify([
+      request.draft,
+      request.action,
+      definition,
+      request.platform,
+      engineOf(backend),
+      request.variants ?? 1,
+      getRulesVersion(),
+      getTemplatesVersion(...templates),
+    ]),
+  );
+}
+
+// =============================================================================
+// Tiers
+// =============================================================================
+
+async function readTier(
+  area: CacheArea,
+  key: string,
+): Promise<ResultCacheEntry[]> {
+  try {
+    const raw = (await area.get(key))[key];
+    return Array.isArray(raw) ? raw.filter(isCacheEntry) : [];
+  } catch (error) {
+    logger.warn("Failed to read result cache:", error);
+    return [];
+  }
+}
+
+async function writeTier(
+  area: CacheArea,
+  key: string,
+  entries: ResultCacheEntry[],
+): Promise<void> {
+  try {
+    await area.set({ [key]: entries });
+  } catch (error) {
+    logger.warn("Failed to write result cache:", error);
+  }
+}
+
+const readSession = () => readTier(sessionStore, SESSION_CACHE_KEY);
+const readLocal = () => readTier(storage, STORAGE_KEYS.RESULT_CACHE);
+
+/** Approximate stored size of `entries`, in bytes */
+export function resultCacheBytes(entries: ResultCacheEntry[]): number {
+  return new TextEncoder().encode(JSON.stringify(entries)).length;
+}
+
+/**
+ * Most recently used first, without entries older than `ttlHours` and
+ * trimmed from the least recently used end to fit the size budget.
+ */
+function prune(
+  entries: ResultCacheEntry[],
+  ttlHours: number,
+  now: number,
+): ResultCacheEntry[] {
+  const fresh = entries
+    .filter((e) => now - e.ts < ttlHours * HOUR)
+    .sort((a, b) => b.usedAt - a.usedAt);
+  const kept: ResultCacheEntry[] = [];
+  let bytes = 2;
+  for (const entry of fresh) {
+    const size = resultCacheBytes([entry]) - 1;
+    if (bytes + size > RESULT_CACHE_BUDGET_BYTES) break;
+    kept.push(entry);
+    bytes += size;
+  }
+  return kept;
+}
+
+/** `entries` with `entry` moved (or added) to the front */
+function promote(
+  entries: ResultCacheEntry[],
+  entry: ResultCacheEntry,
+): ResultCacheEntry[] {
+  return [entry, ...entries.filter((e) => e.key !== entry.key)];
+}
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+/** How long the persistent tier keeps results, in hours; 0 when it is off */
+export async function getResultCacheTtlHours(): Promise<number> {
+  const result = await storage.get(STORAGE_KEYS.RESULT_CACHE_TTL_HOURS);
+  return clampTtl(result[STORAGE_KEYS.RESULT_CACHE_TTL_HOURS]);
+}
+
+/**
+ * Sets the persistent retention (0 or null turns the tier off and empties
+ * it). Entries already stored are re-checked against the new period.
+ */
+export async function setResultCacheTtlHours(
+  hours: number | null,
+): Promise<void> {
+  await storage.set({ [STORAGE_KEYS.RESULT_CACHE_TTL_HOURS]: hours });
+  const ttl = clampTtl(hours);
+  const entries = ttl > 0 ? prune(await readLocal(), ttl, Date.now()) : [];
+  await writeTier(storage, STORAGE_KEYS.RESULT_CACHE, entries);
+}
+
+// =============================================================================
+// Read / Write
+// =============================================================================
+
+/**
+ * The cached result for `key`, if either tier has a live one. A hit becomes
+ * the most recently used entry in both tiers.
+ */
+export async function getCachedResult(
+  key: string,
+): Promise<ResultCacheEntry | undefined> {
+  const now = Date.now();
+  const ttl = await getResultCacheTtlHours();
+  const session = await readSession();
+  const local = ttl > 0 ? prune(await readLocal(), ttl, now) : [];
+
+  const hit =
+    session.find((e) => e.key === key) ?? local.find((e) => e.key === key);
+  if (!hit) return undefined;
+
+  const used = { ...hit, usedAt: now };
+  await writeTier(
+    sessionStore,
+    SESSION_CACHE_KEY,
+    promote(session, used).slice(0, RESULT_CACHE_SESSION_ENTRIES),
+  );
+  if (local.some((e) => e.key === key)) {
+    await writeTier(storage, STORAGE_KEYS.RESULT_CACHE, promote(local, used));
+  }
+  return used;
+}
+
+/** Stores a finished result in the session tier, and the persistent one if on */
+export async function putCachedResult(
+  entry: Omit<ResultCacheEntry, "usedAt">,
+): Promise<void> {
+  const now = Date.now();
+  const stored: ResultCacheEntry = { ...entry, usedAt: now };
+
+  const session = promote(await readSession(), stored);
+  await writeTier(
+    sessionStore,
+    SESSION_CACHE_KEY,
+    session.slice(0, RESULT_CACHE_SESSION_ENTRIES),
+  );
+
+  const ttl = await getResultCacheTtlHours();
+  if (ttl === 0) return;
+  const local = prune(promote(await readLocal(), stored), ttl, now);
+  await writeTier(storage, STORAGE_KEYS.RESULT_CACHE, local);
+}
+
+/** Every live cached result across both tiers, most recently used first */
+export async function listCachedResults(): Promise<ResultCacheEntry[]> {
+  const ttl = await getResultCacheTtlHours();
+  const local = ttl > 0 ? prune(await readLocal(), ttl, Date.now()) : [];
+  const byKey = new Map<string, ResultCacheEntry>();
+  for (const entry of [...(await readSession()), ...local]) {
+    const seen = byKey.get(entry.key);
+    if (!seen || seen.usedAt < entry.usedAt) byKey.set(entry.key, entry);
+  }
+  return [...byKey.values()].sort((a, b) => b.usedAt - a.usedAt);
+}
+
+/** Empties both tiers */
+export async function clearResultCache(): Promise<void> {
+  await Promise.all([
+    writeTier(sessionStore, SESSION_CACHE_KEY, []),
+    writeTier(storage, STORAGE_KEYS.RESULT_CACHE, []),
+  ]);
+}
@@ -15,7 +15,36 @@ export const storage = {
     chrome.storage.local.set(items),
 };
 
+/**
+ * `chrome.storage.session` - cleared when the browser closes. Reads come back
+ * empty (and writes are dropped) where the area is unavailable.
+ */
+export const sessionStore = {
+  get: async (keys: string | string[]): Promise<Record<string, unknown>> => {
+    const area = sessionArea();
+    return area ? area.get(keys) : {};
+  },
+  set: async (items: Record<string, unknown>): Promise<void> => {
+    await sessionArea()?.set(items);
+  },
+};
+
+function sessionArea(): chrome.storage.StorageArea | undefined {
+  return (chrome.storage as { session?: chrome.storage.StorageArea }).session;
+}
+
 export const tabs = {
   create: (url: string): Promise<chrome.tabs.Tab> =>
     chrome.tabs.create({ url }),
+  /** Opens (or focuses) the extension's options page */
+  openOptions: (): Promise<void> => chrome.runtime.openOptionsPage(),
+  /** Messages the content script in the focused window's active tab */
+  sendToActive: async <T>(message: unknown): Promise<T> => {
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    if (tab?.id == null) throw new Error("No active tab");
+    return chrome.tabs.sendMessage(tab.id, message);
+  },
 };
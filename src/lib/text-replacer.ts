@@ -1,40 +1,334 @@
 /**
  * Text replacement utilities for content script
- * Gets or replaces selected text in the active textarea or input.
+ * Gets or replaces selected text in the active textarea, input, or
+ * contenteditable editor (ProseMirror on Claude, Quill on Gemini).
+ *
+ * Selections are captured as character offsets into the host element so they
+ * survive focus moving into the overlay, and so the inserted span can be
+ * located again for undo.
  */
 
+import { type Platform } from "~types";
+
+import {
+  getActiveTextInput,
+  isElementValid,
+  replaceContentEditableRange,
+} from "~lib/dom-injector";
+import { PLATFORM_INPUT_SELECTORS } from "~lib/platforms";
+
+/** A selected span inside a host input, addressed by character offsets */
+export interface SelectionSnapshot {
+  element: HTMLElement;
+  /** Offset of the first selected character */
+  start: number;
+  /** Offset one past the last selected character */
+  end: number;
+  /**
+   * The text between `start` and `end` at capture time, with paragraph
+   * breaks as "\n". Offsets count text characters only, breaks excluded.
+   */
+  text: string;
+}
+
+type TextField = HTMLTextAreaElement | HTMLInputElement;
+
+function isTextField(element: Element | null): element is TextField {
+  return (
+    element !== null &&
+    (element.tagName === "TEXTAREA" ||
+      (element.tagName === "INPUT" &&
+        (element as HTMLInputElement).type === "text"))
+  );
+}
+
 /**
- * Replaces selected text in the active textarea or input with new text.
- * Sets cursor to end of inserted text and dispatches input event for framework reactivity.
+ * Nearest ancestor that explicitly sets contenteditable - the editor root.
+ * Descendants report "inherit", so this skips ProseMirror's inner paragraphs.
  */
-export function replaceSelectedText(newText: string): boolean {
+function editableHost(node: Node | null): HTMLElement | null {
+  let current: Node | null = node;
+  while (current) {
+    if (current instanceof HTMLElement && current.contentEditable === "true") {
+      return current;
+    }
+    current = current.parentNode;
+  }
+  return null;
+}
+
+// =============================================================================
+// Offset <-> Range helpers (contenteditable)
+// =============================================================================
+
+/** Elements that start a new line in ProseMirror and Quill composers */
+const BLOCK_TAGS = new Set([
+  "P",
+  "DIV",
+  "LI",
+  "UL",
+  "OL",
+  "PRE",
+  "BLOCKQUOTE",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+]);
+
+/**
+ * Text of a node as the user sees it: block elements and `<br>` break the
+ * line. `textContent` would run paragraphs together.
+ */
+function blockText(node: Node): string {
+  let text = "";
+  const visit = (current: Node): void => {
+    if (current.nodeType === Node.TEXT_NODE) {
+      text += current.textContent ?? "";
+      return;
+    }
+    if (current instanceof Element) {
+      if (current.tagName === "BR") {
+        text += "\n";
+        return;
+      }
+      if (BLOCK_TAGS.has(current.tagName) && text && !text.endsWith("\n")) {
+        text += "\n";
+      }
+    }
+    current.childNodes.forEach(visit);
+  };
+  visit(node);
+  return text;
+}
+
+function rangeText(range: Range): string {
+  return blockText(range.cloneContents());
+}
+
+function offsetWithin(root: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/**
+ * Builds a DOM Range spanning [start, end) of the element's text content.
+ * Offsets past the end clamp to the last text position.
+ */
+function rangeFromOffsets(
+  root: HTMLElement,
+  start: number,
+  end: number,
+): Range {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let consumed = 0;
+  let startSet = false;
+  let node = walker.nextNode();
+  while (node) {
+    const length = node.textContent?.length ?? 0;
+    if (!startSet && start <= consumed + length) {
+      range.setStart(node, start - consumed);
+      startSet = true;
+    }
+    if (startSet && end <= consumed + length) {
+      range.setEnd(node, end - consumed);
+      return range;
+    }
+    consumed += length;
+    node = walker.nextNode();
+  }
+  return range;
+}
+
+/**
+ * The range still holding the snapshot's text, or null if it was edited.
+ * Offsets only reach text nodes, so a whole-input span whose draft opens or
+ * ends on an empty paragraph is matched against the element's contents.
+ */
+function spanRange(snapshot: SelectionSnapshot): Range | null {
+  const { element, start, end, text } = snapshot;
+  const range = rangeFromOffsets(element, start, end);
+  if (rangeText(range) === text) return range;
+  if (start !== 0 || end !== element.textContent.length) return null;
+
+  const whole = document.createRange();
+  whole.selectNodeContents(element);
+  return rangeText(whole) === text ? whole : null;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Captures the current selection in a textarea, text input, or contenteditable
+ * host. Returns null when nothing is selected.
+ */
+export function captureSelection(): SelectionSnapshot | null {
   const activeElement = document.activeElement;
 
-  if (
-    activeElement &&
-    (activeElement.tagName === "TEXTAREA" ||
-      (activeElement.tagName === "INPUT" &&
-        (activeElement as HTMLInputElement).type === "text"))
-  ) {
-    const textarea = activeElement as HTMLTextAreaElement | HTMLInputElement;
-    const start = textarea.selectionStart ?? 0;
-    const end = textarea.selectionEnd ?? 0;
+  if (isTextField(activeElement)) {
+    const start = activeElement.selectionStart ?? 0;
+    const end = activeElement.selectionEnd ?? 0;
+    if (start === end) return null;
+    return {
+      element: activeElement,
+      start,
+      end,
+      text: activeElement.value.substring(start, end),
+    };
+  }
+
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) {
+    return null;
+  }
+  const range = selection.getRangeAt(0);
+  const host = editableHost(range.commonAncestorContainer);
+  if (!host) return null;
+
+  const start = offsetWithin(host, range.startContainer, range.startOffset);
+  const end = offsetWithin(host, range.endContainer, range.endOffset);
+  return { element: host, start, end, text: rangeText(range) };
+}
+
+/** The element's entire contents as a span, empty or not */
+function wholeSpan(element: HTMLElement): SelectionSnapshot {
+  if (isTextField(element)) {
+    return {
+      element,
+      start: 0,
+      end: element.value.length,
+      text: element.value,
+    };
+  }
+  return {
+    element,
+    start: 0,
+    end: element.textContent.length,
+    text: blockText(element),
+  };
+}
+
+/**
+ * Captures the entire contents of a textarea or contenteditable host as a
+ * span, so "insert" replaces the whole draft. Returns null for empty or
+ * non-editable elements.
+ */
+export function captureWholeInput(
+  element: HTMLElement | null,
+): SelectionSnapshot | null {
+  if (!isElementValid(element)) return null;
+  const span = wholeSpan(element);
+  return span.text.trim() ? span : null;
+}
 
-    const before = textarea.value.substring(0, start);
-    const after = textarea.value.substring(end);
+/**
+ * Whole-input snapshot of the focused composer, if focus is in one. Used when
+ * the shortcut fires with the caret in the prompt box but nothing selected.
+ */
+export function captureFocusedInput(): SelectionSnapshot | null {
+  const active = document.activeElement;
+  if (!(active instanceof HTMLElement)) return null;
+  return captureWholeInput(
+    active instanceof HTMLTextAreaElement ? active : editableHost(active),
+  );
+}
 
-    textarea.value = before + newText + after;
+/**
+ * Whole-input snapshot of the platform's composer - the focused input if
+ * there is one, otherwise the first match from `PLATFORM_INPUT_SELECTORS`.
+ * Backs "whole input" mode, where the entire draft is optimized and replaced.
+ */
+export function captureComposer(platform: Platform): SelectionSnapshot | null {
+  return captureWholeInput(
+    getActiveTextInput(PLATFORM_INPUT_SELECTORS[platform]),
+  );
+}
+
+/**
+ * Replaces the captured span with `newText`. Returns a snapshot of the
+ * inserted span (for undo), or null if the host is gone or was edited so
+ * the captured span no longer holds the captured text.
+ */
+export function replaceSelection(
+  snapshot: SelectionSnapshot,
+  newText: string,
+): SelectionSnapshot | null {
+  const { element, start, end } = snapshot;
+  if (!element.isConnected) return null;
+
+  if (isTextField(element)) {
+    if (element.value.substring(start, end) !== snapshot.text) return null;
+
+    const before = element.value.substring(0, start);
+    const after = element.value.substring(end);
+
+    element.value = before + newText + after;
 
     const newCursorPos = start + newText.length;
-    textarea.selectionStart = newCursorPos;
-    textarea.selectionEnd = newCursorPos;
+    element.selectionStart = newCursorPos;
+    element.selectionEnd = newCursorPos;
 
-    textarea.dispatchEvent(new Event("input", { bubbles: true }));
+    element.dispatchEvent(new Event("input", { bubbles: true }));
 
-    return true;
+    return { element, start, end: newCursorPos, text: newText };
   }
 
-  return false;
+  const range = spanRange(snapshot);
+  if (!range) return null;
+
+  const result = replaceContentEditableRange(element, range, newText);
+  if (!result.success) return null;
+
+  // Editors may normalise the inserted text (e.g. newlines become paragraph
+  // nodes), so read the inserted extent back from the caret.
+  const selection = window.getSelection();
+  const caret = selection?.rangeCount ? selection.getRangeAt(0) : null;
+  const insertedEnd =
+    caret && element.contains(caret.endContainer)
+      ? offsetWithin(element, caret.endContainer, caret.endOffset)
+      : start + newText.length;
+  return {
+    element,
+    start,
+    end: insertedEnd,
+    text: rangeText(rangeFromOffsets(element, start, insertedEnd)),
+  };
+}
+
+/**
+ * Writes `text` into the platform composer - over `target` when given,
+ * otherwise replacing the composer's whole contents (an empty composer
+ * included). Returns the inserted span, or null if no composer was found.
+ */
+export function insertIntoComposer(
+  platform: Platform,
+  text: string,
+  target: SelectionSnapshot | null = null,
+): SelectionSnapshot | null {
+  if (target) return replaceSelection(target, text);
+
+  const element = getActiveTextInput(PLATFORM_INPUT_SELECTORS[platform]);
+  if (!isElementValid(element)) return null;
+  return replaceSelection(wholeSpan(element), text);
+}
+
+/**
+ * Replaces selected text in the active textarea, input, or contenteditable
+ * with new text. Sets cursor to end of inserted text and dispatches input
+ * events for framework reactivity.
+ */
+export function replaceSelectedText(newText: string): boolean {
+  const snapshot = captureSelection();
+  return snapshot !== null && replaceSelection(snapshot, newText) !== null;
 }
 
 /**
@@ -43,18 +337,12 @@ export function replaceSelectedText(newText: string): boolean {
 export function getSelectedText(): string | null {
   const activeElement = document.activeElement;
 
-  if (
-    activeElement &&
-    (activeElement.tagName === "TEXTAREA" ||
-      (activeElement.tagName === "INPUT" &&
-        (activeElement as HTMLInputElement).type === "text"))
-  ) {
-    const textarea = activeElement as HTMLTextAreaElement | HTMLInputElement;
-    const start = textarea.selectionStart ?? 0;
-    const end = textarea.selectionEnd ?? 0;
+  if (isTextField(activeElement)) {
+    const start = activeElement.selectionStart ?? 0;
+    const end = activeElement.selectionEnd ?? 0;
 
     if (start !== end) {
-      return textarea.value.substring(start, end);
+      return activeElement.value.substring(start, end);
     }
   }
 
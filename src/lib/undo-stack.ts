@@ -0,0 +1,119 @@
+/**
+ * Tuning undo/redo - per-composer stacks of inserted optimizations
+ *
+ * Every Insert records the text it replaced and the span it produced, keyed
+ * by the composer element (a WeakMap, so stacks disappear with the element).
+ * The stacks live at module level in the content script, so they outlast the
+ * overlay and can be stepped through from the palette or the shortcuts after
+ * several tunings in a row.
+ *
+ * Entries are replayed strictly LIFO, which keeps their character offsets
+ * valid. An entry only applies while the composer still holds the text it
+ * left there - if the user has typed over it, that composer's stacks are
+ * dropped rather than clobbering newer edits.
+ */
+
+import { type SelectionSnapshot, replaceSelection } from "~lib/text-replacer";
+
+/** Tunings remembered per composer; the oldest fall off first */
+export const UNDO_STACK_LIMIT = 50;
+
+interface TuningEdit {
+  /** Composer text before the tuning was inserted */
+  before: string;
+  /** Text the tuning inserted */
+  after: string;
+  /** Where whichever side is currently present sits in the composer */
+  span: SelectionSnapshot;
+}
+
+interface ComposerStacks {
+  undo: TuningEdit[];
+  redo: TuningEdit[];
+}
+
+/**
+ * - `applied`: the composer now holds the previous / next version
+ * - `empty`: nothing to step to
+ * - `stale`: the composer was edited since, so its history was discarded
+ */
+export type TuningStepResult = "applied" | "empty" | "stale";
+
+const stacks = new WeakMap<HTMLElement, ComposerStacks>();
+let lastComposer: HTMLElement | null = null;
+
+/**
+ * Records an Insert: `replaced` is the span captured before insertion (its
+ * `text` is the original), `inserted` the span returned by replaceSelection.
+ * Starts a new branch, so anything that could be redone is forgotten.
+ */
+export function recordTuning(
+  replaced: SelectionSnapshot,
+  inserted: SelectionSnapshot,
+): void {
+  const { element } = inserted;
+  const entry = stacks.get(element) ?? { undo: [], redo: [] };
+  entry.undo.push({
+    before: replaced.text,
+    after: inserted.text,
+    span: inserted,
+  });
+  if (entry.undo.length > UNDO_STACK_LIMIT) entry.undo.shift();
+  entry.redo = [];
+  stacks.set(element, entry);
+  lastComposer = element;
+}
+
+export function canUndoTuning(element: HTMLElement | null): boolean {
+  return element !== null && (stacks.get(element)?.undo.length ?? 0) > 0;
+}
+
+export function canRedoTuning(element: HTMLElement | null): boolean {
+  return element !== null && (stacks.get(element)?.redo.length ?? 0) > 0;
+}
+
+/**
+ * The composer whose history the shortcuts and palette act on: `preferred`
+ * (the focused or selected input) when it has any, otherwise the composer
+ * tuned most recently, if it is still on the page.
+ */
+export function findTunedComposer(
+  preferred: HTMLElement | null,
+): HTMLElement | null {
+  for (const element of [preferred, lastComposer]) {
+    if (element?.isConnected && stacks.has(element)) return element;
+  }
+  return null;
+}
+
+function step(
+  element: HTMLElement,
+  from: keyof ComposerStacks,
+): TuningStepResult {
+  const entry = stacks.get(element);
+  const edit = entry?.[from].pop();
+  if (!entry || !edit) return "empty";
+
+  const span = replaceSelection(
+    edit.span,
+    from === "undo" ? edit.before : edit.after,
+  );
+  if (!span) {
+    stacks.delete(element);
+    return "stale";
+  }
+
+  entry[from === "undo" ? "redo" : "undo"].push({ ...edit, span });
+  lastComposer = element;
+  return "applied";
+}
+
+/** Puts back the text the most recent tuning replaced */
+export function undoTuning(element: HTMLElement): TuningStepResult {
+  return step(element, "undo");
+}
+
+/** Re-applies the most recently undone tuning */
+export function redoTuning(element: HTMLElement): TuningStepResult {
+  return step(element, "redo");
+}
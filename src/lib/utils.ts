@@ -11,3 +11,16 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]): string {
   return twMerge(clsx(inputs));
 }
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Short relative age ("5m ago"), or the date once older than a day */
+export function formatAge(ts: number, now: number): string {
+  const age = Math.max(0, now - ts);
+  if (age < MINUTE) return "just now";
+  if (age < HOUR) return `${String(Math.floor(age / MINUTE))}m ago`;
+  if (age < DAY) return `${String(Math.floor(age / HOUR))}h ago`;
+  return new Date(ts).toLocaleDateString();
+}
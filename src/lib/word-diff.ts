@@ -0,0 +1,182 @@
+/**
+ * Word-level diff for the overlay's review mode
+ *
+ * Tokenizes both texts into words and whitespace runs (lossless - joining the
+ * tokens gives back the input), aligns them with an LCS table, and groups
+ * the differences into numbered hunks the user can accept or reject one by
+ * one. `applyHunks` rebuilds the text from those decisions: accepting every
+ * hunk yields the revised text exactly, rejecting every hunk the original.
+ */
+
+/** Unchanged text, or one reviewable change (either side may be empty) */
+export type DiffSegment =
+  | { kind: "equal"; text: string }
+  | { kind: "change"; hunk: number; removed: string; added: string };
+
+/**
+ * Above this many LCS cells the middle section is reported as one hunk
+ * rather than allocating the table - keeps long drafts responsive.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+const isWhitespace = (text: string): boolean => /^\s+$/.test(text);
+
+interface Op {
+  kind: "equal" | "removed" | "added";
+  text: string;
+}
+
+/** LCS backtrack over `a` and `b` (common prefix/suffix already stripped) */
+function alignTokens(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text) => ({ kind: "removed" as const, text })),
+      ...b.map((text) => ({ kind: "added" as const, text })),
+    ];
+  }
+
+  // lcs(i, j) = LCS length of a[i..] and b[j..], flattened row-major.
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  const lcs = (i: number, j: number): number => table[i * width + j] ?? 0;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? lcs(i + 1, j + 1) + 1
+          : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    const left = a[i];
+    const right = b[j];
+    if (left !== undefined && left === right) {
+      ops.push({ kind: "equal", text: left });
+      i++;
+      j++;
+    } else if (
+      left !== undefined &&
+      (right === undefined || lcs(i + 1, j) >= lcs(i, j + 1))
+    ) {
+      ops.push({ kind: "removed", text: left });
+      i++;
+    } else if (right !== undefined) {
+      ops.push({ kind: "added", text: right });
+      j++;
+    }
+  }
+  return ops;
+}
+
+/** Collapses consecutive ops into equal runs and (unnumbered) change runs */
+function groupOps(ops: Op[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  for (const op of ops) {
+    const last = segments.at(-1);
+    if (op.kind === "equal") {
+      if (last?.kind === "equal") last.text += op.text;
+      else segments.push({ kind: "equal", text: op.text });
+      continue;
+    }
+    const change =
+      last?.kind === "change"
+        ? last
+        : { kind: "change" as const, hunk: 0, removed: "", added: "" };
+    if (change !== last) segments.push(change);
+    if (op.kind === "removed") change.removed += op.text;
+    else change.added += op.text;
+  }
+  return segments;
+}
+
+/**
+ * Diffs `original` against `revised` word by word. Changes separated only by
+ * whitespace are merged into one hunk so "the big dog" → "a small cat" reads
+ * as a single edit rather than three.
+ */
+export function diffWords(original: string, revised: string): DiffSegment[] {
+  const a = tokenize(original);
+  const b = tokenize(revised);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const grouped = groupOps([
+    ...a.slice(0, prefix).map((text) => ({ kind: "equal" as const, text })),
+    ...alignTokens(
+      a.slice(prefix, a.length - suffix),
+      b.slice(prefix, b.length - suffix),
+    ),
+    ...a
+      .slice(a.length - suffix)
+      .map((text) => ({ kind: "equal" as const, text })),
+  ]);
+
+  // Fold whitespace-only equal runs sandwiched between two changes into a
+  // single change, then number the hunks in order.
+  const segments: DiffSegment[] = [];
+  grouped.forEach((segment, index) => {
+    const last = segments.at(-1);
+    const next = grouped[index + 1];
+    if (
+      segment.kind === "equal" &&
+      isWhitespace(segment.text) &&
+      last?.kind === "change" &&
+      next?.kind === "change"
+    ) {
+      last.removed += segment.text + next.removed;
+      last.added += segment.text + next.added;
+      grouped[index + 1] = { kind: "equal", text: "" };
+      return;
+    }
+    if (segment.kind === "equal" && !segment.text) return;
+    segments.push(segment);
+  });
+
+  let hunk = 0;
+  for (const segment of segments) {
+    if (segment.kind === "change") segment.hunk = hunk++;
+  }
+  return segments;
+}
+
+/** Number of reviewable hunks in a diff */
+export function countHunks(segments: DiffSegment[]): number {
+  return segments.filter((s) => s.kind === "change").length;
+}
+
+/**
+ * Rebuilds text from a diff, taking the revised side of every hunk except
+ * those in `rejected`, which keep the original wording.
+ */
+export function applyHunks(
+  segments: DiffSegment[],
+  rejected: ReadonlySet<number>,
+): string {
+  return segments
+    .map((s) => {
+      if (s.kind === "equal") return s.text;
+      return rejected.has(s.hunk) ? s.removed : s.added;
+    })
+    .join("");
+}
@@ -0,0 +1,113 @@
+/**
+ * Options page - advanced settings
+ *
+ * Hosts the prompt template editor. Changes are saved as they are made; the
+ * background re-reads the overrides with every request.
+ */
+
+import "./styles/globals.css";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ErrorBoundary } from "~components/ErrorBoundary";
+import { Logo } from "~components/Logo";
+import { PromptTemplatesEditor } from "~components/PromptTemplatesEditor";
+import { Label } from "~components/ui/Label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~components/ui/Select";
+import { Toaster } from "~components/ui/Toaster";
+import { type Action, getAllActions, loadUserActions } from "~lib/actions";
+import { logger } from "~lib/logger";
+import {
+  ALL_ACTIONS_SCOPE,
+  loadPromptTemplateOverrides,
+  savePromptTemplateOverrides,
+} from "~lib/prompt-templates";
+import { type PromptTemplateOverrides } from "~types";
+
+export default function Options(): React.JSX.Element {
+  const [overrides, setOverrides] = useState<PromptTemplateOverrides>({});
+  const [actions, setActions] = useState<Action[]>([]);
+  const [scope, setScope] = useState(ALL_ACTIONS_SCOPE);
+
+  useEffect(() => {
+    void (async () => {
+      await loadUserActions();
+      // Recipes run each step with that step's templates.
+      setActions(getAllActions().filter((action) => !action.steps));
+      setOverrides(await loadPromptTemplateOverrides());
+    })();
+  }, []);
+
+  const handleChange = useCallback(
+    async (next: PromptTemplateOverrides): Promise<void> => {
+      const previous = overrides;
+      setOverrides(next);
+      try {
+        await savePromptTemplateOverrides(next);
+      } catch (error) {
+        logger.error("Failed to save prompt templates:", error);
+        setOverrides(previous);
+        toast.error("Couldn't save prompt templates.");
+      }
+    },
+    [overrides],
+  );
+
+  const overridden = (id: string): boolean => overrides[id] !== undefined;
+
+  return (
+    <ErrorBoundary>
+      <Toaster />
+      <main className="mx-auto flex max-w-3xl flex-col gap-6 px-6 py-10 text-[var(--pt-text-primary)]">
+        <header className="flex items-center gap-3">
+          <Logo className="h-8 w-8 text-[var(--pt-accent)]" />
+          <div className="flex flex-col">
+            <h1 className="text-lg font-semibold tracking-tight">
+              Prompt templates
+            </h1>
+            <span className="text-sm text-[var(--pt-text-secondary)]">
+              The prompts the engine sends on your behalf. Edit them for every
+              action or for one; an action&apos;s own template wins.
+            </span>
+          </div>
+        </header>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label
+            htmlFor="template-scope"
+            className="text-sm font-medium tracking-tight"
+          >
+            Applies to
+          </Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger id="template-scope" aria-label="Applies to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACTIONS_SCOPE}>
+                All actions{overridden(ALL_ACTIONS_SCOPE) ? " •" : ""}
+              </SelectItem>
+              {actions.map((action) => (
+                <SelectItem key={action.id} value={action.id}>
+                  {action.label}
+                  {overridden(action.id) ? " •" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <PromptTemplatesEditor
+          overrides={overrides}
+          scope={scope}
+          onChange={(next) => void handleChange(next)}
+        />
+      </main>
+    </ErrorBoundary>
+  );
+}
@@ -19,17 +19,77 @@ import * as TooltipPrimitive from "@radix-ui/react-tooltip";
 import { Skeleton } from "~components/ui/Skeleton";
 import { StatusDot } from "~components/ui/StatusDot";
 import { ErrorBoundary } from "~components/ErrorBoundary";
-import { checkAIAvailability } from "~lib/ai-availability";
-import { ACTIONS } from "~lib/actions";
-import { STORAGE_KEYS } from "~lib/constants";
+import { BackendSettingsEditor } from "~components/BackendSettingsEditor";
+import { CustomActionsEditor } from "~components/CustomActionsEditor";
+import { RecipesEditor } from "~components/RecipesEditor";
+import { HistoryList } from "~components/HistoryList";
+import { ResultCacheList } from "~components/ResultCacheList";
+import {
+  ACTIONS,
+  loadCustomActions,
+  loadRecipes,
+  saveCustomActions,
+  saveRecipes,
+} from "~lib/actions";
+import { MAX_VARIANTS, MESSAGE_TYPES, STORAGE_KEYS } from "~lib/constants";
+import {
+  HISTORY_LIMIT_OPTIONS,
+  clearHistory,
+  deleteHistoryEntry,
+  getHistory,
+  getHistoryLimit,
+  setHistoryLimit,
+} from "~lib/history";
+import {
+  IDLE_SHUTDOWN_DEFAULT_MINUTES,
+  IDLE_SHUTDOWN_OPTIONS,
+  getIdleShutdownMinutes,
+  setIdleShutdownMinutes,
+} from "~lib/idle-shutdown";
 import { logger } from "~lib/logger";
+import {
+  RESULT_CACHE_TTL_OPTIONS,
+  clearResultCache,
+  getResultCacheTtlHours,
+  listCachedResults,
+  resultCacheBytes,
+  setResultCacheTtlHours,
+} from "~lib/result-cache";
+import {
+  DEFAULT_BACKEND_SETTINGS,
+  createBackend,
+  loadBackendSettings,
+  saveBackendSettings,
+} from "~lib/model-backend";
 import { storage, tabs } from "~lib/storage";
 import { toast } from "sonner";
 import { Toaster } from "~components/ui/Toaster";
+import {
+  type BackendSettings,
+  type CustomActionDefinition,
+  type HistoryEntry,
+  type InsertTextMessage,
+  type RecipeDefinition,
+  type ReplaceTextResult,
+  type ResultCacheEntry,
+} from "~types";
 import "./styles/globals.css";
 
 type Status = "checking" | "ready" | "unavailable" | "needs-download";
 
+/** Select label for a persistent cache retention period */
+function formatCacheTtl(hours: number): string {
+  if (hours === 0) return "This session";
+  const days = hours / 24;
+  return `Keep ${String(days)} ${days === 1 ? "day" : "days"}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${String(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${String(Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Chrome's legacy window.ai.languageModel surface (pre-LanguageModel global).
  */
@@ -43,37 +103,74 @@ interface WindowAI {
 
 export default function Popup(): React.JSX.Element {
   const [status, setStatus] = useState<Status>("checking");
+  const [statusReason, setStatusReason] = useState<string | null>(null);
+  const [backendSettings, setBackendSettings] = useState<BackendSettings>(
+    DEFAULT_BACKEND_SETTINGS,
+  );
   const [isEnabled, setIsEnabled] = useState(true);
   const [defaultAction, setDefaultAction] = useState<string>("");
   const [runOnOpen, setRunOnOpen] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [idleMinutes, setIdleMinutes] = useState(IDLE_SHUTDOWN_DEFAULT_MINUTES);
   const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+  const [customActions, setCustomActions] = useState<CustomActionDefinition[]>(
+    [],
+  );
+  const [recipes, setRecipes] = useState<RecipeDefinition[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyLimit, setHistoryLimitState] = useState<number | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [cachedResults, setCachedResults] = useState<ResultCacheEntry[]>([]);
+  const [cacheTtlHours, setCacheTtlHoursState] = useState(0);
+  const [showCache, setShowCache] = useState(false);
 
-  const checkStatus = useCallback(async (): Promise<void> => {
-    setStatus("checking");
-    try {
-      const availability = await checkAIAvailability();
-      if (availability.available) setStatus("ready");
-      else if (availability.needsDownload) setStatus("needs-download");
-      else setStatus("unavailable");
-    } catch (error) {
-      logger.error("Failed to check AI status:", error);
-      setStatus("unavailable");
-    }
-  }, []);
+  /** Checks the given backend, or the stored choice when none is passed */
+  const checkStatus = useCallback(
+    async (settings?: BackendSettings): Promise<void> => {
+      setStatus("checking");
+      try {
+        const backend = createBackend(
+          settings ?? (await loadBackendSettings()),
+        );
+        const availability = await backend.availability();
+        setStatusReason(availability.reason ?? null);
+        if (availability.available) setStatus("ready");
+        else if (availability.needsDownload) setStatus("needs-download");
+        else setStatus("unavailable");
+      } catch (error) {
+        logger.error("Failed to check AI status:", error);
+        setStatusReason(null);
+        setStatus("unavailable");
+      }
+    },
+    [],
+  );
 
   const loadSettings = useCallback(async (): Promise<void> => {
     const result = await storage.get([
       "enabled",
       STORAGE_KEYS.DEFAULT_ACTION,
       STORAGE_KEYS.RUN_ON_OPEN,
+      STORAGE_KEYS.VARIANT_COUNT,
     ]);
     setIsEnabled(result.enabled !== false);
+    setVariantCount(
+      (result[STORAGE_KEYS.VARIANT_COUNT] as number | undefined) ?? 1,
+    );
     setDefaultAction(
       (result[STORAGE_KEYS.DEFAULT_ACTION] as string | undefined) ?? "",
     );
     setRunOnOpen(
       (result[STORAGE_KEYS.RUN_ON_OPEN] as boolean | undefined) ?? false,
     );
+    setBackendSettings(await loadBackendSettings());
+    setCustomActions(await loadCustomActions());
+    setRecipes(await loadRecipes());
+    setHistory(await getHistory());
+    setHistoryLimitState(await getHistoryLimit());
+    setIdleMinutes(await getIdleShutdownMinutes());
+    setCachedResults(await listCachedResults());
+    setCacheTtlHoursState(await getResultCacheTtlHours());
   }, []);
 
   const toggleEnabled = useCallback(async (): Promise<void> => {
@@ -99,6 +196,117 @@ export default function Popup(): React.JSX.Element {
     [],
   );
 
+  /** A deleted custom action or recipe can't stay the default */
+  const clearStaleDefault = useCallback(
+    async (validIds: string[]): Promise<void> => {
+      if (defaultAction && !validIds.includes(defaultAction)) {
+        await handleDefaultActionChange("__none__");
+      }
+    },
+    [defaultAction, handleDefaultActionChange],
+  );
+
+  const handleCustomActionsChange = useCallback(
+    async (next: CustomActionDefinition[]): Promise<void> => {
+      setCustomActions(next);
+      try {
+        await saveCustomActions(next);
+      } catch (error) {
+        logger.error("Failed to save custom actions:", error);
+        toast.error("Couldn't save custom actions.");
+        return;
+      }
+      await clearStaleDefault(
+        [...ACTIONS, ...next, ...recipes].map((a) => a.id),
+      );
+    },
+    [recipes, clearStaleDefault],
+  );
+
+  const handleRecipesChange = useCallback(
+    async (next: RecipeDefinition[]): Promise<void> => {
+      setRecipes(next);
+      try {
+        await saveRecipes(next);
+      } catch (error) {
+        logger.error("Failed to save recipes:", error);
+        toast.error("Couldn't save recipes.");
+        return;
+      }
+      await clearStaleDefault(
+        [...ACTIONS, ...customActions, ...next].map((a) => a.id),
+      );
+    },
+    [customActions, clearStaleDefault],
+  );
+
+  const handleHistoryInsert = useCallback(
+    async (entry: HistoryEntry): Promise<void> => {
+      const message: InsertTextMessage = {
+        type: MESSAGE_TYPES.INSERT_TEXT,
+        text: entry.result,
+      };
+      try {
+        const result = await tabs.sendToActive<ReplaceTextResult | undefined>(
+          message,
+        );
+        if (result?.success) {
+          toast.success("Inserted into the prompt box");
+        } else {
+          toast.error(result?.error ?? "Couldn't insert on this page.");
+        }
+      } catch {
+        toast.error("Open ChatGPT, Claude, or Gemini to insert.");
+      }
+    },
+    [],
+  );
+
+  const handleHistoryDelete = useCallback(
+    async (entry: HistoryEntry): Promise<void> => {
+      setHistory((h) => h.filter((e) => e.id !== entry.id));
+      await deleteHistoryEntry(entry.id);
+    },
+    [],
+  );
+
+  const handleHistoryLimitChange = useCallback(
+    async (value: string): Promise<void> => {
+      const limit = Number(value);
+      setHistoryLimitState(limit);
+      await setHistoryLimit(limit);
+      setHistory(await getHistory());
+    },
+    [],
+  );
+
+  const handleClearHistory = useCallback(async (): Promise<void> => {
+    setHistory([]);
+    await clearHistory();
+  }, []);
+
+  const handleCacheTtlChange = useCallback(
+    async (value: string): Promise<void> => {
+      const hours = Number(value);
+      setCacheTtlHoursState(hours);
+      await setResultCacheTtlHours(hours);
+      setCachedResults(await listCachedResults());
+    },
+    [],
+  );
+
+  const handleClearCache = useCallback(async (): Promise<void> => {
+    setCachedResults([]);
+    await clearResultCache();
+  }, []);
+
+  const actionLabel = useCallback(
+    (actionId: string): string =>
+      [...ACTIONS, ...customActions, ...recipes].find((a) => a.id === actionId)
+        ?.label ?? actionId,
+    [customActions, recipes],
+  );
+
   const handleRunOnOpenChange = useCallback(
     async (checked: boolean): Promise<void> => {
       setRunOnOpen(checked);
@@ -107,6 +315,39 @@ export default function Popup(): React.JSX.Element {
     [],
   );
 
+  const handleBackendChange = useCallback(
+    async (next: BackendSettings): Promise<void> => {
+      setBackendSettings(next);
+      try {
+        await saveBackendSettings(next);
+      } catch (error) {
+        logger.error("Failed to save backend settings:", error);
+        toast.error("Couldn't save the model choice.");
+        return;
+      }
+      await checkStatus(next);
+    },
+    [checkStatus],
+  );
+
+  const handleVariantCountChange = useCallback(
+    async (value: string): Promise<void> => {
+      const count = Number(value);
+      setVariantCount(count);
+      await storage.set({ [STORAGE_KEYS.VARIANT_COUNT]: count });
+    },
+    [],
+  );
+
+  const handleIdleMinutesChange = useCallback(
+    async (value: string): Promise<void> => {
+      const minutes = Number(value);
+      setIdleMinutes(minutes);
+      await setIdleShutdownMinutes(minutes);
+    },
+    [],
+  );
+
   useEffect(() => {
     void checkStatus();
     void loadSettings();
@@ -211,7 +452,7 @@ export default function Popup(): React.JSX.Element {
               </div>
               <Tooltip content="Refresh AI status" side="left">
                 <button
-                  onClick={() => void checkStatus()}
+                  onClick={() => void checkStatus(backendSettings)}
                   className="inline-flex items-center justify-center h-8 w-8 rounded-[var(--pt-radius-sm)] text-[var(--pt-text-tertiary)] outline-none transition-colors hover:text-[var(--pt-text-primary)] hover:bg-[var(--pt-hover-bg)]"
                   aria-label="Refresh AI status"
                 >
@@ -227,88 +468,100 @@ export default function Popup(): React.JSX.Element {
               </Tooltip>
             </div>
 
-            {(status === "unavailable" || status === "needs-download") && (
-              <div className="flex flex-col gap-1.5 px-3 pt-1 pb-1.5">
-                <div className="flex justify-end">
-                  <Button
-                    onClick={() => {
-                      if (status === "needs-download") {
-                        setDownloadProgress(0);
-                        try {
-                          void (
-                            window as Window & { ai?: WindowAI }
-                          ).ai?.languageModel
-                            .create({
-                              monitor(m: EventTarget) {
-                                m.addEventListener(
-                                  "downloadprogress",
-                                  (
-                                    e: Event & {
-                                      loaded?: number;
-                                      total?: number;
+            <BackendSettingsEditor
+              settings={backendSettings}
+              onChange={(next) => void handleBackendChange(next)}
+            />
+
+            {backendSettings.id === "local" && status === "unavailable" && (
+              <span className="px-3 pb-1.5 text-xs text-[var(--pt-text-secondary)] leading-snug">
+                {statusReason ?? "The local model server isn't reachable."}
+              </span>
+            )}
+
+            {backendSettings.id === "nano" &&
+              (status === "unavailable" || status === "needs-download") && (
+                <div className="flex flex-col gap-1.5 px-3 pt-1 pb-1.5">
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => {
+                        if (status === "needs-download") {
+                          setDownloadProgress(0);
+                          try {
+                            void (
+                              window as Window & { ai?: WindowAI }
+                            ).ai?.languageModel
+                              .create({
+                                monitor(m: EventTarget) {
+                                  m.addEventListener(
+                                    "downloadprogress",
+                                    (
+                                      e: Event & {
+                                        loaded?: number;
+                                        total?: number;
+                                      },
+                                    ) => {
+                                      if (
+                                        e.loaded != null &&
+                                        e.total != null &&
+                                        e.total > 0
+                                      ) {
+                                        setDownloadProgress(e.loaded / e.total);
+                                      }
                                     },
-                                  ) => {
-                                    if (
-                                      e.loaded != null &&
-                                      e.total != null &&
-                                      e.total > 0
-                                    ) {
-                                      setDownloadProgress(e.loaded / e.total);
-                                    }
-                                  },
-                                );
-                              },
-                            })
-                            .then(() => {
-                              setDownloadProgress(null);
-                              setStatus("ready");
-                              toast.success("Model ready", {
-                                icon: (
-                                  <span className="pt-check-pop inline-flex text-[var(--pt-status-success)]">
-                                    ✓
-                                  </span>
-                                ),
+                                  );
+                                },
+                              })
+                              .then(() => {
+                                setDownloadProgress(null);
+                                setStatus("ready");
+                                toast.success("Model ready", {
+                                  icon: (
+                                    <span className="pt-check-pop inline-flex text-[var(--pt-status-success)]">
+                                      ✓
+                                    </span>
+                                  ),
+                                });
+                              })
+                              .catch(() => {
+                                setDownloadProgress(null);
+                                toast.error("Download failed. Try again.");
                               });
-                            })
-                            .catch(() => {
-                              setDownloadProgress(null);
-                              toast.error("Download failed. Try again.");
-                            });
-                        } catch {
-                          setDownloadProgress(null);
+                          } catch {
+                            setDownloadProgress(null);
+                          }
+                        } else {
+                          openFlags();
                         }
-                      } else {
-                        openFlags();
-                      }
-                    }}
-                    variant="secondary"
-                    size="sm"
-                    disabled={downloadProgress !== null}
-                  >
-                    {downloadProgress !== null
-                      ? `Downloading… ${String(progressPct)}%`
-                      : status === "needs-download"
-                        ? "Start download"
-                        : "Enable Gemini Nano"}
-                  </Button>
-                </div>
-                {downloadProgress !== null && (
-                  <div
-                    className="w-full h-1 rounded-full overflow-hidden bg-[var(--pt-hover-bg)]"
-                    role="progressbar"
-                    aria-valuenow={progressPct}
-                    aria-valuemin={0}
-                    aria-valuemax={100}
-                    aria-label="Model download progress"
-                  >
-                    <div
-                      className="h-full rounded-full bg-[var(--pt-accent)] transition-[width] duration-300 ease-out"
-                      style={{ width: `${String(progressPct)}%` }}
-                    />
+                      }}
+                      variant="secondary"
+                      size="sm"
+                      disabled={downloadProgress !== null}
+                    >
+                      {downloadProgress !== null
+                        ? `Downloading… ${String(progressPct)}%`
+                        : status === "needs-download"
+                          ? "Start download"
+                          : "Enable Gemini Nano"}
+                    </Button>
                   </div>
-                )}
-              </div>
-            )}
+                  {downloadProgress !== null && (
+                    <div
+                      className="w-full h-1 rounded-full overflow-hidden bg-[var(--pt-hover-bg)]"
+                      role="progressbar"
+                      aria-valuenow={progressPct}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-label="Model download progress"
+                    >
+                      <div
+                        className="h-full rounded-full bg-[var(--pt-accent)] transition-[width] duration-300 ease-out"
+                        style={{ width: `${String(progressPct)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
 
             {isModelReady && (
               <>
@@ -356,11 +609,13 @@ export default function Popup(): React.JSX.Element {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="__none__">None</SelectItem>
-                        {ACTIONS.map((action) => (
-                          <SelectItem key={action.id} value={action.id}>
-                            {action.label}
-                          </SelectItem>
-                        ))}
+                        {[...ACTIONS, ...customActions, ...recipes].map(
+                          (action) => (
+                            <SelectItem key={action.id} value={action.id}>
+                              {action.label}
+                            </SelectItem>
+                          ),
+                        )}
                       </SelectContent>
                     </Select>
                   </div>
@@ -412,7 +667,239 @@ export default function Popup(): React.JSX.Element {
                       </Tooltip>
                     )}
                   </div>
+
+                  <div className="flex items-center justify-between px-3 py-2 rounded-[var(--pt-radius-md)] transition-colors hover:bg-[var(--pt-hover-bg)]">
+                    <div className="flex flex-col gap-0.5">
+                      <Label
+                        htmlFor="variant-count"
+                        className="text-sm font-medium tracking-tight"
+                      >
+                        Variants
+                      </Label>
+                      <span className="text-xs text-[var(--pt-text-secondary)] leading-snug">
+                        Generate several candidates and pick one before
+                        inserting.
+                      </span>
+                    </div>
+                    <Select
+                      value={String(variantCount)}
+                      onValueChange={(v) => void handleVariantCountChange(v)}
+                    >
+                      <SelectTrigger
+                        id="variant-count"
+                        aria-label="Number of variants"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from(
+                          { length: MAX_VARIANTS },
+                          (_, i) => i + 1,
+                        ).map((count) => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count === 1 ? "Off" : String(count)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between px-3 py-2 rounded-[var(--pt-radius-md)] transition-colors hover:bg-[var(--pt-hover-bg)]">
+                    <div className="flex flex-col gap-0.5">
+                      <Label
+                        htmlFor="idle-shutdown"
+                        className="text-sm font-medium tracking-tight"
+                      >
+                        Release model
+                      </Label>
+                      <span className="text-xs text-[var(--pt-text-secondary)] leading-snug">
+                        Free model memory once no tab has used it for a while.
+                      </span>
+                    </div>
+                    <Select
+                      value={String(idleMinutes)}
+                      onValueChange={(v) => void handleIdleMinutesChange(v)}
+                    >
+                      <SelectTrigger
+                        id="idle-shutdown"
+                        aria-label="Release model after"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {IDLE_SHUTDOWN_OPTIONS.map((minutes) => (
+                          <SelectItem key={minutes} value={String(minutes)}>
+                            After {minutes} min
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div
+                  className="mx-1 my-1 h-px bg-[var(--pt-surface-border)]"
+                  aria-hidden
+                />
+
+                <CustomActionsEditor
+                  actions={customActions}
+                  onChange={(next) => void handleCustomActionsChange(next)}
+                />
+
+                <div
+                  className="mx-1 my-1 h-px bg-[var(--pt-surface-border)]"
+                  aria-hidden
+                />
+
+                <RecipesEditor
+                  recipes={recipes}
+                  actions={[...ACTIONS, ...customActions]}
+                  onChange={(next) => void handleRecipesChange(next)}
+                />
+
+                <div
+                  className="mx-1 my-1 h-px bg-[var(--pt-surface-border)]"
+                  aria-hidden
+                />
+
+                <div className="flex items-center justify-between gap-3 px-3 py-2 rounded-[var(--pt-radius-md)] transition-colors hover:bg-[var(--pt-hover-bg)]">
+                  <div className="flex flex-col gap-0.5">
+                    <span className="text-sm font-medium tracking-tight">
+                      Prompt templates
+                    </span>
+                    <span className="text-xs text-[var(--pt-text-secondary)] leading-snug">
+                      Edit the prompts the engine sends, for every action or
+                      one.
+                    </span>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => void tabs.openOptions()}
+                  >
+                    Edit
+                  </Button>
                 </div>
+
+                <div
+                  className="mx-1 my-1 h-px bg-[var(--pt-surface-border)]"
+                  aria-hidden
+                />
+
+                <div className="flex items-center justify-between px-3 py-2 rounded-[var(--pt-radius-md)] transition-colors hover:bg-[var(--pt-hover-bg)]">
+                  <button
+                    type="button"
+                    aria-expanded={showHistory}
+                    aria-controls="popup-history"
+                    onClick={() => {
+                      setShowHistory((v) => !v);
+                    }}
+                    className="flex items-center gap-2 text-sm font-medium tracking-tight outline-none"
+                  >
+                    History
+                    <span className="text-xs tabular-nums text-[var(--pt-text-tertiary)]">
+                      {history.length}
+                    </span>
+                  </button>
+                  <Select
+                    value={String(historyLimit ?? "")}
+                    onValueChange={(v) => void handleHistoryLimitChange(v)}
+                  >
+                    <SelectTrigger
+                      id="history-limit"
+                      aria-label="History retention"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HISTORY_LIMIT_OPTIONS.map((limit) => (
+                        <SelectItem key={limit} value={String(limit)}>
+                          Keep {limit}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {showHistory && (
+                  <div id="popup-history" className="flex flex-col">
+                    <HistoryList
+                      entries={history}
+                      onInsert={(entry) => void handleHistoryInsert(entry)}
+                      onDelete={(entry) => void handleHistoryDelete(entry)}
+                    />
+                    {history.length > 0 && (
+                      <div className="flex justify-end px-3 pt-1 pb-1.5">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => void handleClearHistory()}
+                        >
+                          Clear history
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between px-3 py-2 rounded-[var(--pt-radius-md)] transition-colors hover:bg-[var(--pt-hover-bg)]">
+                  <button
+                    type="button"
+                    aria-expanded={showCache}
+                    aria-controls="popup-result-cache"
+                    onClick={() => {
+                      setShowCache((v) => !v);
+                    }}
+                    className="flex items-center gap-2 text-sm font-medium tracking-tight outline-none"
+                  >
+                    Result cache
+                    <span className="text-xs tabular-nums text-[var(--pt-text-tertiary)]">
+                      {cachedResults.length}
+                    </span>
+                  </button>
+                  <Select
+                    value={String(cacheTtlHours)}
+                    onValueChange={(v) => void handleCacheTtlChange(v)}
+                  >
+                    <SelectTrigger
+                      id="result-cache-ttl"
+                      aria-label="Result cache retention"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESULT_CACHE_TTL_OPTIONS.map((hours) => (
+                        <SelectItem key={hours} value={String(hours)}>
+                          {formatCacheTtl(hours)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {showCache && (
+                  <div id="popup-result-cache" className="flex flex-col">
+                    <ResultCacheList
+                      entries={cachedResults}
+                      labelFor={actionLabel}
+                    />
+                    {cachedResults.length > 0 && (
+                      <div className="flex items-center justify-between px-3 pt-1 pb-1.5">
+                        <span className="text-xs tabular-nums text-[var(--pt-text-tertiary)]">
+                          {formatBytes(resultCacheBytes(cachedResults))}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => void handleClearCache()}
+                        >
+                          Clear cache
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -0,0 +1,16 @@
+/**
+ * Offscreen document - hosts the AI engine's model sessions
+ *
+ * Created by the service worker on first use and closed by its idle
+ * shutdown; see `~lib/engine-host` for the channel. Renders nothing.
+ */
+
+import { registerEngineHost } from "~lib/engine-host";
+
+registerEngineHost();
+
+function OffscreenDocument(): null {
+  return null;
+}
+
+export default OffscreenDocument;
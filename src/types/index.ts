@@ -55,6 +55,43 @@ export interface StatusCheckMessage extends BaseMessage {
   type: "PING" | "CHECK_STATUS" | "CHECK_DB_STATUS";
 }
 
+/** Writes text into the host page's composer (popup → content script) */
+export interface InsertTextMessage extends BaseMessage {
+  type: "INSERT_TEXT";
+  text: string;
+}
+
+/**
+ * Asks the background to pre-clone the platform's rule session before the
+ * user runs an action (content script → background). Also counts as activity
+ * for the idle shutdown.
+ */
+export interface WarmupMessage extends BaseMessage {
+  type: "WARMUP";
+  platform: Platform;
+}
+
+/**
+ * Asks the background for this tab's optimization job (content script →
+ * background). Answered with a `JobSummary`, or null when there is nothing
+ * to re-attach to.
+ */
+export interface GetJobMessage extends BaseMessage {
+  type: "GET_JOB";
+}
+
+/** Lifecycle of a background optimization job */
+export type JobState = "running" | "complete" | "error" | "cancelled";
+
+/** What the overlay needs to re-attach to a job */
+export interface JobSummary {
+  id: string;
+  state: JobState;
+  actionId: string;
+  draft: string;
+  startedAt: number;
+}
+
 /** Request payload for prompt optimization */
 export interface OptimizeRequest {
   draft: string;
@@ -72,7 +109,10 @@ export interface StartOptimizationMessage extends BaseMessage {
 export type ExtensionMessage =
   | ToggleOverlayMessage
   | StatusCheckMessage
-  | StartOptimizationMessage;
+  | StartOptimizationMessage
+  | InsertTextMessage
+  | WarmupMessage
+  | GetJobMessage;
 
 // =============================================================================
 // Port-based Streaming Types (optimize-port)
@@ -84,6 +124,13 @@ export interface OptimizePortRequest {
   draft: string;
   platform: Platform;
   action: string;
+  /**
+   * N-variants mode: how many candidate rewrites to stream (2-4). Omitted or
+   * 1 runs the action normally. Ignored for recipes.
+   */
+  variants?: number;
+  /** Regenerate: skip the result cache (the new result is still cached) */
+  fresh?: boolean;
 }
 
 /** Cancel message sent from overlay to background over port */
@@ -91,10 +138,37 @@ export interface OptimizePortCancel {
   type: "CANCEL";
 }
 
+/**
+ * Re-attaches a reopened overlay to a background job (see GET_JOB). The
+ * background replays the job's output so far, then keeps streaming.
+ */
+export interface OptimizePortAttach {
+  type: "ATTACH_JOB";
+  jobId: string;
+}
+
 /** Stage progress message sent from background to overlay */
 export interface OptimizePortStage {
   type: "STAGE";
   stage: string;
+  /** Set while a recipe runs - which of its actions `stage` belongs to */
+  step?: RecipeStepInfo;
+  /** With stage "queued": place in the job queue, 1 = next to run */
+  position?: number;
+}
+
+/** Progress message sent from background to overlay during long stages */
+export interface OptimizePortProgress extends ProgressUpdate {
+  type: "PROGRESS";
+  /** Set while a recipe runs - which of its actions the progress belongs to */
+  step?: RecipeStepInfo;
+}
+
+/** Position of the running action within a recipe (`index` is 0-based) */
+export interface RecipeStepInfo {
+  index: number;
+  total: number;
+  label: string;
 }
 
 /** Streaming chunk message sent from background to overlay */
@@ -103,11 +177,95 @@ export interface OptimizePortChunk {
   data: string;
 }
 
+/** Streaming chunk for one candidate of a variants request */
+export interface OptimizePortCandidateChunk {
+  type: "CANDIDATE_CHUNK";
+  /** 0-based candidate index */
+  index: number;
+  data: string;
+}
+
+/** One candidate of a variants request finished (its cleaned text) */
+export interface OptimizePortCandidateComplete {
+  type: "CANDIDATE_COMPLETE";
+  index: number;
+  text: string;
+}
+
 /** Final completion message sent from background to overlay */
 export interface OptimizePortComplete {
   type: "COMPLETE";
   optimizedPrompt: string;
+  /** Text of the rules the run applied */
   appliedRules: string[];
+  /** The same rules as references into the bundled rule set */
+  rules: AppliedRuleRef[];
+  /** How the result was produced */
+  report: RunReport;
+  /**
+   * Variants requests only: every candidate in index order.
+   * `optimizedPrompt` is the first.
+   */
+  candidates?: string[];
+  /** Problems the user should check before inserting the result */
+  warnings?: ResultWarning[];
+}
+
+/** Something wrong with a finished result that did not stop the run */
+export interface ResultWarning {
+  /**
+   * PROTECTED_SPAN_MISSING: the output lost a protected span's placeholder.
+   * DROPPED_* and LENGTH_INFLATION come from the preservation check.
+   */
+  code:
+    | "PROTECTED_SPAN_MISSING"
+    | "DROPPED_NUMBER"
+    | "DROPPED_NAME"
+    | "DROPPED_URL"
+    | "DROPPED_IDENTIFIER"
+    | "DROPPED_QUESTION"
+    | "DROPPED_CONSTRAINT"
+    | "LENGTH_INFLATION";
+  message: string;
+  /** The content concerned, e.g. the dropped span or numbers */
+  detail?: string;
+}
+
+/** A rule a run applied, as `OptimizationRule` identifies it */
+export interface AppliedRuleRef {
+  id: string;
+  title?: string;
+  source?: string;
+}
+
+/** What ran for a request: an engine pipeline, or the variants path */
+export type RunPattern = EnginePipeline | "variants";
+
+/** Time spent in one stage of a run, in order */
+export interface StageTiming {
+  /** STAGE name, or "preparing" for the time before the first one */
+  stage: string;
+  /** Recipe step label, when the stage belongs to a recipe step */
+  step?: string;
+  ms: number;
+}
+
+/** How a result was made - shown in the overlay's "How this was made" */
+export interface RunReport {
+  /** Engine that ran it, e.g. "nano" or "local:llama3@<url>" */
+  engine: string;
+  /** Patterns that actually ran, one per recipe step; empty when cached */
+  patterns: RunPattern[];
+  /** Pipelines that gave up and handed the draft to another */
+  fallbacks: PipelineFallback[];
+  timings: StageTiming[];
+  totalMs: number;
+  /** Tokens in the draft, when the engine could measure them */
+  tokensIn?: number;
+  /** Tokens in the result (single results only) */
+  tokensOut?: number;
+  /** Served from the result cache without running the model */
+  cached: boolean;
 }
 
 /** Error message sent from background to overlay */
@@ -128,11 +286,15 @@ export interface OptimizePortTokenInfo {
 export type OptimizePortMessage =
   | OptimizePortRequest
   | OptimizePortCancel
+  | OptimizePortAttach
   | OptimizePortChunk
+  | OptimizePortCandidateChunk
+  | OptimizePortCandidateComplete
   | OptimizePortComplete
   | OptimizePortError
   | OptimizePortTokenInfo
-  | OptimizePortStage;
+  | OptimizePortStage
+  | OptimizePortProgress;
 
 /** Response payload from single-fire prompt optimization (legacy/fallback) */
 export interface OptimizeResponse {
@@ -149,6 +311,51 @@ export interface OptimizeResponse {
   };
 }
 
+// =============================================================================
+// Main World Bridge Types (window.postMessage)
+// =============================================================================
+
+/** Isolated world → main world: "is the bridge installed?" */
+export interface MainWorldHandshake {
+  type: "BRIDGE_HANDSHAKE";
+  source: "prompt-tuner";
+  id: string;
+}
+
+/** Main world → isolated world: handshake answer or install announcement */
+export interface MainWorldReady {
+  type: "BRIDGE_READY";
+  source: "prompt-tuner";
+  /** Echoes the handshake id; absent on the unsolicited install broadcast */
+  id?: string;
+}
+
+/** Isolated world → main world: replace the target's full contents */
+export interface MainWorldReplaceRequest {
+  type: "REPLACE_TEXT";
+  source: "prompt-tuner";
+  id: string;
+  /** Selector from `getElementSelector`; bridge falls back to focus if absent */
+  selector?: string;
+  text: string;
+}
+
+/** Main world → isolated world: outcome of a REPLACE_TEXT request */
+export interface MainWorldReplaceResponse {
+  type: "REPLACE_TEXT_RESPONSE";
+  source: "prompt-tuner";
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+/** Union of all messages exchanged with the main-world bridge */
+export type MainWorldBridgeMessage =
+  | MainWorldHandshake
+  | MainWorldReady
+  | MainWorldReplaceRequest
+  | MainWorldReplaceResponse;
+
 // =============================================================================
 // Error Types
 // =============================================================================
@@ -201,6 +408,226 @@ export interface AIOptimizeOptions {
   onStage?: (stage: string) => void;
   /** Abort signal for cancelling an in-flight optimization */
   signal?: AbortSignal;
+  /** Action-specific instruction template (custom actions) */
+  instruction?: string;
+  /** Called when the pipeline gives up and hands the draft to another */
+  onFallback?: (fallback: PipelineFallback) => void;
+  /** Called as a multi-part stage works through its sections or phases */
+  onProgress?: (progress: ProgressUpdate) => void;
+  /** User overrides of the engine's prompt templates, by template */
+  templates?: PromptTemplateTexts;
+}
+
+/** How far a multi-part stage has got, e.g. section 3 of 8 mapped */
+export interface ProgressUpdate {
+  /** The STAGE this progress belongs to, e.g. "mapping" */
+  stage: string;
+  /** Units finished so far (0 when the stage starts) */
+  current: number;
+  total: number;
+  unit: "section" | "phase";
+  /** Time since the stage started */
+  elapsedMs: number;
+}
+
+/** A pipeline falling back to another, e.g. Writer API unavailable */
+export interface PipelineFallback {
+  from: EnginePipeline;
+  to: EnginePipeline;
+  reason: string;
+}
+
+/** Which model backend serves optimizations (see `~lib/model-backend`) */
+export type ModelBackendId = "nano" | "local";
+
+/** Connection details for a localhost OpenAI-compatible server */
+export interface LocalBackendSettings {
+  /** API root including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Model name sent with each request; empty lets the server pick */
+  model: string;
+  /** Context window to budget input against, in tokens */
+  contextTokens: number;
+}
+
+/** Backend choice as persisted in chrome.storage */
+export interface BackendSettings {
+  id: ModelBackendId;
+  local: LocalBackendSettings;
+}
+
+// =============================================================================
+// Offscreen Engine Types (engine-port)
+// =============================================================================
+
+/** Engine pipelines the offscreen host runs for a single-result request */
+export type EnginePipeline =
+  | "single"
+  | "refine"
+  | "map-reduce"
+  | "hierarchical"
+  | "decomposition"
+  | "writer"
+  | "rewriter";
+
+/**
+ * One engine call from the service worker to the offscreen document. Every
+ * call that touches a model carries the backend settings, so a restarted
+ * worker never has to re-sync them.
+ */
+export type EngineCall =
+  | { method: "availability"; backend: BackendSettings }
+  | { method: "contextLimit"; backend: BackendSettings }
+  | { method: "measure"; backend: BackendSettings; draft: string }
+  | {
+      method: "warmup";
+      backend: BackendSettings;
+      rules: string[];
+      templates?: PromptTemplateTexts;
+    }
+  | {
+      method: "optimize";
+      backend: BackendSettings;
+      pipeline: EnginePipeline;
+      draft: string;
+      rules: string[];
+      instruction?: string;
+      templates?: PromptTemplateTexts;
+    }
+  | {
+      method: "variants";
+      backend: BackendSettings;
+      draft: string;
+      rules: string[];
+      count: number;
+      instruction?: string;
+      templates?: PromptTemplateTexts;
+    };
+
+/** Service worker → offscreen document, after the call */
+export interface EngineAbortMessage {
+  type: "ABORT";
+}
+
+/**
+ * Offscreen document → service worker. Callback events stream while the
+ * call runs; exactly one RESULT or ERROR ends it.
+ */
+export type EngineEvent =
+  | { type: "CHUNK"; data: string }
+  | { type: "CANDIDATE_CHUNK"; index: number; data: string }
+  | { type: "CANDIDATE_COMPLETE"; index: number; text: string }
+  | { type: "TOKEN_INFO"; count: number; limit: number }
+  | { type: "STAGE"; stage: string }
+  | { type: "FALLBACK"; fallback: PipelineFallback }
+  | { type: "PROGRESS"; progress: ProgressUpdate }
+  | { type: "RESULT"; value: unknown }
+  | { type: "ERROR"; code: ErrorCode; message: string; aborted: boolean };
+
+// =============================================================================
+// Action Types
+// =============================================================================
+
+/** Which Chrome AI API an action routes through */
+export type ActionEngine = "prompt" | "writer" | "rewriter";
+
+/** Decomposition pattern an action runs with */
+export type ActionPattern = "single" | "refine" | "recursive";
+
+/** An engine prompt users can override (see `~lib/prompt-templates`) */
+export type PromptTemplateId =
+  | "system"
+  | "critique"
+  | "polish"
+  | "map"
+  | "reduce"
+  | "phases"
+  | "steps";
+
+/** Template texts a run uses in place of the defaults */
+export type PromptTemplateTexts = Partial<Record<PromptTemplateId, string>>;
+
+/** A user's replacement for a default template, as persisted */
+export interface PromptTemplateOverride {
+  text: string;
+  /** Version of the default it replaced, to tell when that has changed */
+  version: number;
+}
+
+/**
+ * Overrides by scope: `"*"` for every action, otherwise an action ID. An
+ * action's own override wins over the one for every action.
+ */
+export type PromptTemplateOverrides = Record<
+  string,
+  Partial<Record<PromptTemplateId, PromptTemplateOverride>>
+>;
+
+/** A user-defined action as persisted in chrome.storage (see `~lib/actions`) */
+export interface CustomActionDefinition {
+  id: string;
+  label: string;
+  description?: string;
+  keywords: string[];
+  /**
+   * Instruction sent alongside the draft. `{{prompt}}` marks where the draft
+   * goes; without it the draft is appended after the instruction.
+   */
+  instruction: string;
+  engine: ActionEngine;
+  pattern: ActionPattern;
+  /** Rule tags to route to the model; empty means every platform rule */
+  ruleTags: string[];
+}
+
+/**
+ * A saved chain of actions run as one palette entry (see `~lib/actions`).
+ * Each step receives the previous step's output.
+ */
+export interface RecipeDefinition {
+  id: string;
+  label: string;
+  description?: string;
+  keywords: string[];
+  /** Action IDs in run order - built-in or custom, never another recipe */
+  steps: string[];
+}
+
+// =============================================================================
+// History Types
+// =============================================================================
+
+/** One completed optimization, as recorded in the local history store */
+export interface HistoryEntry {
+  id: string;
+  /** The draft that was optimized */
+  original: string;
+  /** The optimized text */
+  result: string;
+  actionId: string;
+  /** Label at run time - custom actions may since have been deleted */
+  actionLabel: string;
+  platform: Platform;
+  /** Fingerprint of the bundled rule set the run used */
+  rulesVersion: string;
+  /** Completion time (ms since epoch) */
+  ts: number;
+}
+
+/** A finished result kept for reuse by identical requests (see result-cache) */
+export interface ResultCacheEntry {
+  /** Request fingerprint - draft, action, platform, engine, options, rules */
+  key: string;
+  result: string;
+  rules: string[];
+  actionId: string;
+  platform: Platform;
+  /** Engine that produced it, e.g. "nano" or "local:llama3@<url>" */
+  engine: string;
+  /** When it was generated (ms since epoch) */
+  ts: number;
+  /** Last time it was served or stored - the LRU order */
+  usedAt: number;
 }
 
 // =============================================================================
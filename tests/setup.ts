@@ -2,7 +2,7 @@
  * Test Setup Configuration
  *
  * Provides global mocks for:
- * - Chrome Extension APIs (runtime, storage, alarms)
+ * - Chrome Extension APIs (runtime, storage, alarms, action)
  * - Chrome Built-in AI LanguageModel API (Gemini Nano)
  */
 
@@ -53,6 +53,10 @@ const mockChrome = {
     clear: vi.fn(),
     onAlarm: { addListener: vi.fn() },
   },
+  action: {
+    setBadgeText: vi.fn(() => Promise.resolve()),
+    setBadgeBackgroundColor: vi.fn(() => Promise.resolve()),
+  },
 };
 
 vi.stubGlobal("chrome", mockChrome);
@@ -81,7 +85,7 @@ const createMockSession = () => ({
     });
   }),
   destroy: vi.fn(),
-  clone: vi.fn(),
+  clone: vi.fn(() => Promise.resolve(createMockSession())),
   append: vi.fn(),
   measureInputUsage: vi.fn().mockResolvedValue(100),
   inputUsage: 0,
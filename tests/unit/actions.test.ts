@@ -1,5 +1,32 @@
-import { describe, expect, it } from "vitest";
-import { ACTIONS } from "../../src/lib/actions";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ACTIONS,
+  getActionById,
+  getAllActions,
+  loadCustomActions,
+  loadUserActions,
+  parseCustomActions,
+  parseRecipes,
+  saveCustomActions,
+  setCustomActions,
+  setRecipes,
+} from "../../src/lib/actions";
+import { STORAGE_KEYS } from "../../src/lib/constants";
+import { storage } from "../../src/lib/storage";
+import {
+  type CustomActionDefinition,
+  type RecipeDefinition,
+} from "../../src/types";
+
+const SQL_ACTION: CustomActionDefinition = {
+  id: "custom-sql",
+  label: "Convert to SQL question",
+  keywords: ["sql"],
+  instruction: "Rewrite {{prompt}} as a question about a SQL database.",
+  engine: "rewriter",
+  pattern: "single",
+  ruleTags: [],
+};
 
 describe("ACTIONS Registry", () => {
   it("should have exactly 7 actions", () => {
@@ -36,3 +63,120 @@ describe("ACTIONS Registry", () => {
     }
   });
 });
+
+describe("Custom actions", () => {
+  afterEach(() => {
+    setCustomActions([]);
+    vi.restoreAllMocks();
+  });
+
+  it("should merge custom actions after the built-ins", () => {
+    setCustomActions([SQL_ACTION]);
+
+    const all = getAllActions();
+    expect(all).toHaveLength(ACTIONS.length + 1);
+    expect(all.at(-1)).toMatchObject({
+      id: "custom-sql",
+      type: "secondary",
+      engine: "rewriter",
+      custom: true,
+    });
+    expect(getActionById("custom-sql")?.instruction).toBe(
+      SQL_ACTION.instruction,
+    );
+  });
+
+  it("should treat an empty rule-tag filter as all rules", () => {
+    setCustomActions([
+      SQL_ACTION,
+      { ...SQL_ACTION, id: "custom-tagged", ruleTags: ["format"] },
+    ]);
+
+    expect(getActionById("custom-sql")?.ruleTags).toBeUndefined();
+    expect(getActionById("custom-tagged")?.ruleTags).toEqual(["format"]);
+  });
+
+  it("should drop malformed entries and default unknown engines", () => {
+    const parsed = parseCustomActions([
+      { ...SQL_ACTION, engine: "gpt", pattern: "loop" },
+      { ...SQL_ACTION, id: "optimize" },
+      { ...SQL_ACTION, id: "custom-empty", instruction: "  " },
+      "not an action",
+    ]);
+
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0]).toMatchObject({ engine: "prompt", pattern: "single" });
+  });
+
+  it("should load from and save to chrome.storage", async () => {
+    vi.spyOn(storage, "get").mockResolvedValue({
+      [STORAGE_KEYS.CUSTOM_ACTIONS]: [SQL_ACTION],
+    });
+    const set = vi.spyOn(storage, "set").mockResolvedValue();
+
+    await expect(loadCustomActions()).resolves.toEqual([SQL_ACTION]);
+    expect(getActionById("custom-sql")).toBeDefined();
+
+    await saveCustomActions([]);
+    expect(set).toHaveBeenCalledWith({
+      [STORAGE_KEYS.CUSTOM_ACTIONS]: [],
+    });
+    expect(getActionById("custom-sql")).toBeUndefined();
+  });
+});
+
+describe("Recipes", () => {
+  const RECIPE: RecipeDefinition = {
+    id: "recipe-full",
+    label: "Full treatment",
+    keywords: ["full"],
+    steps: ["assign-role", "define-output", "custom-sql"],
+  };
+
+  afterEach(() => {
+    setCustomActions([]);
+    setRecipes([]);
+    vi.restoreAllMocks();
+  });
+
+  it("should appear as a single palette entry after custom actions", () => {
+    setCustomActions([SQL_ACTION]);
+    setRecipes([RECIPE]);
+
+    const all = getAllActions();
+    expect(all).toHaveLength(ACTIONS.length + 2);
+    expect(all.at(-1)).toMatchObject({
+      id: "recipe-full",
+      steps: RECIPE.steps,
+      description: "Set a Persona → Set the Format → Convert to SQL question",
+    });
+  });
+
+  it("should drop nested recipes and recipes without steps", () => {
+    const parsed = parseRecipes([
+      { ...RECIPE, steps: ["optimize", "recipe-other"] },
+      { ...RECIPE, id: "recipe-empty", steps: ["recipe-full"] },
+      { ...RECIPE, id: "custom-not-a-recipe" },
+      { ...RECIPE, id: "recipe-blank", label: " " },
+    ]);
+
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0]?.steps).toEqual(["optimize"]);
+  });
+
+  it("should load custom actions before recipes", async () => {
+    vi.spyOn(storage, "get").mockImplementation((key) =>
+      Promise.resolve(
+        key === STORAGE_KEYS.CUSTOM_ACTIONS
+          ? { [key]: [SQL_ACTION] }
+          : { [STORAGE_KEYS.RECIPES]: [RECIPE] },
+      ),
+    );
+
+    await loadUserActions();
+
+    expect(getActionById("recipe-full")?.description).toContain(
+      "Convert to SQL question",
+    );
+  });
+});
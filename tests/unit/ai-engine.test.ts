@@ -7,8 +7,12 @@ import {
   optimizeWithWriter,
   optimizeWithRewriter,
   optimizeWithDecomposition,
+  optimizeWithMapReduce,
+  optimizeVariants,
   clearSessionCache,
+  warmup,
 } from "~lib/ai-engine";
+import { MAX_VARIANTS } from "~lib/constants";
 import { PromptTunerError } from "~types";
 
 import { createMockLanguageModel, resetLanguageModelMock } from "../setup";
@@ -107,6 +111,24 @@ describe("ai-engine", () => {
       );
     });
 
+    it("should place the draft at the instruction's {{prompt}} marker", async () => {
+      const result = await optimizePrompt("cost $& totals", [], {
+        instruction: "Turn {{prompt}} into a SQL question.",
+      });
+
+      expect(result).toContain("Turn cost $& totals into a SQL question.");
+    });
+
+    it("should append the draft when the instruction has no marker", async () => {
+      const result = await optimizePrompt("list users", [], {
+        instruction: "Make it a code review request.",
+      });
+
+      expect(result).toContain(
+        "Make it a code review request.\n\nPrompt:\nlist users",
+      );
+    });
+
     it("should use default rules when empty array provided", async () => {
       const result = await optimizePrompt("test prompt", []);
 
@@ -165,6 +187,102 @@ describe("ai-engine", () => {
     });
   });
 
+  describe("session pool", () => {
+    interface StubSession {
+      prompt: ReturnType<typeof vi.fn>;
+      destroy: ReturnType<typeof vi.fn>;
+      /** The session this one was cloned from */
+      parent?: StubSession;
+    }
+
+    /**
+     * Stubs LanguageModel with sessions whose clones are fresh sessions.
+     * Returns the sessions that served prompts, in request order; each one's
+     * `parent` is the pooled template it was cloned from.
+     */
+    function stubClonableModel(overflow = false): StubSession[] {
+      const prompted: StubSession[] = [];
+      const makeSession = (parent?: StubSession): StubSession => {
+        const session = {
+          parent,
+          prompt: vi.fn(() => {
+            prompted.push(session);
+            if (overflow) session.onquotaoverflow?.(new Event("quotaoverflow"));
+            return Promise.resolve("Optimized");
+          }),
+          promptStreaming: vi.fn(),
+          append: vi.fn(() => Promise.resolve()),
+          clone: vi.fn(() => Promise.resolve(makeSession(session))),
+          destroy: vi.fn(),
+          measureInputUsage: vi.fn(() => Promise.resolve(10)),
+          inputQuota: 4096,
+          inputUsage: 4000,
+          onquotaoverflow: null as ((event: Event) => void) | null,
+        };
+        return session;
+      };
+      vi.stubGlobal("LanguageModel", {
+        availability: vi.fn().mockResolvedValue("available"),
+        create: vi.fn(() => Promise.resolve(makeSession())),
+      });
+      return prompted;
+    }
+
+    it("runs every request on its own clone and destroys it", async () => {
+      const prompted = stubClonableModel();
+
+      await optimizePrompt("first draft", ["rule"]);
+      await optimizePrompt("second draft", ["rule"]);
+
+      const [first, second] = prompted;
+      expect(prompted).toHaveLength(2);
+      expect(first).not.toBe(second);
+      expect(first?.parent).toBe(second?.parent);
+      expect(first?.destroy).toHaveBeenCalledOnce();
+      expect(second?.destroy).toHaveBeenCalledOnce();
+      expect(first?.parent?.prompt).not.toHaveBeenCalled();
+      expect(first?.parent?.destroy).not.toHaveBeenCalled();
+    });
+
+    it("reports a quotaoverflow as INPUT_TOO_LONG", async () => {
+      const prompted = stubClonableModel(true);
+
+      await expect(optimizePrompt("draft", ["rule"])).rejects.toMatchObject({
+        code: "INPUT_TOO_LONG",
+      });
+      expect(prompted[0]?.destroy).toHaveBeenCalledOnce();
+    });
+
+    it("evicts the least recently used template past the token budget", async () => {
+      // Each template holds 4000 tokens, so six fit the budget.
+      const prompted = stubClonableModel();
+      for (let i = 0; i < 6; i++) {
+        await optimizePrompt("draft", [`rule ${String(i)}`]);
+      }
+      await optimizePrompt("draft", ["rule 0"]);
+      await optimizePrompt("draft", ["rule 6"]);
+
+      const [rule0, rule1, rule2] = prompted.map((s) => s.parent);
+      expect(prompted[6]?.parent).toBe(rule0);
+      expect(rule0?.destroy).not.toHaveBeenCalled();
+      expect(rule1?.destroy).toHaveBeenCalledOnce();
+      expect(rule2?.destroy).not.toHaveBeenCalled();
+    });
+
+    it("warms the template the next request clones", async () => {
+      const prompted = stubClonableModel();
+      const create = vi.spyOn(LanguageModel, "create");
+
+      await warmup(["rule"]);
+      const created = create.mock.calls.length;
+      await optimizePrompt("draft", ["rule"]);
+
+      expect(created).toBeGreaterThan(0);
+      expect(create).toHaveBeenCalledTimes(created);
+      expect(prompted[0]?.parent?.prompt).not.toHaveBeenCalled();
+    });
+  });
+
   describe("optimizeWithRefineChain", () => {
     it("runs two turns: non-streaming critique, then streaming polish", async () => {
       const critiqueResult = "1. Be clearer\n2. Add structure";
@@ -219,6 +337,77 @@ describe("ai-engine", () => {
       expect(result).toContain("Polished");
     });
 
+    it("streams exactly the text it returns, without framing", async () => {
+      const polishChunks = [
+        "Sure! Here's the impr",
+        "oved prompt:\n\n<result>\nWrite a haiku about ",
+        "autumn leaves.\n</res",
+        "ult>\nLet me know if you need more.",
+      ];
+      const session = {
+        prompt: vi.fn().mockResolvedValue("1. Be concrete"),
+        promptStreaming: vi.fn(() => {
+          let i = 0;
+          return new ReadableStream<string>({
+            pull(controller) {
+              const chunk = polishChunks[i++];
+              if (chunk === undefined) controller.close();
+              else controller.enqueue(chunk);
+            },
+          });
+        }),
+        append: vi.fn().mockResolvedValue(undefined),
+        clone: vi.fn(),
+        destroy: vi.fn(),
+        measureInputUsage: vi.fn().mockResolvedValue(50),
+        inputQuota: 4096,
+      };
+      session.clone.mockResolvedValue(session);
+      vi.stubGlobal("LanguageModel", {
+        availability: vi.fn().mockResolvedValue("available"),
+        create: vi.fn().mockResolvedValue(session),
+      });
+
+      const chunks: string[] = [];
+      const result = await optimizeWithRefineChain("haiku", [], (c) =>
+        chunks.push(c),
+      );
+
+      expect(result).toBe("Write a haiku about autumn leaves.");
+      expect(chunks.join("")).toBe(result);
+    });
+
+    it("fails rather than finish on text it never streamed", async () => {
+      const session = {
+        prompt: vi.fn().mockResolvedValue("1. Be concrete"),
+        promptStreaming: vi.fn(
+          () =>
+            new ReadableStream<string>({
+              start(controller) {
+                controller.enqueue("Sure! Here's the improved prompt:\n\n");
+                controller.close();
+              },
+            }),
+        ),
+        append: vi.fn().mockResolvedValue(undefined),
+        clone: vi.fn(),
+        destroy: vi.fn(),
+        measureInputUsage: vi.fn().mockResolvedValue(50),
+        inputQuota: 4096,
+      };
+      session.clone.mockResolvedValue(session);
+      vi.stubGlobal("LanguageModel", {
+        availability: vi.fn().mockResolvedValue("available"),
+        create: vi.fn().mockResolvedValue(session),
+      });
+
+      const chunks: string[] = [];
+      await expect(
+        optimizeWithRefineChain("haiku", [], (c) => chunks.push(c)),
+      ).rejects.toMatchObject({ code: "AI_GENERATION_FAILED" });
+      expect(chunks.join("")).toBe("");
+    });
+
     it("reports stage labels via onStage callback", async () => {
       const stages: string[] = [];
       await optimizeWithRefineChain(
@@ -232,6 +421,101 @@ describe("ai-engine", () => {
       expect(stages).toContain("critiquing");
       expect(stages).toContain("polishing");
     });
+
+    it("runs with the overridden templates", async () => {
+      const session = {
+        prompt: vi.fn().mockResolvedValue("Be concrete"),
+        promptStreaming: vi.fn(
+          () =>
+            new ReadableStream<string>({
+              start(controller) {
+                controller.enqueue("Improved");
+                controller.close();
+              },
+            }),
+        ),
+        append: vi.fn().mockResolvedValue(undefined),
+        clone: vi.fn(),
+        destroy: vi.fn(),
+        measureInputUsage: vi.fn().mockResolvedValue(50),
+        inputQuota: 4096,
+      };
+      session.clone.mockResolvedValue(session);
+      const create = vi.fn().mockResolvedValue(session);
+      vi.stubGlobal("LanguageModel", {
+        availability: vi.fn().mockResolvedValue("available"),
+        create,
+      });
+
+      await optimizeWithRefineChain("my draft", [], () => undefined, {
+        templates: {
+          system: "You edit prompts.",
+          critique: "Critique: {{prompt}}",
+          polish: "Fix it using: {{critique}}",
+        },
+      });
+
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          // The rules may be folded in after it (append() unsupported).
+          initialPrompts: [
+            {
+              role: "system",
+              content: expect.stringMatching(/^You edit prompts\./) as string,
+            },
+          ],
+        }),
+      );
+      expect(session.prompt).toHaveBeenCalledWith(
+        "Critique: my draft",
+        expect.anything(),
+      );
+      expect(session.promptStreaming).toHaveBeenCalledWith(
+        "Fix it using: Be concrete",
+        expect.anything(),
+      );
+    });
+  });
+
+  describe("optimizeVariants", () => {
+    it("streams each candidate under its own index", async () => {
+      const chunks: [number, string][] = [];
+      const completed: number[] = [];
+
+      const candidates = await optimizeVariants("draft", ["rule"], 3, {
+        onChunk: (index, chunk) => chunks.push([index, chunk]),
+        onComplete: (index) => completed.push(index),
+      });
+
+      expect(candidates).toEqual([
+        "Optimized: draft",
+        "Optimized: draft",
+        "Optimized: draft",
+      ]);
+      expect(completed).toEqual([0, 1, 2]);
+      expect(new Set(chunks.map(([index]) => index))).toEqual(
+        new Set([0, 1, 2]),
+      );
+    });
+
+    it("uses a fresh session per candidate at rising temperatures", async () => {
+      const mock = createMockLanguageModel();
+      vi.stubGlobal("LanguageModel", mock);
+
+      await optimizeVariants("draft", [], 9, { onChunk: vi.fn() });
+
+      expect(mock.create).toHaveBeenCalledTimes(MAX_VARIANTS);
+      const temperatures = (
+        mock.create.mock.calls as unknown as [{ temperature: number }][]
+      ).map(([options]) => options.temperature);
+      expect(temperatures).toEqual([...temperatures].sort());
+      expect(new Set(temperatures).size).toBe(MAX_VARIANTS);
+
+      for (const result of mock.create.mock.results) {
+        const session = (await result.value) as { destroy: () => void };
+        expect(session.destroy).toHaveBeenCalledOnce();
+      }
+    });
   });
 
   describe("optimizeWithWriter", () => {
@@ -250,10 +534,19 @@ describe("ai-engine", () => {
       globalThis.Writer = undefined;
       try {
         const chunks: string[] = [];
-        const result = await optimizeWithWriter("draft", [], (c) =>
-          chunks.push(c),
+        const onFallback = vi.fn();
+        const result = await optimizeWithWriter(
+          "draft",
+          [],
+          (c) => chunks.push(c),
+          { onFallback },
         );
         expect(result).toContain("Optimized");
+        expect(onFallback).toHaveBeenCalledWith({
+          from: "writer",
+          to: "single",
+          reason: "Writer API unavailable",
+        });
       } finally {
         (globalThis as unknown as { Writer?: unknown }).Writer = originalWriter;
       }
@@ -270,6 +563,101 @@ describe("ai-engine", () => {
     });
   });
 
+  describe("optimizeWithMapReduce", () => {
+    const LATENCY_MS = 40;
+    const SECTIONS = 8;
+
+    interface FakeSession {
+      prompt: ReturnType<typeof vi.fn>;
+      destroy: ReturnType<typeof vi.fn>;
+    }
+
+    /**
+     * A fake LanguageModel whose prompts take LATENCY_MS and, like the
+     * Prompt API, run one at a time per session. Tracks the sessions that
+     * were prompted and the most prompts in flight at once.
+     */
+    function stubSlowModel(): {
+      prompted: Set<FakeSession>;
+      peak: () => number;
+    } {
+      const prompted = new Set<FakeSession>();
+      let inFlight = 0;
+      let peak = 0;
+      const makeSession = (): FakeSession => {
+        let queue = Promise.resolve();
+        const session = {
+          prompt: vi.fn((input: string) => {
+            prompted.add(session);
+            const turn = queue.then(async () => {
+              inFlight++;
+              peak = Math.max(peak, inFlight);
+              await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+              inFlight--;
+              return `Improved: ${input.length.toString()}`;
+            });
+            queue = turn.then(() => undefined);
+            return turn;
+          }),
+          promptStreaming: vi.fn(
+            () =>
+              new ReadableStream<string>({
+                start(controller) {
+                  controller.enqueue("Stitched prompt");
+                  controller.close();
+                },
+              }),
+          ),
+          append: vi.fn(() => Promise.resolve()),
+          clone: vi.fn(() => Promise.resolve(makeSession())),
+          destroy: vi.fn(),
+          measureInputUsage: vi.fn((input: string) =>
+            Promise.resolve(Math.ceil(input.length / 4)),
+          ),
+          inputQuota: 2000,
+          inputUsage: 200,
+          onquotaoverflow: null,
+        };
+        return session;
+      };
+      vi.stubGlobal("LanguageModel", {
+        availability: vi.fn().mockResolvedValue("available"),
+        create: vi.fn(() => Promise.resolve(makeSession())),
+      });
+      return { prompted, peak: () => peak };
+    }
+
+    // Sections of ~500 tokens each; the 700-token chunk cap keeps them apart.
+    const longDraft = Array.from(
+      { length: SECTIONS },
+      (_, i) =>
+        `Section ${String(i)}. ${"Explain the requirement in detail. ".repeat(55)}`,
+    ).join("\n\n");
+
+    it("maps sections in parallel on one clone per worker", async () => {
+      const model = stubSlowModel();
+
+      const startedAt = performance.now();
+      const result = await optimizeWithMapReduce(longDraft, ["rule"], () => {
+        /* streamed reduce output is not under test */
+      });
+      const elapsed = performance.now() - startedAt;
+
+      expect(result).toBe("Stitched prompt");
+      // Sequential mapping would take SECTIONS × LATENCY_MS; four workers
+      // take two rounds.
+      expect(model.peak()).toBe(4);
+      expect(elapsed).toBeLessThan((SECTIONS * LATENCY_MS) / 2);
+      const workers = [...model.prompted].filter(
+        (s) => s.prompt.mock.calls.length === SECTIONS / 4,
+      );
+      expect(workers).toHaveLength(4);
+      for (const worker of workers) {
+        expect(worker.destroy).toHaveBeenCalledOnce();
+      }
+    });
+  });
+
   describe("optimizeWithDecomposition", () => {
     it("produces a composed tree output and streams lines", async () => {
       const session = {
@@ -299,7 +687,7 @@ describe("ai-engine", () => {
       expect(result).toContain("Phase A");
       expect(result).toContain("Phase B");
       expect(result).toContain("Step 1");
-      expect(chunks.length).toBeGreaterThan(0);
+      expect(chunks.join("")).toBe(result);
     });
   });
 });
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+
+import { chunkByStructure } from "~lib/chunker";
+
+// Synthetic tokenizer: 1 token per character - deterministic for testing.
+const charTokenizer = (s: string): number => s.length;
+
+const filler = (label: string, n: number): string =>
+  Array.from({ length: n }, (_, i) => `${label} sentence ${String(i)}.`).join(
+    " ",
+  );
+
+describe("chunker.chunkByStructure", () => {
+  it("returns empty array for empty input", async () => {
+    expect(await chunkByStructure("  \n\n ", 100, charTokenizer)).toEqual([]);
+  });
+
+  it("returns input unchanged when it fits", async () => {
+    const input = "# Title\n\nSome text.\n\n- one\n- two";
+    expect(await chunkByStructure(input, 1000, charTokenizer)).toEqual([input]);
+  });
+
+  it("keeps a fenced code block with blank lines in one chunk", async () => {
+    const code = "```ts\nconst a = 1;\n\nconst b = 2;\n\nexport { a, b };\n```";
+    const input = `${filler("Intro", 3)}\n\n${code}\n\n${filler("Outro", 3)}`;
+
+    const chunks = await chunkByStructure(input, 70, charTokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks).toContain(code);
+  });
+
+  it("splits an oversized code block by lines inside repeated fences", async () => {
+    const body = Array.from(
+      { length: 12 },
+      (_, i) => `line_${String(i)}();`,
+    ).join("\n");
+    const input = `\`\`\`js\n${body}\n\`\`\``;
+
+    const chunks = await chunkByStructure(input, 60, charTokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(60);
+      expect(chunk.startsWith("```js\n")).toBe(true);
+      expect(chunk.endsWith("\n```")).toBe(true);
+    }
+    const lines = chunks.flatMap((c) => c.split("\n").slice(1, -1));
+    expect(lines.join("\n")).toBe(body);
+  });
+
+  it("splits an oversized table by rows under a repeated header", async () => {
+    const header = "| Name | Role |\n| --- | --- |";
+    const rows = Array.from(
+      { length: 8 },
+      (_, i) => `| user${String(i)} | admin |`,
+    );
+    const input = `${header}\n${rows.join("\n")}`;
+
+    const chunks = await chunkByStructure(input, 90, charTokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith(`${header}\n`)).toBe(true);
+      expect(chunk.length).toBeLessThanOrEqual(90);
+    }
+    expect(chunks.flatMap((c) => c.split("\n").slice(2))).toEqual(rows);
+  });
+
+  it("splits lists between items, never inside one", async () => {
+    const items = Array.from(
+      { length: 6 },
+      (_, i) => `- Item ${String(i)} does a thing\n  with a second line`,
+    );
+    const input = items.join("\n");
+
+    const chunks = await chunkByStructure(input, 100, charTokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flatMap((c) => c.split(/\n(?=- )/))).toEqual(items);
+  });
+
+  it("keeps a tagged section whole when it fits", async () => {
+    const tagged = "<context>\nFirst fact.\n\nSecond fact.\n</context>";
+    const input = `${filler("Lead", 3)}\n\n${tagged}\n\n${filler("Tail", 3)}`;
+
+    const chunks = await chunkByStructure(input, 60, charTokenizer);
+
+    expect(chunks).toContain(tagged);
+  });
+
+  it("re-wraps the pieces of an oversized tagged section", async () => {
+    const inner = [filler("A", 3), filler("B", 3), filler("C", 3)];
+    const input = `<examples>\n${inner.join("\n\n")}\n</examples>`;
+
+    const chunks = await chunkByStructure(input, 80, charTokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("<examples>\n")).toBe(true);
+      expect(chunk.endsWith("\n</examples>")).toBe(true);
+    }
+  });
+
+  it("opens each chunk with the headings it falls under", async () => {
+    const input = [
+      "# Guide",
+      "## Setup",
+      filler("Install", 3),
+      filler("Configure", 3),
+      "## Usage",
+      filler("Run", 3),
+    ].join("\n\n");
+
+    const chunks = await chunkByStructure(input, 110, charTokenizer);
+
+    expect(chunks).toEqual([
+      `# Guide\n\n## Setup\n\n${filler("Install", 3)}`,
+      `# Guide\n\n## Setup\n\n${filler("Configure", 3)}`,
+      `# Guide\n\n## Usage\n\n${filler("Run", 3)}`,
+    ]);
+  });
+
+  it("keeps headings that have no content of their own", async () => {
+    const input = ["# Empty", "# Filled", filler("Body", 4), "# Trailing"].join(
+      "\n\n",
+    );
+
+    const chunks = await chunkByStructure(input, 80, charTokenizer);
+    const joined = chunks.join("\n\n");
+
+    expect(joined).toContain("# Empty");
+    expect(joined).toContain("# Trailing");
+  });
+
+  it("falls back to sentence splitting for oversized prose", async () => {
+    const input = `# Notes\n\n${filler("Prose", 10)}`;
+
+    const chunks = await chunkByStructure(input, 80, charTokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("# Notes\n\n")).toBe(true);
+      expect(chunk.length).toBeLessThanOrEqual(80);
+    }
+  });
+});
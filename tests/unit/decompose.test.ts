@@ -5,6 +5,7 @@ import {
   mapReduce,
   refineChain,
   recursiveDecompose,
+  tuneConcurrency,
 } from "~lib/decompose";
 
 // Synthetic tokenizer: 1 token per character - deterministic for testing.
@@ -105,6 +106,94 @@ describe("decompose.mapReduce", () => {
     expect(map).toHaveBeenCalledTimes(1);
     expect(reduce).not.toHaveBeenCalled();
   });
+
+  it("never gives one worker two calls at once", async () => {
+    const busy = new Set<number>();
+    const seen = new Set<number>();
+    const overlapped = vi.fn();
+    await mapReduce({
+      chunks: ["a", "b", "c", "d", "e"],
+      concurrency: 2,
+      map: async (c, _i, worker) => {
+        if (busy.has(worker)) overlapped();
+        busy.add(worker);
+        seen.add(worker);
+        await Promise.resolve();
+        busy.delete(worker);
+        return c;
+      },
+      reduce: (a) => Promise.resolve(a.join("")),
+    });
+    expect(overlapped).not.toHaveBeenCalled();
+    expect([...seen].sort()).toEqual([0, 1]);
+  });
+
+  it("reports progress before the first map and after each one", async () => {
+    const onProgress = vi.fn();
+    await mapReduce({
+      chunks: ["a", "b", "c"],
+      map: (c) => Promise.resolve(c),
+      reduce: (a) => Promise.resolve(a.join("")),
+      onProgress,
+    });
+    expect(onProgress.mock.calls).toEqual([
+      [0, 3],
+      [1, 3],
+      [2, 3],
+      [3, 3],
+    ]);
+  });
+});
+
+describe("decompose.tuneConcurrency", () => {
+  it("adds workers while they fit the budget, up to the cap", () => {
+    expect(
+      tuneConcurrency({
+        items: 8,
+        perWorker: 1000,
+        budget: 2500,
+        maxWorkers: 4,
+      }),
+    ).toBe(2);
+    expect(
+      tuneConcurrency({
+        items: 8,
+        perWorker: 100,
+        budget: 2500,
+        maxWorkers: 4,
+      }),
+    ).toBe(4);
+  });
+
+  it("drops workers that would not save a round", () => {
+    expect(
+      tuneConcurrency({
+        items: 5,
+        perWorker: 100,
+        budget: 2500,
+        maxWorkers: 4,
+      }),
+    ).toBe(3);
+    expect(
+      tuneConcurrency({
+        items: 2,
+        perWorker: 100,
+        budget: 2500,
+        maxWorkers: 4,
+      }),
+    ).toBe(2);
+  });
+
+  it("keeps one worker when even one exceeds the budget", () => {
+    expect(
+      tuneConcurrency({
+        items: 8,
+        perWorker: 5000,
+        budget: 2500,
+        maxWorkers: 4,
+      }),
+    ).toBe(1);
+  });
 });
 
 describe("decompose.refineChain", () => {
@@ -163,4 +252,20 @@ describe("decompose.recursiveDecompose", () => {
     });
     expect(expand).toHaveBeenCalledTimes(1);
   });
+  it("reports progress once the top level is known and per phase", async () => {
+    const onProgress = vi.fn();
+    await recursiveDecompose<string>({
+      rootPrompt: "r",
+      depth: 2,
+      expand: (_parent, depth) =>
+        Promise.resolve(depth === 1 ? ["A", "B"] : ["x"]),
+      compose: () => "",
+      onProgress,
+    });
+    expect(onProgress.mock.calls).toEqual([
+      [0, 2],
+      [1, 2],
+      [2, 2],
+    ]);
+  });
 });
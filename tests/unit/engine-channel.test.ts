@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import {
+  checkBackendAvailability,
+  optimizePromptStreaming,
+} from "~/background/engine-client";
+import { registerEngineHost } from "~lib/engine-host";
+import { PromptTunerError } from "~types";
+
+import { resetLanguageModelMock } from "../setup";
+
+type Listener = (message: unknown) => void;
+
+interface FakePort {
+  name: string;
+  peer?: FakePort;
+  messageListeners: Listener[];
+  disconnectListeners: (() => void)[];
+  postMessage: (message: unknown) => void;
+  disconnect: () => void;
+  onMessage: { addListener: (listener: Listener) => void };
+  onDisconnect: { addListener: (listener: () => void) => void };
+}
+
+function makePort(name: string): FakePort {
+  const port: FakePort = {
+    name,
+    messageListeners: [],
+    disconnectListeners: [],
+    postMessage(message) {
+      const peer = port.peer;
+      if (!peer) throw new Error("Port is disconnected");
+      queueMicrotask(() => {
+        for (const listener of peer.messageListeners) listener(message);
+      });
+    },
+    disconnect() {
+      const peer = port.peer;
+      port.peer = undefined;
+      if (!peer) return;
+      peer.peer = undefined;
+      for (const listener of peer.disconnectListeners) listener();
+    },
+    onMessage: {
+      addListener: (listener) => port.messageListeners.push(listener),
+    },
+    onDisconnect: {
+      addListener: (listener) => port.disconnectListeners.push(listener),
+    },
+  };
+  return port;
+}
+
+/**
+ * Stubs the `chrome` APIs both ends use: `runtime.connect` in the "worker"
+ * goes straight to the `onConnect` listeners the "offscreen document"
+ * registered.
+ */
+function linkWorkerToHost() {
+  const connectListeners: ((port: FakePort) => void)[] = [];
+  const hostPorts: FakePort[] = [];
+  const offscreen = {
+    Reason: { WORKERS: "WORKERS" },
+    hasDocument: vi.fn(() =>
+      Promise.resolve(offscreen.createDocument.mock.calls.length > 0),
+    ),
+    createDocument: vi.fn(() => Promise.resolve()),
+    closeDocument: vi.fn(() => Promise.resolve()),
+  };
+
+  vi.stubGlobal("chrome", {
+    offscreen,
+    runtime: {
+      onConnect: {
+        addListener: (listener: (port: FakePort) => void) =>
+          connectListeners.push(listener),
+      },
+      connect: ({ name }: { name: string }) => {
+        const worker = makePort(name);
+        const host = makePort(name);
+        worker.peer = host;
+        host.peer = worker;
+        hostPorts.push(host);
+        for (const listener of connectListeners) listener(host);
+        return worker;
+      },
+    },
+  });
+
+  registerEngineHost();
+  return { offscreen, hostPorts };
+}
+
+describe("offscreen engine channel", () => {
+  let link: ReturnType<typeof linkWorkerToHost>;
+
+  beforeEach(() => {
+    resetLanguageModelMock();
+    link = linkWorkerToHost();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("streams chunks back and resolves with the pipeline's result", async () => {
+    const chunks: string[] = [];
+
+    const result = await optimizePromptStreaming("draft", ["rule"], (c) =>
+      chunks.push(c),
+    );
+
+    expect(result).toContain("draft");
+    expect(chunks.join("")).toBe(result);
+    expect(link.offscreen.createDocument).toHaveBeenCalledOnce();
+    expect(link.offscreen.createDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "tabs/offscreen.html" }),
+    );
+  });
+
+  it("creates the offscreen document once and reuses it", async () => {
+    await checkBackendAvailability();
+    await checkBackendAvailability();
+
+    expect(link.offscreen.createDocument).toHaveBeenCalledOnce();
+    expect(link.hostPorts).toHaveLength(2);
+  });
+
+  it("rethrows engine failures as PromptTunerError with their code", async () => {
+    vi.spyOn(LanguageModel, "availability").mockResolvedValue("unavailable");
+
+    const error: unknown = await optimizePromptStreaming(
+      "draft",
+      ["rule"],
+      () => undefined,
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PromptTunerError);
+    expect((error as PromptTunerError).code).toBe("AI_UNAVAILABLE");
+  });
+
+  it("rejects with AbortError and disconnects when the caller aborts", async () => {
+    const controller = new AbortController();
+
+    const pending = optimizePromptStreaming(
+      "draft",
+      ["rule"],
+      () => {
+        controller.abort();
+      },
+      { signal: controller.signal },
+    );
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(link.hostPorts[0]?.peer).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  HISTORY_MAX_ENTRIES,
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  getHistory,
+  searchHistory,
+  setHistoryLimit,
+} from "~lib/history";
+import { storage } from "~lib/storage";
+import { type HistoryEntry } from "~types";
+
+function run(original: string, result = `better ${original}`) {
+  return {
+    original,
+    result,
+    actionId: "optimize",
+    actionLabel: "Improve Prompt",
+    platform: "openai" as const,
+    rulesVersion: "v1",
+  };
+}
+
+describe("history", () => {
+  let store: Record<string, unknown>;
+
+  beforeEach(() => {
+    store = {};
+    vi.spyOn(storage, "get").mockImplementation((keys) => {
+      const list = Array.isArray(keys) ? keys : [keys];
+      return Promise.resolve(
+        Object.fromEntries(list.map((k) => [k, store[k]])),
+      );
+    });
+    vi.spyOn(storage, "set").mockImplementation((items) => {
+      Object.assign(store, items);
+      return Promise.resolve();
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should record runs newest first", async () => {
+    await addHistoryEntry(run("first"));
+    await addHistoryEntry(run("second"));
+
+    const entries = await getHistory();
+    expect(entries.map((e) => e.original)).toEqual(["second", "first"]);
+    expect(entries[0]).toMatchObject({
+      result: "better second",
+      platform: "openai",
+      rulesVersion: "v1",
+    });
+  });
+
+  it("should refresh rather than duplicate an identical run", async () => {
+    await addHistoryEntry(run("same"));
+    await addHistoryEntry(run("other"));
+    await addHistoryEntry(run("same"));
+
+    const entries = await getHistory();
+    expect(entries.map((e) => e.original)).toEqual(["same", "other"]);
+  });
+
+  it("should trim to the retention limit", async () => {
+    for (const draft of ["a", "b", "c"]) await addHistoryEntry(run(draft));
+
+    await setHistoryLimit(2);
+    expect((await getHistory()).map((e) => e.original)).toEqual(["c", "b"]);
+
+    await addHistoryEntry(run("d"));
+    expect((await getHistory()).map((e) => e.original)).toEqual(["d", "c"]);
+  });
+
+  it("should cap at the default ceiling when no limit is set", async () => {
+    store.history = Array.from({ length: HISTORY_MAX_ENTRIES }, (_, i) => ({
+      ...run(String(i)),
+      id: String(i),
+      ts: i,
+    }));
+
+    await addHistoryEntry(run("new"));
+
+    const entries = await getHistory();
+    expect(entries).toHaveLength(HISTORY_MAX_ENTRIES);
+    expect(entries[0]?.original).toBe("new");
+  });
+
+  it("should delete single entries and clear everything", async () => {
+    const kept = await addHistoryEntry(run("keep"));
+    const dropped = await addHistoryEntry(run("drop"));
+
+    await deleteHistoryEntry(dropped.id);
+    expect(await getHistory()).toEqual([kept]);
+
+    await clearHistory();
+    expect(await getHistory()).toEqual([]);
+  });
+
+  it("should match every search term across original, result and label", () => {
+    const entries: HistoryEntry[] = [
+      { ...run("summarize the SQL report"), id: "1", ts: 1 },
+      { ...run("write a poem", "a sonnet"), id: "2", ts: 2 },
+    ];
+
+    expect(searchHistory(entries, "sql REPORT")).toHaveLength(1);
+    expect(searchHistory(entries, "sonnet")[0]?.id).toBe("2");
+    expect(searchHistory(entries, "improve")).toHaveLength(2);
+    expect(searchHistory(entries, "sql sonnet")).toHaveLength(0);
+    expect(searchHistory(entries, "  ")).toEqual(entries);
+  });
+});
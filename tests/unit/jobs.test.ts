@@ -0,0 +1,165 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  attachPort,
+  createJob,
+  detachPort,
+  jobForTab,
+  joinJob,
+  leaveJob,
+  postToJob,
+  runJob,
+} from "~/background/jobs";
+import {
+  type OptimizePortMessage,
+  type OptimizePortRequest,
+  type RunReport,
+} from "~types";
+
+const report: RunReport = {
+  engine: "nano",
+  patterns: ["single"],
+  fallbacks: [],
+  timings: [],
+  totalMs: 0,
+  cached: false,
+};
+
+vi.mock("~/background/index", () => ({ setKeepAlive: vi.fn() }));
+vi.mock("~/background/messages/warmup", () => ({
+  holdSessions: vi.fn(),
+  releaseSessions: vi.fn(),
+}));
+
+const request: OptimizePortRequest = {
+  type: "START_OPTIMIZATION",
+  draft: "draft",
+  platform: "openai",
+  action: "optimize",
+};
+
+function fakePort(tabId?: number) {
+  const received: OptimizePortMessage[] = [];
+  const port = {
+    sender: { tab: { id: tabId } },
+    postMessage: vi.fn((message: OptimizePortMessage) => {
+      received.push(message);
+    }),
+  } as unknown as chrome.runtime.Port;
+  return { port, received };
+}
+
+describe("background jobs", () => {
+  let tabId = 0;
+  beforeEach(() => {
+    tabId++;
+    vi.clearAllMocks();
+  });
+
+  it("keeps running without a port and replays its output on attach", () => {
+    const first = fakePort(tabId);
+    const job = createJob(request, tabId);
+    attachPort(job, first.port);
+    postToJob(job, { type: "CHUNK", data: "Hel" });
+    detachPort(job, first.port);
+    postToJob(job, { type: "CHUNK", data: "lo" });
+
+    expect(jobForTab(tabId)).toMatchObject({ id: job.id, state: "running" });
+
+    const second = fakePort(tabId);
+    attachPort(job, second.port);
+    postToJob(job, { type: "CHUNK", data: "!" });
+
+    expect(first.received).toEqual([{ type: "CHUNK", data: "Hel" }]);
+    expect(second.received).toEqual([
+      { type: "CHUNK", data: "Hello" },
+      { type: "CHUNK", data: "!" },
+    ]);
+  });
+
+  it("badges a job that finishes unattached until an overlay picks it up", () => {
+    const job = createJob(request, tabId);
+    postToJob(job, {
+      type: "COMPLETE",
+      optimizedPrompt: "Better draft",
+      appliedRules: [],
+      rules: [],
+      report,
+    });
+
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({
+      tabId,
+      text: "✓",
+    });
+    expect(jobForTab(tabId)).toMatchObject({ state: "complete" });
+
+    const { port, received } = fakePort(tabId);
+    attachPort(job, port);
+
+    expect(received.at(-1)).toMatchObject({ type: "COMPLETE" });
+    expect(chrome.action.setBadgeText).toHaveBeenLastCalledWith({
+      tabId,
+      text: "",
+    });
+    expect(jobForTab(tabId)).toBeNull();
+  });
+
+  it("cancels a tab's running job when the tab starts another", () => {
+    const first = createJob(request, tabId);
+
+    const second = createJob(request, tabId);
+
+    expect(first.controller.signal.aborted).toBe(true);
+    expect(first.state).toBe("cancelled");
+    expect(jobForTab(tabId)).toMatchObject({ id: second.id });
+  });
+
+  it("marks work that ends without a result as cancelled", async () => {
+    const job = createJob(request, tabId);
+
+    await runJob(job, () => Promise.resolve());
+
+    expect(job.state).toBe("cancelled");
+    expect(jobForTab(tabId)).toBeNull();
+  });
+
+  it("shares a running job with an identical request from another tab", () => {
+    const shared = { ...request, draft: "shared draft" };
+    const otherTab = tabId + 1000;
+    const job = createJob(shared, tabId);
+    postToJob(job, { type: "CHUNK", data: "So far" });
+
+    const joined = joinJob(shared, otherTab);
+    const { port, received } = fakePort(otherTab);
+    if (joined) attachPort(joined, port);
+
+    expect(joined).toBe(job);
+    expect(joinJob({ ...shared, action: "shorten" }, otherTab)).toBeUndefined();
+    expect(received).toEqual([{ type: "CHUNK", data: "So far" }]);
+    expect(jobForTab(otherTab)).toMatchObject({ id: job.id });
+  });
+
+  it("starts a fresh request on its own job instead of joining", () => {
+    const shared = { ...request, draft: "regenerated draft" };
+    const otherTab = tabId + 1000;
+    const job = createJob(shared, tabId);
+
+    expect(joinJob({ ...shared, fresh: true }, otherTab)).toBeUndefined();
+    expect(job.tabIds.has(otherTab)).toBe(false);
+  });
+
+  it("keeps a shared job running until every tab has cancelled", () => {
+    const shared = { ...request, draft: "cancelled draft" };
+    const otherTab = tabId + 1000;
+    const job = createJob(shared, tabId);
+    joinJob(shared, otherTab);
+
+    leaveJob(job, fakePort(tabId).port);
+    expect(job.state).toBe("running");
+
+    leaveJob(job, fakePort(otherTab).port);
+    expect(job.state).toBe("cancelled");
+    expect(job.controller.signal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { optimizeWithRefineChain, selectBackend } from "~lib/ai-engine";
+import {
+  DEFAULT_BACKEND_SETTINGS,
+  DEFAULT_LOCAL_BACKEND,
+  parseBackendSettings,
+} from "~lib/model-backend";
+import { createLocalBackend } from "~lib/local-backend";
+
+interface SentBody {
+  messages: { role: string; content: string }[];
+  stream: boolean;
+  temperature: number;
+}
+
+/** An SSE body streaming `deltas` the way chat completion servers do */
+function sseResponse(deltas: string[]): Response {
+  const lines = deltas.map(
+    (content) =>
+      `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`,
+  );
+  return new Response([...lines, "data: [DONE]\n\n"].join(""));
+}
+
+function jsonResponse(content: string): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+}
+
+async function readAll(stream: ReadableStream<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  const reader = stream.getReader();
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return chunks;
+    chunks.push(value);
+  }
+}
+
+describe("local backend", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  const sentBodies = (): SentBody[] =>
+    fetchMock.mock.calls
+      .filter(([url]) => (url as string).endsWith("/chat/completions"))
+      .map(([, init]) => JSON.parse(init?.body as string) as SentBody);
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    selectBackend(DEFAULT_BACKEND_SETTINGS);
+  });
+
+  it("streams SSE deltas and carries finished turns into the next request", async () => {
+    fetchMock
+      .mockResolvedValueOnce(sseResponse(["Hello", ", world"]))
+      .mockResolvedValueOnce(jsonResponse("Second"));
+    const session = await createLocalBackend(DEFAULT_LOCAL_BACKEND).create({
+      systemPrompt: "Be brief.",
+      temperature: 0.3,
+      topK: 40,
+    });
+
+    expect(await readAll(session.promptStreaming("First"))).toEqual([
+      "Hello",
+      ", world",
+    ]);
+    expect(await session.prompt("Again")).toBe("Second");
+
+    const [first, second] = sentBodies();
+    expect(first?.stream).toBe(true);
+    expect(second?.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "First" },
+      { role: "assistant", content: "Hello, world" },
+      { role: "user", content: "Again" },
+    ]);
+  });
+
+  it("gives clones their own copy of the history", async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(jsonResponse("ok")));
+    const base = await createLocalBackend(DEFAULT_LOCAL_BACKEND).create({
+      systemPrompt: "System",
+      temperature: 0.3,
+      topK: 40,
+    });
+    await base.append([{ role: "user", content: "Rules" }]);
+    const clone = await base.clone();
+
+    await clone.prompt("Only in the clone");
+    await base.prompt("Only in the base");
+
+    const [fromClone, fromBase] = sentBodies();
+    expect(fromClone?.messages.map((m) => m.content)).toEqual([
+      "System",
+      "Rules",
+      "Only in the clone",
+    ]);
+    expect(fromBase?.messages.map((m) => m.content)).toEqual([
+      "System",
+      "Rules",
+      "Only in the base",
+    ]);
+  });
+
+  it("reports an unreachable server as unavailable", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+
+    const status = await createLocalBackend(
+      DEFAULT_LOCAL_BACKEND,
+    ).availability();
+
+    expect(status.available).toBe(false);
+    expect(status.reason).toContain(DEFAULT_LOCAL_BACKEND.baseUrl);
+  });
+
+  it("runs the refine chain unchanged on the local backend", async () => {
+    fetchMock.mockImplementation((url, init) => {
+      if ((url as string).endsWith("/models")) {
+        return Promise.resolve(new Response("{}"));
+      }
+      const body = JSON.parse(init?.body as string) as SentBody;
+      return Promise.resolve(
+        body.stream
+          ? sseResponse(["Polished ", "prompt"])
+          : jsonResponse("1. Add a format"),
+      );
+    });
+    selectBackend({ ...DEFAULT_BACKEND_SETTINGS, id: "local" });
+    const onChunk = vi.fn();
+
+    const result = await optimizeWithRefineChain("draft", ["rule"], onChunk);
+
+    expect(result).toBe("Polished prompt");
+    const [critique, polish] = sentBodies();
+    expect(critique?.stream).toBe(false);
+    // The polish turn sees the critique exchange, as on a Nano session.
+    expect(polish?.messages.map((m) => m.role)).toEqual([
+      "system",
+      "user",
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(polish?.messages[3]?.content).toBe("1. Add a format");
+  });
+
+  it("keeps only loopback server URLs from storage", () => {
+    expect(
+      parseBackendSettings({
+        id: "local",
+        local: { baseUrl: "https://example.com/v1", model: " llama3 " },
+      }).local,
+    ).toEqual({ ...DEFAULT_LOCAL_BACKEND, model: "llama3" });
+    expect(
+      parseBackendSettings({
+        id: "local",
+        local: { baseUrl: "http://127.0.0.1:8080/v1/" },
+      }).local.baseUrl,
+    ).toBe("http://127.0.0.1:8080/v1");
+    expect(parseBackendSettings(null)).toEqual(DEFAULT_BACKEND_SETTINGS);
+  });
+});
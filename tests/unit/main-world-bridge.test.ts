@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  applyTextInMainWorld,
+  installMainWorldBridge,
+  resolveTarget,
+} from "~lib/main-world-bridge";
+import { detectMainWorldBridge, getElementSelector } from "~lib/dom-injector";
+import { MESSAGE_SOURCES, MESSAGE_TYPES } from "~lib/constants";
+
+describe("main-world-bridge", () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  describe("resolveTarget", () => {
+    it("should resolve the selector produced by getElementSelector", () => {
+      const textarea = document.createElement("textarea");
+      textarea.id = "prompt:textarea";
+      container.appendChild(textarea);
+
+      const selector = getElementSelector(textarea);
+
+      expect(resolveTarget(selector)).toBe(textarea);
+    });
+
+    it("should fall back to the focused editable when no selector is given", () => {
+      const textarea = document.createElement("textarea");
+      container.appendChild(textarea);
+      textarea.focus();
+
+      expect(resolveTarget(undefined)).toBe(textarea);
+    });
+
+    it("should return null when nothing matches", () => {
+      expect(resolveTarget("#does-not-exist")).toBe(null);
+    });
+  });
+
+  describe("applyTextInMainWorld", () => {
+    it("should set textarea value and dispatch input", () => {
+      const textarea = document.createElement("textarea");
+      textarea.value = "old";
+      container.appendChild(textarea);
+      const onInput = vi.fn();
+      textarea.addEventListener("input", onInput);
+
+      const result = applyTextInMainWorld(textarea, "new");
+
+      expect(result.success).toBe(true);
+      expect(textarea.value).toBe("new");
+      expect(onInput).toHaveBeenCalled();
+    });
+
+    it("should reject a read-only textarea", () => {
+      const textarea = document.createElement("textarea");
+      textarea.readOnly = true;
+      container.appendChild(textarea);
+
+      expect(applyTextInMainWorld(textarea, "new").success).toBe(false);
+    });
+
+    it("should drive a ProseMirror view through pasteText", () => {
+      const root = document.createElement("div");
+      root.contentEditable = "true";
+      root.className = "ProseMirror";
+      container.appendChild(root);
+
+      const dispatch = vi.fn();
+      const pasteText = vi.fn(() => true);
+      Object.assign(root, {
+        editor: {
+          view: {
+            state: {
+              doc: { content: { size: 12 } },
+              tr: { delete: vi.fn(() => "del-tr"), insertText: vi.fn() },
+            },
+            dispatch,
+            focus: vi.fn(),
+            pasteText,
+          },
+        },
+      });
+
+      const result = applyTextInMainWorld(root, "line 1\nline 2");
+
+      expect(result.success).toBe(true);
+      expect(dispatch).toHaveBeenCalledWith("del-tr");
+      expect(pasteText).toHaveBeenCalledWith("line 1\nline 2");
+    });
+
+    it("should drive Quill through setText", () => {
+      const quillContainer = document.createElement("div");
+      quillContainer.className = "ql-container";
+      const editor = document.createElement("div");
+      editor.className = "ql-editor";
+      editor.contentEditable = "true";
+      quillContainer.appendChild(editor);
+      container.appendChild(quillContainer);
+
+      const setText = vi.fn();
+      Object.assign(quillContainer, { __quill: { setText, focus: vi.fn() } });
+
+      const result = applyTextInMainWorld(editor, "hello");
+
+      expect(result.success).toBe(true);
+      expect(setText).toHaveBeenCalledWith("hello", "user");
+    });
+
+    it("should reject non-editable elements", () => {
+      const div = document.createElement("div");
+      container.appendChild(div);
+
+      expect(applyTextInMainWorld(div, "x").success).toBe(false);
+    });
+  });
+
+  describe("message loop", () => {
+    let teardown: () => void;
+
+    beforeEach(() => {
+      // JSDOM's postMessage leaves `event.source` null; both sides of the
+      // bridge require `source === window`, so deliver messages directly.
+      vi.spyOn(window, "postMessage").mockImplementation((data: unknown) => {
+        window.dispatchEvent(
+          new MessageEvent("message", { data, source: window }),
+        );
+      });
+      teardown = installMainWorldBridge();
+    });
+
+    afterEach(() => {
+      teardown();
+      vi.restoreAllMocks();
+    });
+
+    it("should answer the isolated-world handshake", async () => {
+      await expect(detectMainWorldBridge()).resolves.toBe(true);
+    });
+
+    it("should answer REPLACE_TEXT with a response", async () => {
+      const textarea = document.createElement("textarea");
+      textarea.id = "bridge-target";
+      container.appendChild(textarea);
+
+      const response = new Promise<Record<string, unknown>>((resolve) => {
+        const handler = (event: MessageEvent): void => {
+          const data = event.data as Record<string, unknown>;
+          if (data.type === MESSAGE_TYPES.REPLACE_TEXT_RESPONSE) {
+            window.removeEventListener("message", handler);
+            resolve(data);
+          }
+        };
+        window.addEventListener("message", handler);
+      });
+
+      window.postMessage(
+        {
+          type: MESSAGE_TYPES.REPLACE_TEXT,
+          source: MESSAGE_SOURCES.PROMPT_TUNER,
+          id: "req-1",
+          selector: "#bridge-target",
+          text: "bridged",
+        },
+        window.location.origin,
+      );
+
+      const data = await response;
+      expect(data.id).toBe("req-1");
+      expect(data.success).toBe(true);
+      expect(textarea.value).toBe("bridged");
+    });
+  });
+});
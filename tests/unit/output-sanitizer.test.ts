@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+
+import { createOutputSanitizer, sanitizeOutput } from "~lib/output-sanitizer";
+
+/** Feeds `raw` through a streaming sanitizer in pieces of `size` characters */
+function streamed(raw: string, size: number): string[] {
+  const sanitizer = createOutputSanitizer();
+  const deltas: string[] = [];
+  for (let i = 0; i < raw.length; i += size) {
+    deltas.push(sanitizer.push(raw.slice(i, i + size)));
+  }
+  deltas.push(sanitizer.flush());
+  return deltas;
+}
+
+const OUTPUTS = [
+  "Write a haiku about autumn leaves.",
+  "Sure, here's the improved prompt:\n\nWrite a haiku about autumn leaves.",
+  "Okay. Here is the optimized prompt for you:\nYou are a poet. Write a haiku.",
+  "Improved prompt: List three risks of the plan.",
+  "<result>\nSummarize the report in 5 bullets.\n</result>\nHope this helps!",
+  "Certainly! <RESULT>Explain recursion.</RESULT>",
+  '"Translate the text below into French."',
+  `Write a story.\n\n${"Add vivid detail. ".repeat(20)}\n\n`,
+  "Describe the tag </result> without a wrapper.",
+];
+
+describe("output-sanitizer", () => {
+  describe("sanitizeOutput", () => {
+    it("leaves an unframed answer alone", () => {
+      expect(sanitizeOutput("Write a haiku about autumn leaves.")).toBe(
+        "Write a haiku about autumn leaves.",
+      );
+    });
+
+    it("strips acknowledgements and lead-ins", () => {
+      expect(sanitizeOutput(OUTPUTS[1] ?? "")).toBe(
+        "Write a haiku about autumn leaves.",
+      );
+      expect(sanitizeOutput(OUTPUTS[2] ?? "")).toBe(
+        "You are a poet. Write a haiku.",
+      );
+      expect(sanitizeOutput(OUTPUTS[3] ?? "")).toBe(
+        "List three risks of the plan.",
+      );
+    });
+
+    it("keeps only the content of a wrapper tag", () => {
+      expect(sanitizeOutput(OUTPUTS[4] ?? "")).toBe(
+        "Summarize the report in 5 bullets.",
+      );
+      expect(sanitizeOutput(OUTPUTS[5] ?? "")).toBe("Explain recursion.");
+    });
+
+    it("removes quotes around the whole answer but not inside it", () => {
+      expect(sanitizeOutput(OUTPUTS[6] ?? "")).toBe(
+        "Translate the text below into French.",
+      );
+      expect(sanitizeOutput('Reply with "yes" or "no"')).toBe(
+        'Reply with "yes" or "no"',
+      );
+    });
+
+    it("does not take a sentence that merely mentions a prompt for framing", () => {
+      const answer = "Rewrite the prompt below: keep it short.";
+      expect(sanitizeOutput(answer)).toBe(answer);
+    });
+  });
+
+  describe("createOutputSanitizer", () => {
+    it("streams exactly the final text however the output is chunked", () => {
+      for (const raw of OUTPUTS) {
+        const whole = sanitizeOutput(raw);
+        for (const size of [1, 2, 3, 7, 16, 64]) {
+          expect(streamed(raw, size).join("")).toBe(whole);
+        }
+      }
+    });
+
+    it("never shows the framing, even for a moment", () => {
+      const deltas = streamed(OUTPUTS[1] ?? "", 4);
+      for (const delta of deltas) {
+        expect(delta).not.toMatch(/sure|here's|prompt:/i);
+      }
+    });
+
+    it("starts streaming once the prefix window has been judged", () => {
+      const long = `Plan the launch. ${"Then check the budget. ".repeat(10)}`;
+      const deltas = streamed(long, 10);
+      const firstShown = deltas.findIndex(Boolean);
+      expect(firstShown).toBeGreaterThan(0);
+      expect(firstShown).toBeLessThan(deltas.length - 1);
+    });
+  });
+});
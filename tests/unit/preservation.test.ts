@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+
+import { checkPreservation } from "~lib/preservation";
+
+const codes = (original: string, result: string): string[] =>
+  checkPreservation(original, result).map((w) => w.code);
+
+describe("preservation.checkPreservation", () => {
+  it("finds nothing when the facts survive the rewrite", () => {
+    const draft =
+      "Ask Alice whether the Q3 budget of $12,000 covers https://example.com/plan. Keep it under 200 words.";
+    const result =
+      "You are a finance assistant. Ask Alice whether the Q3 budget ($12000) covers the plan at https://example.com/plan. Keep the answer under 200 words.";
+
+    expect(checkPreservation(draft, result)).toEqual([]);
+  });
+
+  it("flags dropped numbers, names, links and identifiers", () => {
+    const draft =
+      "Email Bob Smith about the 3.5% fee. See https://example.com/fees and call `computeFee()` in billing_utils.";
+    const result = "Write an email about the fee.";
+
+    const warnings = checkPreservation(draft, result);
+
+    expect(warnings.map((w) => [w.code, w.detail])).toEqual([
+      ["DROPPED_NUMBER", "3.5%"],
+      ["DROPPED_NAME", "Bob Smith"],
+      ["DROPPED_URL", "https://example.com/fees"],
+      ["DROPPED_IDENTIFIER", "computeFee(), billing_utils"],
+    ]);
+  });
+
+  it("ignores list markers and accepts numbers spelled out", () => {
+    const draft = "1. List 3 risks\n2. Rank them";
+    expect(codes(draft, "List three risks and rank them.")).toEqual([]);
+  });
+
+  it("does not take sentence-initial words for names", () => {
+    expect(
+      codes(
+        "Summarize this article. Then list the key points.",
+        "Summarize the article and list its key points.",
+      ),
+    ).toEqual([]);
+  });
+
+  it("flags questions and constraints whose wording disappeared", () => {
+    const draft =
+      "Write a launch announcement. Which pricing tiers should we highlight? Never mention competitors by name.";
+    const result =
+      "Write an upbeat launch announcement for our product aimed at existing customers.";
+
+    const warnings = checkPreservation(draft, result);
+
+    expect(warnings.map((w) => w.code)).toEqual([
+      "DROPPED_QUESTION",
+      "DROPPED_CONSTRAINT",
+    ]);
+    expect(warnings[0]?.detail).toBe(
+      "Which pricing tiers should we highlight?",
+    );
+    expect(warnings[1]?.detail).toBe("Never mention competitors by name.");
+  });
+
+  it("accepts a reworded question that keeps its substance", () => {
+    const draft = "Which pricing tiers should we highlight?";
+    const result =
+      "Recommend which pricing tiers we should highlight, and why.";
+    expect(codes(draft, result)).toEqual([]);
+  });
+
+  it("flags a result far longer than the draft", () => {
+    const draft = Array.from({ length: 40 }, () => "word").join(" ");
+    const result = Array.from({ length: 400 }, () => "word").join(" ");
+
+    const warnings = checkPreservation(draft, result);
+
+    expect(warnings.map((w) => w.code)).toEqual(["LENGTH_INFLATION"]);
+    expect(warnings[0]?.message).toContain("10×");
+  });
+
+  it("lets a short draft grow into a full prompt", () => {
+    const result = Array.from({ length: 120 }, () => "word").join(" ");
+    expect(codes("word word word", result)).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  ALL_ACTIONS_SCOPE,
+  PROMPT_TEMPLATES,
+  getTemplatesVersion,
+  isOutdated,
+  missingVariables,
+  parsePromptTemplateOverrides,
+  renderTemplate,
+  resolveTemplates,
+  withOverride,
+} from "~lib/prompt-templates";
+
+describe("prompt-templates", () => {
+  describe("renderTemplate", () => {
+    it("fills the default template's variables", () => {
+      expect(
+        renderTemplate("map", {
+          section: "Do X.",
+          index: 2,
+          total: 5,
+          instruction: "",
+        }),
+      ).toBe(
+        "Improve this section of a larger prompt (section 2 of 5): Do X.\n\nReturn only the improved section.",
+      );
+    });
+
+    it("uses an override and leaves unknown slots alone", () => {
+      expect(
+        renderTemplate(
+          "steps",
+          { phase: "Research" },
+          { steps: "Expand {{phase}} for {{audience}}" },
+        ),
+      ).toBe("Expand Research for {{audience}}");
+    });
+
+    it("does not expand slots inside the values", () => {
+      expect(
+        renderTemplate("critique", {
+          prompt: "Explain {{instruction}} and $&",
+          instruction: "\n\nAdditional instruction: be brief",
+        }),
+      ).toBe(
+        "Here's a prompt: Explain {{instruction}} and $&\n\nAdditional instruction: be brief\n\nList 2-3 concrete improvements that would help most. Be brief.",
+      );
+    });
+  });
+
+  it("lists the variables a text leaves out", () => {
+    expect(missingVariables("polish", "Apply: {{critique}}")).toEqual([
+      "instruction",
+    ]);
+    expect(missingVariables("system", "Anything")).toEqual([]);
+  });
+
+  describe("overrides", () => {
+    it("lets an action's own template win over every action's", () => {
+      let overrides = withOverride({}, ALL_ACTIONS_SCOPE, "system", "Global");
+      overrides = withOverride(overrides, ALL_ACTIONS_SCOPE, "steps", "S");
+      overrides = withOverride(overrides, "optimize", "system", "Own");
+
+      expect(resolveTemplates(overrides, "optimize")).toEqual({
+        system: "Own",
+        steps: "S",
+      });
+      expect(resolveTemplates(overrides, "few-shot")).toEqual({
+        system: "Global",
+        steps: "S",
+      });
+    });
+
+    it("resets a template and drops scopes left empty", () => {
+      const overrides = withOverride({}, "optimize", "critique", "C");
+      expect(overrides.optimize?.critique).toEqual({
+        text: "C",
+        version: PROMPT_TEMPLATES.critique.version,
+      });
+      expect(withOverride(overrides, "optimize", "critique", null)).toEqual({});
+    });
+
+    it("drops malformed entries when parsing storage", () => {
+      expect(
+        parsePromptTemplateOverrides({
+          "*": {
+            system: { text: "S", version: 1 },
+            critique: { text: "  " },
+            unknown: { text: "X", version: 1 },
+          },
+          optimize: { polish: { text: "P" } },
+          broken: "nope",
+        }),
+      ).toEqual({
+        "*": { system: { text: "S", version: 1 } },
+        optimize: { polish: { text: "P", version: 0 } },
+      });
+    });
+
+    it("flags overrides written against an older default", () => {
+      expect(isOutdated("system", { text: "S", version: 0 })).toBe(true);
+      expect(
+        isOutdated("system", {
+          text: "S",
+          version: PROMPT_TEMPLATES.system.version,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("getTemplatesVersion", () => {
+    it("is stable without overrides", () => {
+      expect(getTemplatesVersion()).toBe(getTemplatesVersion({}, {}));
+    });
+
+    it("changes with the override texts", () => {
+      const a = getTemplatesVersion({ system: "A" });
+      expect(a).not.toBe(getTemplatesVersion());
+      expect(a).not.toBe(getTemplatesVersion({ system: "B" }));
+      expect(a).toBe(getTemplatesVersion({ system: "A" }));
+    });
+  });
+});
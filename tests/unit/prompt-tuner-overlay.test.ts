@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { toast } from "sonner";
+
+import { stepTuning } from "~components/PromptTunerOverlay";
+import { replaceSelection } from "~lib/text-replacer";
+import { recordTuning } from "~lib/undo-stack";
+
+vi.mock("sonner", () => ({
+  toast: Object.assign(vi.fn(), { success: vi.fn(), error: vi.fn() }),
+}));
+
+describe("PromptTunerOverlay stepTuning", () => {
+  let textarea: HTMLTextAreaElement;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    textarea = document.createElement("textarea");
+    document.body.appendChild(textarea);
+  });
+
+  afterEach(() => {
+    textarea.remove();
+  });
+
+  it("reports an empty history from the palette", () => {
+    expect(stepTuning("undo", textarea)).toBe(false);
+    expect(toast).toHaveBeenCalledWith("Nothing to undo");
+  });
+
+  it("stays quiet about an empty history from the shortcut", () => {
+    expect(stepTuning("redo", textarea, { fromShortcut: true })).toBe(false);
+    expect(toast).not.toHaveBeenCalled();
+  });
+
+  it("still steps and reports from the shortcut", () => {
+    textarea.value = "draft";
+    const replaced = { element: textarea, start: 0, end: 5, text: "draft" };
+    const inserted = replaceSelection(replaced, "better draft");
+    if (!inserted) throw new Error("expected the replacement to apply");
+    recordTuning(replaced, inserted);
+
+    expect(stepTuning("undo", textarea, { fromShortcut: true })).toBe(true);
+    expect(textarea.value).toBe("draft");
+    expect(toast.success).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  createSpanRestorer,
+  placeholderRules,
+  protectSpans,
+  restoreSpans,
+} from "~lib/protected-spans";
+
+describe("protected-spans", () => {
+  describe("protectSpans", () => {
+    it("leaves plain prose alone", () => {
+      const protection = protectSpans("Write a short poem about autumn.");
+      expect(protection.spans).toEqual([]);
+      expect(protection.masked).toBe("Write a short poem about autumn.");
+      expect(placeholderRules(protection)).toEqual([]);
+    });
+
+    it("masks code, URLs and stack traces in order of appearance", () => {
+      const draft = [
+        "Fix `parseUser` so this passes:",
+        "```ts\nexpect(parseUser(raw)).toEqual(user);\n```",
+        "It throws:",
+        "TypeError: Cannot read properties of undefined\n    at parseUser (user.ts:12:5)\n    at main (index.ts:3:1)",
+        "Docs: https://example.com/api/users?id=1.",
+      ].join("\n");
+
+      const { masked, spans } = protectSpans(draft);
+
+      expect(spans.map((s) => s.kind)).toEqual([
+        "code",
+        "code",
+        "stack-trace",
+        "url",
+      ]);
+      expect(spans[0]?.original).toBe("`parseUser`");
+      expect(spans[3]?.original).toBe("https://example.com/api/users?id=1");
+      expect(masked).toBe(
+        "Fix [[KEEP_1]] so this passes:\n[[KEEP_2]]\nIt throws:\n[[KEEP_3]]\nDocs: [[KEEP_4]].",
+      );
+    });
+
+    it("masks Python tracebacks, JSON samples and quoted customer text", () => {
+      const traceback =
+        'Traceback (most recent call last):\n  File "app.py", line 3, in <module>\n    main()\nValueError: bad input';
+      const json = '{\n  "id": 7,\n  "tags": ["a", "b"]\n}';
+      const quote = "> The export button does nothing\n> when I click it twice";
+      const said = '"I waited three days and nobody answered my ticket"';
+      const draft = `${traceback}\n\nPayload:\n${json}\n\n${quote}\n\nShe wrote ${said}.`;
+
+      const { spans } = protectSpans(draft);
+
+      expect(spans.map((s) => [s.kind, s.original])).toEqual([
+        ["stack-trace", traceback],
+        ["json", json],
+        ["quote", quote],
+        ["quote", said],
+      ]);
+    });
+
+    it("keeps JSON inside a code block as part of the block", () => {
+      const block = '```json\n{\n  "a": 1\n}\n```';
+      const { spans } = protectSpans(`Use this:\n${block}`);
+      expect(spans).toHaveLength(1);
+      expect(spans[0]?.original).toBe(block);
+    });
+
+    it("accepts user-marked spans and drops their markers on restore", () => {
+      const draft =
+        "Summarize {{keep}}Q3 revenue grew 12%{{/keep}} for the board.";
+      const protection = protectSpans(draft);
+
+      expect(protection.spans).toHaveLength(1);
+      expect(protection.spans[0]?.kind).toBe("marked");
+      expect(protection.masked).toBe("Summarize [[KEEP_1]] for the board.");
+      expect(
+        restoreSpans("Summarize [[KEEP_1]] for the board.", protection).text,
+      ).toBe("Summarize Q3 revenue grew 12% for the board.");
+    });
+
+    it("picks a placeholder the draft does not already use", () => {
+      const protection = protectSpans("Keep [[KEEP_1]] and `x`.");
+      expect(protection.spans[0]?.placeholder).toBe("[[KEEP__1]]");
+    });
+  });
+
+  describe("restoreSpans", () => {
+    it("restores every span byte-for-byte", () => {
+      const draft =
+        "Explain `a.replace(/x/, '$&$1')` and see https://example.com/a_(b)";
+      const protection = protectSpans(draft);
+
+      const rewritten = `Please explain ${protection.masked.slice("Explain ".length)}`;
+      const { text, missing } = restoreSpans(rewritten, protection);
+
+      expect(text).toBe(
+        `Please ${draft.charAt(0).toLowerCase()}${draft.slice(1)}`,
+      );
+      expect(missing).toEqual([]);
+    });
+
+    it("reports spans whose placeholder went missing", () => {
+      const protection = protectSpans("Call `init()` then `run()`.");
+      const { text, missing } = restoreSpans(
+        "Call [[KEEP_1]] first.",
+        protection,
+      );
+
+      expect(text).toBe("Call `init()` first.");
+      expect(missing.map((s) => s.original)).toEqual(["`run()`"]);
+    });
+  });
+
+  describe("createSpanRestorer", () => {
+    it("restores placeholders split across chunks", () => {
+      const protection = protectSpans("Run `npm test` and `npm run lint`.");
+      const restorer = createSpanRestorer(protection);
+
+      const out = [
+        restorer.push("First [["),
+        restorer.push("KEEP_1]] then [[KEE"),
+        restorer.push("P_2"),
+        restorer.push("]]!"),
+        restorer.flush(),
+      ];
+
+      expect(out.join("")).toBe("First `npm test` then `npm run lint`!");
+      expect(out[0]).toBe("First ");
+    });
+
+    it("passes text through unchanged when nothing is protected", () => {
+      const restorer = createSpanRestorer(protectSpans("plain prose"));
+      expect(restorer.push("a [[b")).toBe("a [[b");
+      expect(restorer.flush()).toBe("");
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_BACKEND_SETTINGS } from "~lib/model-backend";
+import {
+  RESULT_CACHE_BUDGET_BYTES,
+  RESULT_CACHE_SESSION_ENTRIES,
+  clearResultCache,
+  getCachedResult,
+  listCachedResults,
+  putCachedResult,
+  resultCacheKey,
+  setResultCacheTtlHours,
+} from "~lib/result-cache";
+import { sessionStore, storage } from "~lib/storage";
+import { type OptimizePortRequest } from "~types";
+
+const HOUR = 60 * 60_000;
+
+const request: OptimizePortRequest = {
+  type: "START_OPTIMIZATION",
+  draft: "draft",
+  platform: "openai",
+  action: "optimize",
+};
+
+function entry(key: string, result = `result for ${key}`) {
+  return {
+    key,
+    result,
+    rules: [],
+    actionId: "optimize",
+    platform: "openai" as const,
+    engine: "nano",
+    ts: Date.now(),
+  };
+}
+
+/** Backs a storage wrapper with a plain object */
+function fakeArea(area: typeof storage) {
+  const store: Record<string, unknown> = {};
+  vi.spyOn(area, "get").mockImplementation((keys) => {
+    const list = Array.isArray(keys) ? keys : [keys];
+    return Promise.resolve(Object.fromEntries(list.map((k) => [k, store[k]])));
+  });
+  vi.spyOn(area, "set").mockImplementation((items) => {
+    Object.assign(store, items);
+    return Promise.resolve();
+  });
+  return store;
+}
+
+describe("result cache", () => {
+  beforeEach(() => {
+    fakeArea(storage);
+    fakeArea(sessionStore);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("keys", () => {
+    const key = resultCacheKey(request, undefined, DEFAULT_BACKEND_SETTINGS);
+
+    it("differ by platform", () => {
+      expect(
+        resultCacheKey(
+          { ...request, platform: "anthropic" },
+          undefined,
+          DEFAULT_BACKEND_SETTINGS,
+        ),
+      ).not.toBe(key);
+    });
+
+    it("differ by engine", () => {
+      expect(
+        resultCacheKey(request, undefined, {
+          ...DEFAULT_BACKEND_SETTINGS,
+          id: "local",
+        }),
+      ).not.toBe(key);
+    });
+
+    it("differ by per-run options", () => {
+      expect(
+        resultCacheKey(
+          { ...request, variants: 2 },
+          undefined,
+          DEFAULT_BACKEND_SETTINGS,
+        ),
+      ).not.toBe(key);
+    });
+
+    it("differ by prompt template overrides", () => {
+      expect(
+        resultCacheKey(request, undefined, DEFAULT_BACKEND_SETTINGS, [
+          { critique: "Critique {{prompt}}" },
+        ]),
+      ).not.toBe(key);
+      expect(
+        resultCacheKey(request, undefined, DEFAULT_BACKEND_SETTINGS, [{}]),
+      ).toBe(key);
+    });
+
+    it("ignore the regenerate flag", () => {
+      expect(
+        resultCacheKey(
+          { ...request, fresh: true },
+          undefined,
+          DEFAULT_BACKEND_SETTINGS,
+        ),
+      ).toBe(key);
+    });
+  });
+
+  it("keeps only the most recent results for the session", async () => {
+    for (let i = 0; i <= RESULT_CACHE_SESSION_ENTRIES; i++) {
+      await putCachedResult(entry(`k${String(i)}`));
+    }
+
+    expect(await getCachedResult("k0")).toBeUndefined();
+    expect(await getCachedResult("k1")).toMatchObject({
+      result: "result for k1",
+    });
+  });
+
+  it("persists results across sessions only when enabled", async () => {
+    await putCachedResult(entry("off"));
+    await setResultCacheTtlHours(24);
+    await putCachedResult(entry("on"));
+    await sessionStore.set({ "optimize-result-cache": [] });
+
+    expect(await getCachedResult("off")).toBeUndefined();
+    expect(await getCachedResult("on")).toMatchObject({
+      result: "result for on",
+    });
+  });
+
+  it("expires persistent results after the retention period", async () => {
+    vi.useFakeTimers();
+    await setResultCacheTtlHours(24);
+    await putCachedResult(entry("old"));
+    await sessionStore.set({ "optimize-result-cache": [] });
+
+    vi.advanceTimersByTime(25 * HOUR);
+
+    expect(await getCachedResult("old")).toBeUndefined();
+  });
+
+  it("evicts the least recently used results past the size budget", async () => {
+    vi.useFakeTimers();
+    await setResultCacheTtlHours(24);
+    const big = "x".repeat(RESULT_CACHE_BUDGET_BYTES / 3);
+    await putCachedResult(entry("a", big));
+    vi.advanceTimersByTime(1000);
+    await putCachedResult(entry("b", big));
+    vi.advanceTimersByTime(1000);
+    // Reading "a" makes "b" the least recently used
+    await getCachedResult("a");
+    vi.advanceTimersByTime(1000);
+    await putCachedResult(entry("c", big));
+    await sessionStore.set({ "optimize-result-cache": [] });
+
+    expect((await listCachedResults()).map((e) => e.key)).toEqual(["c", "a"]);
+  });
+
+  it("turning persistence off or clearing empties the cache", async () => {
+    await setResultCacheTtlHours(24);
+    await putCachedResult(entry("kept"));
+    await setResultCacheTtlHours(0);
+    expect((await listCachedResults()).map((e) => e.key)).toEqual(["kept"]);
+
+    await clearResultCache();
+    expect(await listCachedResults()).toEqual([]);
+  });
+});
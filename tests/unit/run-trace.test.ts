@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+
+import { createRunTrace } from "~/background/run-trace";
+
+/** A clock the test advances by hand */
+function fakeClock() {
+  const clock = { now: 1000 };
+  return { clock, now: () => clock.now };
+}
+
+describe("run trace", () => {
+  it("times each stage from its STAGE to the next", () => {
+    const { clock, now } = fakeClock();
+    const trace = createRunTrace(now);
+
+    clock.now += 5;
+    trace.stage("drafting");
+    clock.now += 100;
+    trace.stage("critiquing");
+    clock.now += 40;
+
+    const report = trace.finish({ engine: "nano", cached: false });
+
+    expect(report.timings).toEqual([
+      { stage: "preparing", ms: 5 },
+      { stage: "drafting", ms: 100 },
+      { stage: "critiquing", ms: 40 },
+    ]);
+    expect(report.totalMs).toBe(145);
+  });
+
+  it("labels recipe stages with their step", () => {
+    const { clock, now } = fakeClock();
+    const trace = createRunTrace(now);
+
+    trace.stage("step", "Shorten");
+    clock.now += 10;
+
+    expect(trace.finish({ engine: "nano", cached: false }).timings).toEqual([
+      { stage: "preparing", ms: 0 },
+      { stage: "step", step: "Shorten", ms: 10 },
+    ]);
+  });
+
+  it("keeps the first token count and reports patterns and fallbacks", () => {
+    const trace = createRunTrace();
+    trace.pattern("writer");
+    trace.fallback({
+      from: "writer",
+      to: "single",
+      reason: "Writer API failed",
+    });
+    trace.tokensIn(120);
+    trace.tokensIn(80);
+
+    const report = trace.finish({
+      engine: "nano",
+      cached: false,
+      tokensIn: 999,
+      tokensOut: 60,
+    });
+
+    expect(report).toMatchObject({
+      engine: "nano",
+      patterns: ["writer"],
+      fallbacks: [{ from: "writer", to: "single" }],
+      tokensIn: 120,
+      tokensOut: 60,
+      cached: false,
+    });
+  });
+
+  it("falls back to the measured input count", () => {
+    const trace = createRunTrace();
+    trace.tokensIn(0);
+
+    expect(trace.hasTokensIn()).toBe(false);
+    expect(
+      trace.finish({ engine: "nano", cached: false, tokensIn: 42 }).tokensIn,
+    ).toBe(42);
+  });
+});
@@ -0,0 +1,188 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  type Job,
+  cancelJob,
+  createJob,
+  leaveJob,
+  postToJob,
+} from "~/background/jobs";
+import { scheduleJob } from "~/background/scheduler";
+import {
+  type OptimizePortMessage,
+  type OptimizePortRequest,
+  type RunReport,
+} from "~types";
+
+const report: RunReport = {
+  engine: "nano",
+  patterns: ["single"],
+  fallbacks: [],
+  timings: [],
+  totalMs: 0,
+  cached: false,
+};
+
+vi.mock("~/background/index", () => ({ setKeepAlive: vi.fn() }));
+vi.mock("~/background/messages/warmup", () => ({
+  holdSessions: vi.fn(),
+  releaseSessions: vi.fn(),
+}));
+
+let nextTab = 0;
+
+/** A job for `tabId` (a fresh tab by default), recording what it posts */
+function queuedJob(draft: string, tabId = ++nextTab) {
+  const received: OptimizePortMessage[] = [];
+  const job = createJob(
+    {
+      type: "START_OPTIMIZATION",
+      draft,
+      platform: "openai",
+      action: "optimize",
+    } satisfies OptimizePortRequest,
+    tabId,
+  );
+  const record = (message: OptimizePortMessage): void => {
+    received.push(message);
+  };
+  job.ports.add({ postMessage: record } as unknown as chrome.runtime.Port);
+  return { job, received };
+}
+
+/** Work that runs until `finish` is called */
+function blockingWork() {
+  const gate = {
+    release: () => {
+      /* set once the work starts */
+    },
+  };
+  const work = vi.fn(
+    (job: Job) =>
+      new Promise<void>((resolve) => {
+        gate.release = () => {
+          postToJob(job, {
+            type: "COMPLETE",
+            optimizedPrompt: "done",
+            appliedRules: [],
+            rules: [],
+            report,
+          });
+          resolve();
+        };
+      }),
+  );
+  return {
+    work,
+    finish: () => {
+      gate.release();
+    },
+  };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("job scheduler", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("queues jobs past the limit and tells them their place", async () => {
+    const first = queuedJob("first");
+    const second = queuedJob("second");
+    const a = blockingWork();
+    const b = blockingWork();
+
+    scheduleJob(first.job, a.work);
+    scheduleJob(second.job, b.work);
+
+    expect(a.work).toHaveBeenCalledOnce();
+    expect(b.work).not.toHaveBeenCalled();
+    expect(second.received).toEqual([
+      { type: "STAGE", stage: "queued", position: 1 },
+    ]);
+
+    a.finish();
+    await settle();
+
+    expect(b.work).toHaveBeenCalledOnce();
+    b.finish();
+    await settle();
+  });
+
+  it("serves the tab that waited longest before a recently served one", async () => {
+    const servedTab = ++nextTab;
+    const served = queuedJob("served", servedTab);
+    const warmup = blockingWork();
+    scheduleJob(served.job, warmup.work);
+    warmup.finish();
+    await settle();
+
+    const blocker = blockingWork();
+    scheduleJob(queuedJob("blocker").job, blocker.work);
+
+    // Same tab as the job that just ran, queued first
+    const again = queuedJob("again", servedTab);
+    const fresh = queuedJob("fresh");
+    const order: string[] = [];
+    scheduleJob(again.job, () => {
+      order.push("again");
+      return Promise.resolve();
+    });
+    scheduleJob(fresh.job, () => {
+      order.push("fresh");
+      return Promise.resolve();
+    });
+
+    expect(fresh.received.at(-1)).toMatchObject({ position: 1 });
+    expect(again.received.at(-1)).toMatchObject({ position: 2 });
+
+    blocker.finish();
+    await settle();
+
+    expect(order).toEqual(["fresh", "again"]);
+  });
+
+  it("frees the slot when the only tab stops its running job", async () => {
+    const tab = ++nextTab;
+    const stopped = queuedJob("stopped", tab);
+    // Generation ends when the job's signal aborts, as the engine's does
+    const work = vi.fn(
+      (job: Job) =>
+        new Promise<void>((resolve) => {
+          job.controller.signal.addEventListener("abort", () => {
+            resolve();
+          });
+        }),
+    );
+    scheduleJob(stopped.job, work);
+    const waiting = queuedJob("waiting");
+    const next = vi.fn(() => Promise.resolve());
+    scheduleJob(waiting.job, next);
+    expect(next).not.toHaveBeenCalled();
+
+    // What the port handler does with the overlay's CANCEL
+    const port = { sender: { tab: { id: tab } } } as chrome.runtime.Port;
+    leaveJob(stopped.job, port);
+    await settle();
+
+    expect(stopped.job.controller.signal.aborted).toBe(true);
+    expect(stopped.job.state).toBe("cancelled");
+    expect(next).toHaveBeenCalledOnce();
+  });
+
+  it("skips a job cancelled while it waited", async () => {
+    const running = blockingWork();
+    scheduleJob(queuedJob("running").job, running.work);
+    const waiting = queuedJob("waiting");
+    const work = vi.fn(() => Promise.resolve());
+    scheduleJob(waiting.job, work);
+
+    cancelJob(waiting.job);
+    running.finish();
+    await settle();
+
+    expect(work).not.toHaveBeenCalled();
+  });
+});
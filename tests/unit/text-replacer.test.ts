@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  type SelectionSnapshot,
+  captureComposer,
+  captureFocusedInput,
+  captureSelection,
+  captureWholeInput,
+  insertIntoComposer,
+  replaceSelectedText,
+  replaceSelection,
+} from "~lib/text-replacer";
+
+function selectText(node: Node, start: number, end: number): void {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+}
+
+function capture(): SelectionSnapshot {
+  const snapshot = captureSelection();
+  if (!snapshot) throw new Error("expected a selection");
+  return snapshot;
+}
+
+function textOf(element: Element | undefined): Node {
+  const node = element?.firstChild;
+  if (!node) throw new Error("expected a text node");
+  return node;
+}
+
+describe("text-replacer", () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    window.getSelection()?.removeAllRanges();
+    container.remove();
+  });
+
+  describe("textarea", () => {
+    it("should capture and replace only the selected span", () => {
+      const textarea = document.createElement("textarea");
+      textarea.value = "keep this, fix that";
+      container.appendChild(textarea);
+      textarea.focus();
+      textarea.setSelectionRange(11, 19);
+
+      const snapshot = capture();
+      expect(snapshot.text).toBe("fix that");
+
+      const inserted = replaceSelection(snapshot, "fixed");
+      expect(textarea.value).toBe("keep this, fixed");
+      expect(inserted).toMatchObject({ start: 11, end: 16, text: "fixed" });
+    });
+
+    it("should restore the original when undoing through the inserted span", () => {
+      const textarea = document.createElement("textarea");
+      textarea.value = "a b c";
+      container.appendChild(textarea);
+      textarea.focus();
+      textarea.setSelectionRange(2, 3);
+
+      const snapshot = capture();
+      const inserted = replaceSelection(snapshot, "BETTER");
+      expect(inserted).not.toBeNull();
+      if (inserted) replaceSelection(inserted, snapshot.text);
+
+      expect(textarea.value).toBe("a b c");
+    });
+  });
+
+  describe("contenteditable", () => {
+    let editor: HTMLDivElement;
+
+    beforeEach(() => {
+      editor = document.createElement("div");
+      editor.contentEditable = "true";
+      editor.innerHTML = "<p>First line</p><p>Second line here</p>";
+      container.appendChild(editor);
+    });
+
+    it("should capture offsets relative to the editable host", () => {
+      const second = textOf(editor.querySelectorAll("p")[1]);
+      selectText(second, 0, 6);
+
+      const snapshot = captureSelection();
+
+      expect(snapshot?.element).toBe(editor);
+      expect(snapshot?.text).toBe("Second");
+      expect(snapshot?.start).toBe("First line".length);
+    });
+
+    it("should replace the selected range and leave the rest intact", () => {
+      const second = textOf(editor.querySelectorAll("p")[1]);
+      selectText(second, 7, 11);
+
+      const snapshot = capture();
+      const inserted = replaceSelection(snapshot, "sentence");
+
+      expect(inserted?.text).toBe("sentence");
+      expect(editor.textContent).toBe("First lineSecond sentence here");
+      expect(editor.querySelectorAll("p")).toHaveLength(2);
+    });
+
+    it("should keep paragraph breaks in a selection across paragraphs", () => {
+      const [first, second] = editor.querySelectorAll("p");
+      const range = document.createRange();
+      range.setStart(textOf(first), 6);
+      range.setEnd(textOf(second), 6);
+      window.getSelection()?.removeAllRanges();
+      window.getSelection()?.addRange(range);
+
+      const snapshot = capture();
+      expect(snapshot.text).toBe("line\nSecond");
+      expect(snapshot.end - snapshot.start).toBe("lineSecond".length);
+
+      replaceSelection(snapshot, "row, next");
+      expect(editor.textContent).toBe("First row, next line here");
+    });
+
+    it("should undo by replacing the inserted span with the original", () => {
+      const first = textOf(editor.querySelector("p") ?? undefined);
+      selectText(first, 0, 5);
+
+      const snapshot = capture();
+      const inserted = replaceSelection(snapshot, "Opening");
+      expect(inserted).not.toBeNull();
+      if (inserted) replaceSelection(inserted, snapshot.text);
+
+      expect(editor.textContent).toBe("First lineSecond line here");
+    });
+
+    it("should refuse to replace when the span was edited in between", () => {
+      const first = textOf(editor.querySelector("p") ?? undefined);
+      selectText(first, 0, 5);
+      const snapshot = capture();
+
+      first.textContent = "Edited line";
+
+      expect(replaceSelection(snapshot, "Opening")).toBeNull();
+    });
+
+    it("should support the live-selection helper", () => {
+      const first = textOf(editor.querySelector("p") ?? undefined);
+      selectText(first, 6, 10);
+
+      expect(replaceSelectedText("row")).toBe(true);
+      expect(editor.textContent).toBe("First rowSecond line here");
+    });
+  });
+
+  describe("whole input", () => {
+    it("should capture the focused textarea when nothing is selected", () => {
+      const textarea = document.createElement("textarea");
+      textarea.value = "draft prompt";
+      container.appendChild(textarea);
+      textarea.focus();
+
+      expect(captureSelection()).toBeNull();
+      expect(captureFocusedInput()).toMatchObject({
+        element: textarea,
+        start: 0,
+        end: 12,
+        text: "draft prompt",
+      });
+    });
+
+    it("should resolve the contenteditable root from a focused descendant", () => {
+      const editor = document.createElement("div");
+      editor.contentEditable = "true";
+      editor.tabIndex = 0;
+      editor.textContent = "whole draft";
+      container.appendChild(editor);
+      editor.focus();
+
+      expect(captureFocusedInput()?.element).toBe(editor);
+    });
+
+    it("should replace the entire draft", () => {
+      const editor = document.createElement("div");
+      editor.contentEditable = "true";
+      editor.innerHTML = "<p>one</p><p>two</p>";
+      container.appendChild(editor);
+
+      const snapshot = captureWholeInput(editor);
+      expect(snapshot?.text).toBe("one\ntwo");
+      if (snapshot) replaceSelection(snapshot, "rewritten");
+
+      expect(editor.textContent).toBe("rewritten");
+    });
+
+    it("should find the platform composer when focus is elsewhere", () => {
+      const composer = document.createElement("div");
+      composer.id = "prompt-textarea";
+      composer.contentEditable = "true";
+      composer.textContent = "unfocused draft";
+      container.appendChild(composer);
+
+      expect(captureComposer("openai")).toMatchObject({
+        element: composer,
+        start: 0,
+        text: "unfocused draft",
+      });
+    });
+
+    it("should capture a multi-paragraph composer as the user sees it", () => {
+      const composer = document.createElement("div");
+      composer.id = "prompt-textarea";
+      composer.contentEditable = "true";
+      composer.innerHTML =
+        "<p>Summarize this.</p><p><br></p><p>Use <strong>bullets</strong>.</p>";
+      container.appendChild(composer);
+
+      const snapshot = captureComposer("openai");
+      expect(snapshot?.text).toBe("Summarize this.\n\nUse bullets.");
+      if (snapshot) replaceSelection(snapshot, "rewritten");
+
+      expect(composer.textContent).toBe("rewritten");
+    });
+
+    it.each([
+      ["leading", "<p><br></p><p>hello</p>", "\nhello"],
+      [
+        "trailing",
+        '<p>hello</p><p><br class="ProseMirror-trailingBreak"></p>',
+        "hello\n\n",
+      ],
+    ])(
+      "should replace a composer with a %s empty paragraph",
+      (_edge, html, text) => {
+        const composer = document.createElement("div");
+        composer.id = "prompt-textarea";
+        composer.contentEditable = "true";
+        composer.innerHTML = html;
+        container.appendChild(composer);
+
+        const snapshot = captureComposer("openai");
+        expect(snapshot?.text).toBe(text);
+        expect(
+          snapshot && replaceSelection(snapshot, "rewritten"),
+        ).not.toBeNull();
+        expect(composer.textContent).toBe("rewritten");
+
+        composer.innerHTML = html;
+        expect(insertIntoComposer("openai", "again")).not.toBeNull();
+        expect(composer.textContent).toBe("again");
+      },
+    );
+
+    it("should return null when the composer is empty", () => {
+      const composer = document.createElement("div");
+      composer.id = "prompt-textarea";
+      composer.contentEditable = "true";
+      container.appendChild(composer);
+
+      expect(captureComposer("openai")).toBeNull();
+    });
+
+    it("should insert into an empty composer", () => {
+      const textarea = document.createElement("textarea");
+      textarea.id = "prompt-textarea";
+      container.appendChild(textarea);
+
+      expect(insertIntoComposer("openai", "from history")).toMatchObject({
+        element: textarea,
+        text: "from history",
+      });
+      expect(textarea.value).toBe("from history");
+    });
+
+    it("should return null for an empty input", () => {
+      const textarea = document.createElement("textarea");
+      container.appendChild(textarea);
+
+      expect(captureWholeInput(textarea)).toBeNull();
+    });
+  });
+
+  it("should return null when nothing is selected", () => {
+    expect(captureSelection()).toBeNull();
+  });
+});
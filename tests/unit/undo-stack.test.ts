@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { replaceSelection } from "~lib/text-replacer";
+import {
+  UNDO_STACK_LIMIT,
+  canRedoTuning,
+  canUndoTuning,
+  findTunedComposer,
+  recordTuning,
+  redoTuning,
+  undoTuning,
+} from "~lib/undo-stack";
+
+/** Replaces [start, end) of the textarea and records it like Insert does */
+function tune(
+  textarea: HTMLTextAreaElement,
+  start: number,
+  end: number,
+  text: string,
+): void {
+  const replaced = {
+    element: textarea,
+    start,
+    end,
+    text: textarea.value.substring(start, end),
+  };
+  const inserted = replaceSelection(replaced, text);
+  if (!inserted) throw new Error("expected the replacement to apply");
+  recordTuning(replaced, inserted);
+}
+
+describe("undo-stack", () => {
+  let textarea: HTMLTextAreaElement;
+
+  beforeEach(() => {
+    textarea = document.createElement("textarea");
+    document.body.appendChild(textarea);
+  });
+
+  afterEach(() => {
+    textarea.remove();
+  });
+
+  it("should step back and forward through successive tunings", () => {
+    textarea.value = "draft";
+    tune(textarea, 0, 5, "better draft");
+    tune(textarea, 0, 12, "best draft yet");
+
+    expect(undoTuning(textarea)).toBe("applied");
+    expect(textarea.value).toBe("better draft");
+    expect(undoTuning(textarea)).toBe("applied");
+    expect(textarea.value).toBe("draft");
+    expect(undoTuning(textarea)).toBe("empty");
+
+    expect(redoTuning(textarea)).toBe("applied");
+    expect(redoTuning(textarea)).toBe("applied");
+    expect(textarea.value).toBe("best draft yet");
+    expect(canRedoTuning(textarea)).toBe(false);
+  });
+
+  it("should keep offsets valid for tunings at different positions", () => {
+    textarea.value = "one two three";
+    tune(textarea, 8, 13, "THREE!");
+    tune(textarea, 0, 3, "uno uno");
+    expect(textarea.value).toBe("uno uno two THREE!");
+
+    undoTuning(textarea);
+    undoTuning(textarea);
+    expect(textarea.value).toBe("one two three");
+  });
+
+  it("should forget redo entries once a new tuning is recorded", () => {
+    textarea.value = "a";
+    tune(textarea, 0, 1, "b");
+    undoTuning(textarea);
+    expect(canRedoTuning(textarea)).toBe(true);
+
+    tune(textarea, 0, 1, "c");
+    expect(canRedoTuning(textarea)).toBe(false);
+    expect(canUndoTuning(textarea)).toBe(true);
+  });
+
+  it("should drop the history when the composer was edited since", () => {
+    textarea.value = "draft";
+    tune(textarea, 0, 5, "tuned");
+    textarea.value = "typed over";
+
+    expect(undoTuning(textarea)).toBe("stale");
+    expect(textarea.value).toBe("typed over");
+    expect(canUndoTuning(textarea)).toBe(false);
+  });
+
+  it("should cap the number of remembered tunings", () => {
+    textarea.value = "0";
+    for (let i = 1; i <= UNDO_STACK_LIMIT + 5; i++) {
+      tune(textarea, 0, textarea.value.length, String(i));
+    }
+
+    let steps = 0;
+    while (undoTuning(textarea) === "applied") steps++;
+    expect(steps).toBe(UNDO_STACK_LIMIT);
+    expect(textarea.value).toBe("5");
+  });
+
+  it("should fall back to the most recently tuned composer", () => {
+    textarea.value = "draft";
+    tune(textarea, 0, 5, "tuned");
+    const other = document.createElement("textarea");
+
+    expect(findTunedComposer(other)).toBe(textarea);
+    expect(findTunedComposer(null)).toBe(textarea);
+
+    textarea.remove();
+    expect(findTunedComposer(null)).toBeNull();
+  });
+});
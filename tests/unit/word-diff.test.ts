@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { applyHunks, countHunks, diffWords } from "~lib/word-diff";
+
+describe("word-diff", () => {
+  it("should report identical texts as a single equal segment", () => {
+    expect(diffWords("same text", "same text")).toEqual([
+      { kind: "equal", text: "same text" },
+    ]);
+  });
+
+  it("should isolate a replaced word", () => {
+    const segments = diffWords("write a short poem", "write a long poem");
+
+    expect(segments).toEqual([
+      { kind: "equal", text: "write a " },
+      { kind: "change", hunk: 0, removed: "short", added: "long" },
+      { kind: "equal", text: " poem" },
+    ]);
+  });
+
+  it("should merge changes separated only by whitespace", () => {
+    const segments = diffWords("the big dog ran", "a small cat ran");
+
+    expect(countHunks(segments)).toBe(1);
+    expect(segments[0]).toEqual({
+      kind: "change",
+      hunk: 0,
+      removed: "the big dog",
+      added: "a small cat",
+    });
+  });
+
+  it("should number separate hunks in order", () => {
+    const segments = diffWords(
+      "Explain recursion. Keep it short.",
+      "Explain recursion with an example. Keep it under 100 words.",
+    );
+
+    expect(countHunks(segments)).toBe(2);
+  });
+
+  it("should rebuild either side exactly", () => {
+    const original = "Summarize this\n\narticle  for me";
+    const revised = "Summarize the following article\nin three bullet points";
+    const segments = diffWords(original, revised);
+    const all = new Set(
+      Array.from({ length: countHunks(segments) }, (_, i) => i),
+    );
+
+    expect(applyHunks(segments, new Set())).toBe(revised);
+    expect(applyHunks(segments, all)).toBe(original);
+  });
+
+  it("should keep the original wording of rejected hunks only", () => {
+    const segments = diffWords(
+      "tell me about cats. be brief.",
+      "Describe cats. Use three sentences.",
+    );
+    expect(countHunks(segments)).toBe(2);
+
+    expect(applyHunks(segments, new Set([1]))).toBe("Describe cats. be brief.");
+  });
+
+  it("should handle empty inputs", () => {
+    expect(diffWords("", "new text")).toEqual([
+      { kind: "change", hunk: 0, removed: "", added: "new text" },
+    ]);
+    expect(diffWords("", "")).toEqual([]);
+  });
+});